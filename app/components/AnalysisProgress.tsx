@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import { ANALYSIS_STAGES, type AnalysisProgress as Progress, type StageStatus } from "~/lib/analyze-stream";
+import { useI18n } from "~/lib/i18n";
+
+type Props = {
+  progress: Progress;
+  onCancel: () => void;
+};
+
+const STATUS_ICONS: Record<StageStatus | "pending", string> = {
+  pending: "○",
+  running: "⏳",
+  completed: "✅",
+  skipped: "⏭️",
+};
+
+const seconds = (ms: number) => (ms / 1000).toFixed(1);
+
+// Live list of pipeline stages with elapsed times and a cancel button
+export function AnalysisProgress({ progress, onCancel }: Props) {
+  const { t, tOr } = useI18n();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Known stages in pipeline order, then anything else the backend reported
+  const stageIds = progress.streaming
+    ? [
+        ...ANALYSIS_STAGES,
+        ...Object.keys(progress.stages).filter((id) => !(ANALYSIS_STAGES as readonly string[]).includes(id)),
+      ]
+    : ["upload"];
+
+  return (
+    <div className="w-full mt-4 p-4 bg-white rounded-xl border border-blue-100 shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-blue-700">{t("progress.title")}</h3>
+        <span className="text-sm font-mono text-gray-600">
+          {t("progress.elapsed", { seconds: seconds(now - progress.startedAt) })}
+        </span>
+      </div>
+      {progress.waking && (
+        <p className="mb-2 p-2 text-sm bg-indigo-50 text-indigo-700 rounded animate-pulse">{t("progress.waking")}</p>
+      )}
+      <ul className="space-y-1 text-sm">
+        {stageIds.map((id) => {
+          const stage = progress.stages[id];
+          const status = stage?.status ?? "pending";
+          return (
+            <li
+              key={id}
+              className={`flex items-center justify-between ${
+                status === "pending" || status === "skipped" ? "text-gray-400" : "text-gray-800"
+              }`}
+            >
+              <span className={status === "running" ? "animate-pulse font-medium" : undefined}>
+                {STATUS_ICONS[status]} {tOr(`progress.stage.${id}`, id)}
+              </span>
+              <span className="font-mono text-xs">
+                {status === "skipped"
+                  ? t("progress.skipped")
+                  : stage
+                    ? `${seconds((stage.finishedAt ?? now) - stage.startedAt)}s`
+                    : ""}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      {!progress.streaming && <p className="mt-2 text-xs text-gray-500">{t("progress.waiting")}</p>}
+      <button
+        type="button"
+        onClick={onCancel}
+        className="w-full mt-3 py-1.5 text-sm border border-red-300 text-red-600 rounded hover:bg-red-50 transition"
+      >
+        {t("progress.cancel")}
+      </button>
+    </div>
+  );
+}
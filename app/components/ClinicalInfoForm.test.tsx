@@ -0,0 +1,73 @@
+import { fireEvent, screen } from "@testing-library/react";
+import { useState } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { ClinicalInfoForm } from "~/components/ClinicalInfoForm";
+import type { ClinicalInfo } from "~/lib/clinical";
+import { renderWithRoot } from "~/test/render";
+
+const EMPTY: ClinicalInfo = { initial_diagnosis: "", symptoms: [] };
+
+// Keeps the value in state like the Index route does
+function Harness({ initial = EMPTY, onChange }: { initial?: ClinicalInfo; onChange?: (value: ClinicalInfo) => void }) {
+  const [value, setValue] = useState(initial);
+  return (
+    <ClinicalInfoForm
+      value={value}
+      onChange={(next) => {
+        setValue(next);
+        onChange?.(next);
+      }}
+    />
+  );
+}
+
+const vitalInput = (name: RegExp) => screen.getByRole("spinbutton", { name });
+
+describe("ClinicalInfoForm", () => {
+  it("selects an initial diagnosis and symptoms", () => {
+    const onChange = vi.fn();
+    renderWithRoot(<Harness onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole("radio", { name: /Pneumonia/ }));
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ initial_diagnosis: "Pneumonia" }));
+    expect(screen.getByText(/Initial diagnosis selected/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("checkbox", { name: /Cough/ }));
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ symptoms: ["cough"] }));
+    expect(screen.getByText(/1 symptom\(s\) selected/)).toBeInTheDocument();
+  });
+
+  it("flags a vital sign outside the catalogue range", () => {
+    renderWithRoot(<Harness />);
+
+    const temperature = vitalInput(/Temperature/);
+    fireEvent.change(temperature, { target: { value: "45" } });
+
+    expect(screen.getByText("Value must be between 30 and 43")).toBeInTheDocument();
+    expect(temperature).toHaveClass("border-red-400");
+
+    fireEvent.change(temperature, { target: { value: "37" } });
+    expect(screen.queryByText("Value must be between 30 and 43")).not.toBeInTheDocument();
+  });
+
+  it("ticks the symptoms implied by the vitals and locks them", () => {
+    const onChange = vi.fn();
+    renderWithRoot(<Harness onChange={onChange} />);
+
+    fireEvent.change(vitalInput(/Temperature/), { target: { value: "39.2" } });
+
+    const fever = screen.getByRole("checkbox", { name: /Fever/ });
+    expect(fever).toBeChecked();
+    expect(fever).toBeDisabled();
+    expect(screen.getByText("Selected automatically from vitals")).toBeInTheDocument();
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ vitals: { temperature: 39.2 } }));
+  });
+
+  it("drops a vital when its field is cleared", () => {
+    const onChange = vi.fn();
+    renderWithRoot(<Harness initial={{ ...EMPTY, vitals: { spo2: 95 } }} onChange={onChange} />);
+
+    fireEvent.change(vitalInput(/SpO2/), { target: { value: "" } });
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ vitals: {} }));
+  });
+});
@@ -0,0 +1,316 @@
+import {
+  CLINICAL_CATALOGUE,
+  getTriggeredSymptoms,
+  isVitalInRange,
+  type CatalogueColor,
+  type ClinicalInfo,
+  type VitalId,
+} from "~/lib/clinical";
+import { useI18n } from "~/lib/i18n";
+
+// Full class names so Tailwind can see them; keyed by the catalogue colour
+const COLOR_CLASSES: Record<CatalogueColor, { card: string; control: string; text: string; dot: string }> = {
+  green: {
+    card: "bg-green-50 border-green-300 shadow-md ring-2 ring-green-200",
+    control: "border-green-500 bg-green-500",
+    text: "text-green-800",
+    dot: "bg-green-400",
+  },
+  red: {
+    card: "bg-red-50 border-red-300 shadow-md ring-2 ring-red-200",
+    control: "border-red-500 bg-red-500",
+    text: "text-red-800",
+    dot: "bg-red-400",
+  },
+  orange: {
+    card: "bg-orange-50 border-orange-300 shadow-md ring-2 ring-orange-200",
+    control: "border-orange-500 bg-orange-500",
+    text: "text-orange-800",
+    dot: "bg-orange-400",
+  },
+  amber: {
+    card: "bg-amber-50 border-amber-300 shadow-md ring-2 ring-amber-200",
+    control: "border-amber-500 bg-amber-500",
+    text: "text-amber-800",
+    dot: "bg-amber-400",
+  },
+  blue: {
+    card: "bg-blue-50 border-blue-300 shadow-md ring-2 ring-blue-200",
+    control: "border-blue-500 bg-blue-500",
+    text: "text-blue-800",
+    dot: "bg-blue-400",
+  },
+  purple: {
+    card: "bg-purple-50 border-purple-300 shadow-md ring-2 ring-purple-200",
+    control: "border-purple-500 bg-purple-500",
+    text: "text-purple-800",
+    dot: "bg-purple-400",
+  },
+  teal: {
+    card: "bg-teal-50 border-teal-300 shadow-md ring-2 ring-teal-200",
+    control: "border-teal-500 bg-teal-500",
+    text: "text-teal-800",
+    dot: "bg-teal-400",
+  },
+  gray: {
+    card: "bg-gray-50 border-gray-300 shadow-md ring-2 ring-gray-200",
+    control: "border-gray-500 bg-gray-500",
+    text: "text-gray-800",
+    dot: "bg-gray-400",
+  },
+};
+
+type Props = {
+  value: ClinicalInfo;
+  onChange: (value: ClinicalInfo) => void;
+};
+
+// Initial diagnosis, symptoms and vitals, all driven by CLINICAL_CATALOGUE
+export function ClinicalInfoForm({ value: clinicalInfo, onChange }: Props) {
+  const { t, tOr } = useI18n();
+  const triggeredSymptoms = getTriggeredSymptoms(clinicalInfo.vitals);
+  const selectedSymptomCount = new Set([...clinicalInfo.symptoms, ...triggeredSymptoms]).size;
+
+  const handleSymptomChange = (symptom: string) => {
+    const symptoms = clinicalInfo.symptoms.includes(symptom)
+      ? clinicalInfo.symptoms.filter((s) => s !== symptom)
+      : [...clinicalInfo.symptoms, symptom];
+    onChange({ ...clinicalInfo, symptoms });
+  };
+
+  const handleVitalChange = (id: VitalId, value: string) => {
+    const vitals = { ...clinicalInfo.vitals };
+    if (value === "") delete vitals[id];
+    else vitals[id] = Number(value);
+    onChange({ ...clinicalInfo, vitals });
+  };
+
+  return (
+    <>
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Left Column - Initial Diagnosis */}
+      <div className="w-full bg-gradient-to-br from-orange-50 to-amber-50 rounded-xl p-5 border border-orange-100 shadow-sm">
+        <div className="text-center mb-4">
+          <h3 className="text-lg font-semibold text-orange-700 mb-1 flex items-center justify-center gap-2">
+            <span className="text-xl">🩺</span>
+            {t("diagnosis.title")}
+          </h3>
+          <p className="text-sm text-orange-600">{t("diagnosis.hint")}</p>
+        </div>
+        <div className="space-y-3">
+          {CLINICAL_CATALOGUE.diagnoses.map((diagnosis) => {
+            const isSelected = clinicalInfo.initial_diagnosis === diagnosis.id;
+            const colors = COLOR_CLASSES[diagnosis.color];
+
+            return (
+              <label
+                key={diagnosis.id}
+                className={`
+                  relative flex items-center gap-3 p-4 rounded-xl border-2 cursor-pointer 
+                  transition-all duration-200 ease-in-out transform hover:scale-[1.02]
+                  ${isSelected
+                    ? colors.card
+                    : 'bg-white border-gray-200 hover:border-orange-300 hover:bg-orange-25 hover:shadow-md'
+                  }
+                `}
+              >
+                <input
+                  type="radio"
+                  name="initial_diagnosis"
+                  value={diagnosis.id}
+                  checked={isSelected}
+                  onChange={(e) => onChange({ ...clinicalInfo, initial_diagnosis: e.target.value })}
+                  className="sr-only"
+                />
+
+                {/* Custom Radio Button */}
+                <div className={`
+                  relative w-5 h-5 rounded-full border-2 flex items-center justify-center
+                  transition-all duration-200
+                  ${isSelected ? colors.control : 'border-gray-300 bg-white group-hover:border-orange-400'}
+                `}>
+                  {isSelected && (
+                    <div className="w-2 h-2 bg-white rounded-full"></div>
+                  )}
+                </div>
+
+                {/* Content */}
+                <div className="flex items-center gap-3 flex-1">
+                  <span className="text-2xl">{diagnosis.icon}</span>
+                  <div className="flex-1">
+                    <div className={`font-semibold transition-colors ${
+                      isSelected ? colors.text : 'text-gray-700'
+                    }`}>
+                      {tOr(`diagnosis.${diagnosis.id}.label`, diagnosis.id)}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-0.5">
+                      {tOr(`diagnosis.${diagnosis.id}.description`, t("diagnosis.other.description"))}
+                    </div>
+                  </div>
+                </div>
+
+                {/* Indicator dot */}
+                {isSelected && (
+                  <div className={`w-2 h-2 rounded-full animate-pulse ${colors.dot}`}></div>
+                )}
+              </label>
+            );
+          })}
+        </div>
+
+        {/* Selected count indicator */}
+        {clinicalInfo.initial_diagnosis && (
+          <div className="mt-4 p-3 bg-white rounded-lg border border-orange-200 text-center">
+            <span className="text-sm font-medium text-orange-700">
+              {t("diagnosis.selected")}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* Right Column - Symptoms */}
+      <div className="w-full bg-gradient-to-br from-green-50 to-emerald-50 rounded-xl p-5 border border-green-100 shadow-sm">
+      <div className="text-center mb-4">
+        <h3 className="text-lg font-semibold text-green-700 mb-1 flex items-center justify-center gap-2">
+          <span className="text-xl">🩺</span>
+          {t("symptoms.title")}
+        </h3>
+        <p className="text-sm text-green-600">{t("symptoms.hint")}</p>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {CLINICAL_CATALOGUE.symptoms.map((symptom) => {
+          const isTriggered = triggeredSymptoms.includes(symptom.id);
+          const isChecked = isTriggered || clinicalInfo.symptoms.includes(symptom.id);
+          const colors = COLOR_CLASSES[symptom.color];
+
+          return (
+            <label
+              key={symptom.id}
+              className={`
+                relative flex items-center gap-3 p-4 rounded-xl border-2 cursor-pointer 
+                transition-all duration-200 ease-in-out transform hover:scale-[1.02]
+                ${isChecked
+                  ? colors.card
+                  : 'bg-white border-gray-200 hover:border-green-300 hover:bg-green-25 hover:shadow-md'
+                }
+              `}
+            >
+              <input
+                type="checkbox"
+                checked={isChecked}
+                disabled={isTriggered}
+                onChange={() => handleSymptomChange(symptom.id)}
+                className="sr-only"
+              />
+
+              {/* Custom Checkbox */}
+              <div className={`
+                relative w-5 h-5 rounded-md border-2 flex items-center justify-center
+                transition-all duration-200
+                ${isChecked ? colors.control : 'border-gray-300 bg-white group-hover:border-green-400'}
+              `}>
+                {isChecked && (
+                  <svg 
+                    className="w-3 h-3 text-white" 
+                    fill="none" 
+                    stroke="currentColor" 
+                    viewBox="0 0 24 24"
+                  >
+                    <path 
+                      strokeLinecap="round" 
+                      strokeLinejoin="round" 
+                      strokeWidth={3} 
+                      d="M5 13l4 4L19 7"
+                    />
+                  </svg>
+                )}
+              </div>
+
+              {/* Content */}
+              <div className="flex items-center gap-3 flex-1">
+                <span className="text-2xl">{symptom.icon}</span>
+                <div className="flex-1">
+                  <div className={`font-semibold transition-colors ${
+                    isChecked ? colors.text : 'text-gray-700'
+                  }`}>
+                    {tOr(`symptom.${symptom.id}.label`, symptom.id)}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-0.5">
+                    {isTriggered
+                      ? t("symptoms.triggered")
+                      : tOr(`symptom.${symptom.id}.description`, "")}
+                  </div>
+                </div>
+              </div>
+
+              {/* Indicator dot */}
+              {isChecked && (
+                <div className={`w-2 h-2 rounded-full animate-pulse ${colors.dot}`}></div>
+              )}
+            </label>
+          );
+        })}
+      </div>
+
+      {/* Selected count indicator */}
+      {selectedSymptomCount > 0 && (
+        <div className="mt-4 p-3 bg-white rounded-lg border border-green-200 text-center">
+          <span className="text-sm font-medium text-green-700">
+            {t("symptoms.selected", { count: selectedSymptomCount })}
+          </span>
+        </div>
+      )}
+      </div>
+    </div>
+
+    {/* Vitals */}
+    <div className="w-full bg-gradient-to-br from-teal-50 to-cyan-50 rounded-xl p-5 border border-teal-100 shadow-sm">
+      <div className="text-center mb-4">
+        <h3 className="text-lg font-semibold text-teal-700 mb-1 flex items-center justify-center gap-2">
+          <span className="text-xl">📈</span>
+          {t("vitals.title")}
+        </h3>
+        <p className="text-sm text-teal-600">{t("vitals.hint")}</p>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {CLINICAL_CATALOGUE.vitals.map((vital) => {
+          const value = clinicalInfo.vitals?.[vital.id];
+          const inRange = isVitalInRange(vital, value);
+          return (
+            <label key={vital.id} className="flex flex-col gap-1 text-sm text-gray-700">
+              <span className="font-medium">
+                {vital.icon} {tOr(`vital.${vital.id}.label`, vital.id)}
+              </span>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min={vital.min}
+                  max={vital.max}
+                  step={vital.step}
+                  value={value ?? ""}
+                  onChange={(e) => handleVitalChange(vital.id, e.target.value)}
+                  className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 ${
+                    inRange
+                      ? "border-gray-300 focus:ring-teal-300"
+                      : "border-red-400 focus:ring-red-300"
+                  }`}
+                />
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                  {tOr(`vital.${vital.id}.unit`, vital.unit)}
+                </span>
+              </div>
+              {!inRange && (
+                <span className="text-xs text-red-500">
+                  {t("vitals.outOfRange", { min: vital.min, max: vital.max })}
+                </span>
+              )}
+            </label>
+          );
+        })}
+      </div>
+    </div>
+
+    </>
+  );
+}
@@ -0,0 +1,181 @@
+import { ResultPanel } from "~/components/ResultPanel";
+import type { AnalyzePipeline, AnalyzeResponse } from "~/lib/analyze";
+import {
+  isNotableDelta,
+  SCORE_DELTA_THRESHOLD,
+  type NumberDelta,
+  type PipelineComparison,
+} from "~/lib/compare";
+import { useI18n, type MessageKey } from "~/lib/i18n";
+import type { ThresholdSettings } from "~/lib/thresholds";
+
+type Props = {
+  outcomes: Record<AnalyzePipeline, { response: AnalyzeResponse | null; error: string | null }>;
+  comparison: PipelineComparison | null;
+  thresholds: ThresholdSettings;
+};
+
+const PIPELINE_LABELS: Record<AnalyzePipeline, MessageKey> = {
+  standard: "mode.standard",
+  optimized: "mode.optimized",
+};
+
+const signed = (value: number, digits: number) => `${value > 0 ? "+" : ""}${value.toFixed(digits)}`;
+
+// Formats one side (or the delta) of a metric; "—" when the pipeline didn't report it
+const formatters = {
+  percent: (value: number, delta = false) =>
+    delta ? `${signed(value * 100, 1)} pt` : `${(value * 100).toFixed(1)}%`,
+  seconds: (value: number, delta = false) =>
+    delta ? `${signed(value / 1000, 1)}s` : `${(value / 1000).toFixed(1)}s`,
+  usd: (value: number, delta = false) => (delta ? `${signed(value, 4)} $` : `$${value.toFixed(4)}`),
+};
+
+function MetricRow({
+  label,
+  metric,
+  format,
+  // Whether a positive delta (optimized higher) is the better outcome
+  higherIsBetter,
+}: {
+  label: string;
+  metric: NumberDelta;
+  format: (value: number, delta?: boolean) => string;
+  higherIsBetter: boolean;
+}) {
+  const { delta } = metric;
+  const deltaClassName =
+    delta === undefined || delta === 0
+      ? "text-gray-500"
+      : delta > 0 === higherIsBetter
+        ? "text-green-600"
+        : "text-red-600";
+
+  return (
+    <tr className="border-t">
+      <td className="py-1 pr-2 font-medium text-gray-700">{label}</td>
+      <td className="py-1 px-2 text-right">{metric.standard !== undefined ? format(metric.standard) : "—"}</td>
+      <td className="py-1 px-2 text-right">{metric.optimized !== undefined ? format(metric.optimized) : "—"}</td>
+      <td className={`py-1 pl-2 text-right font-semibold ${deltaClassName}`}>
+        {delta !== undefined ? format(delta, true) : "—"}
+      </td>
+    </tr>
+  );
+}
+
+// Standard vs optimized on the same input: a differences summary, then both full results
+export function ComparePanel({ outcomes, comparison, thresholds }: Props) {
+  const { t, label: translateLabel } = useI18n();
+
+  return (
+    <div className="mt-6 w-full max-w-6xl">
+      {comparison && (
+        <div className="p-4 border rounded bg-white shadow-sm">
+          <h2 className="font-semibold mb-3 text-purple-700">{t("compare.title")}</h2>
+          <div
+            className={`mb-3 p-3 rounded-lg border-l-4 text-sm font-medium ${
+              comparison.predictedClass.changed
+                ? "bg-red-50 border-red-500 text-red-800"
+                : "bg-green-50 border-green-500 text-green-800"
+            }`}
+          >
+            {comparison.predictedClass.changed
+              ? t("compare.classChanged", {
+                  standard: translateLabel(comparison.predictedClass.standard),
+                  optimized: translateLabel(comparison.predictedClass.optimized),
+                })
+              : t("compare.classSame", { label: translateLabel(comparison.predictedClass.standard) })}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500">
+                  <th className="text-left font-normal">{t("compare.metric")}</th>
+                  <th className="text-right font-normal px-2">{t("mode.standard")}</th>
+                  <th className="text-right font-normal px-2">{t("mode.optimized")}</th>
+                  <th className="text-right font-normal">{t("compare.delta")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                <MetricRow
+                  label={t("compare.confidence")}
+                  metric={comparison.confidence}
+                  format={formatters.percent}
+                  higherIsBetter
+                />
+                <MetricRow
+                  label={t("compare.processingTime")}
+                  metric={comparison.processingTime}
+                  format={formatters.seconds}
+                  higherIsBetter={false}
+                />
+                <MetricRow
+                  label={t("compare.cost")}
+                  metric={comparison.costUsd}
+                  format={formatters.usd}
+                  higherIsBetter={false}
+                />
+                <tr className="border-t">
+                  <td className="py-1 pr-2 font-medium text-gray-700">{t("compare.warnings")}</td>
+                  <td className="py-1 px-2 text-right">{comparison.warnings.standard}</td>
+                  <td className="py-1 px-2 text-right">{comparison.warnings.optimized}</td>
+                  <td className="py-1 pl-2 text-right font-semibold text-gray-500">
+                    {signed(comparison.warnings.optimized - comparison.warnings.standard, 0)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700">{t("compare.labels")}</h3>
+              <p className="text-xs text-gray-500 mb-1">
+                {t("compare.labelsHint", { threshold: SCORE_DELTA_THRESHOLD * 100 })}
+              </p>
+              <div className="max-h-48 overflow-y-auto">
+                <table className="w-full text-xs">
+                  <tbody>
+                    {comparison.labels.map((item) => (
+                      <tr
+                        key={item.label}
+                        className={`border-t ${isNotableDelta(item.delta) ? "bg-yellow-50 font-semibold" : ""}`}
+                      >
+                        <td className="py-1 pr-2 text-gray-800">{translateLabel(item.label)}</td>
+                        <td className="py-1 px-2 text-right">
+                          {item.standard !== undefined ? formatters.percent(item.standard) : "—"}
+                        </td>
+                        <td className="py-1 px-2 text-right">
+                          {item.optimized !== undefined ? formatters.percent(item.optimized) : "—"}
+                        </td>
+                        <td
+                          className={`py-1 pl-2 text-right ${
+                            isNotableDelta(item.delta) ? "text-orange-700" : "text-gray-500"
+                          }`}
+                        >
+                          {item.delta !== undefined ? formatters.percent(item.delta, true) : "—"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-4">
+        {(Object.keys(PIPELINE_LABELS) as AnalyzePipeline[]).map((pipeline) => {
+          const { response, error } = outcomes[pipeline];
+          return (
+            <div key={pipeline} className="min-w-0">
+              <h3 className="mt-6 font-semibold text-gray-800">{t(PIPELINE_LABELS[pipeline])}</h3>
+              {error && <div className="mt-2 text-red-500">{error}</div>}
+              {response && <ResultPanel result={response} thresholds={thresholds} />}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
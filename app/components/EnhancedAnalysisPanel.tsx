@@ -0,0 +1,122 @@
+import { useState } from "react";
+import type { EnhancedAnalysis } from "~/lib/analyze";
+import { useI18n } from "~/lib/i18n";
+
+type Props = {
+  analysis: EnhancedAnalysis;
+};
+
+// Multi-AI pipeline summary: system, models, timing, and on demand the
+// agreement, professor review, cost and optimisation details
+export function EnhancedAnalysisPanel({ analysis }: Props) {
+  const { t } = useI18n();
+  const [showEnhancedDetails, setShowEnhancedDetails] = useState(false);
+
+  return (
+    <div className="mb-4 p-3 bg-blue-50 rounded border">
+      <div className="flex justify-between items-center mb-2">
+        <span className="font-medium text-blue-700">
+          {t("enhanced.title")}
+        </span>
+        <button
+          onClick={() => setShowEnhancedDetails(!showEnhancedDetails)}
+          className="text-xs text-blue-600 hover:text-blue-800"
+        >
+          {showEnhancedDetails ? t("enhanced.hide") : t("enhanced.show")}
+        </button>
+      </div>
+
+      <div className="text-sm text-gray-700">
+        <div className="mb-1">
+          <span className="font-medium">{t("enhanced.system")} </span>
+          <span className="text-blue-600">{analysis.system_type}</span>
+        </div>
+
+        {analysis.models_used && (
+          <div className="mb-1">
+            <span className="font-medium">{t("enhanced.models")} </span>
+            <span className="text-green-600">
+              {analysis.models_used.join(", ")}
+            </span>
+          </div>
+        )}
+
+        {analysis.performance_metrics && (
+          <div className="mb-1">
+            <span className="font-medium">{t("enhanced.processingTime")} </span>
+            <span className="text-orange-600">
+              {(analysis.performance_metrics.total_processing_time / 1000).toFixed(1)}s
+            </span>
+            {analysis.performance_metrics.estimated_speedup && (
+              <span className="ml-2 text-green-600 text-xs">
+                ({analysis.performance_metrics.estimated_speedup})
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+
+      {showEnhancedDetails && (
+        <div className="mt-3 pt-3 border-t border-blue-200">
+          {/* AI Agreement Status */}
+          {analysis.ai_agreement && (
+            <div className="mb-2">
+              <span className="font-medium text-gray-700">{t("enhanced.agreement")} </span>
+              <span className={
+                analysis.ai_agreement.disagreement_detected 
+                  ? "text-red-600" 
+                  : "text-green-600"
+              }>
+                {analysis.ai_agreement.disagreement_detected 
+                  ? t("enhanced.disagreement")
+                  : t("enhanced.agree")}
+              </span>
+            </div>
+          )}
+
+          {/* Professor AI Status */}
+          {analysis.professor_analysis && (
+            <div className="mb-2">
+              <span className="font-medium text-gray-700">{t("enhanced.professor")} </span>
+              <span className={
+                analysis.professor_analysis.triggered
+                  ? "text-blue-600" 
+                  : "text-gray-500"
+              }>
+                {analysis.professor_analysis.triggered 
+                  ? t("enhanced.professorActivated", {
+                      diagnosis: analysis.professor_analysis.expert_diagnosis ?? "",
+                    })
+                  : t("enhanced.professorNotNeeded")}
+              </span>
+            </div>
+          )}
+
+          {/* Cost Information */}
+          {analysis.performance_metrics?.total_cost_usd && (
+            <div className="mb-2">
+              <span className="font-medium text-gray-700">{t("enhanced.cost")} </span>
+              <span className="text-purple-600">
+                ${analysis.performance_metrics.total_cost_usd.toFixed(4)} USD
+              </span>
+            </div>
+          )}
+
+          {/* Optimization Features */}
+          {analysis.optimization_features && (
+            <div className="mb-2">
+              <span className="font-medium text-gray-700">{t("enhanced.optimizations")} </span>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {analysis.optimization_features.map((feature, idx) => (
+                  <span key={idx} className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded">
+                    {feature.replace(/_/g, ' ')}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { act, fireEvent, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { FeedbackForm } from "~/components/FeedbackForm";
+import valid from "~/lib/__fixtures__/analyze-valid.json";
+import { parseAnalyzeResponse } from "~/lib/analyze";
+import { saveFeedback } from "~/lib/feedback";
+import { renderWithRoot, TEST_USER } from "~/test/render";
+
+// IndexedDB is not available in jsdom
+vi.mock("~/lib/feedback", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("~/lib/feedback")>()),
+  saveFeedback: vi.fn(async () => undefined),
+}));
+
+const { response } = parseAnalyzeResponse(structuredClone(valid));
+
+describe("FeedbackForm", () => {
+  it("attributes the review to the signed-in user", async () => {
+    // Left behind by whoever used this browser before
+    localStorage.setItem("xray-ui.reviewer", "BS. Minh");
+    renderWithRoot(<FeedbackForm result={response} historyId={null} fileName="chest.png" pipeline="optimized" />);
+
+    fireEvent.click(screen.getByRole("button", { name: "👍 Agree" }));
+    expect(screen.getByText(TEST_USER.name)).toBeInTheDocument();
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: /Save/ }));
+    });
+
+    expect(saveFeedback).toHaveBeenCalledWith(
+      expect.objectContaining({ reviewer: TEST_USER.name, reviewerId: TEST_USER.id, verdict: "agree" })
+    );
+  });
+
+  it("does not save a review without a signed-in user", () => {
+    vi.mocked(saveFeedback).mockClear();
+    renderWithRoot(<FeedbackForm result={response} historyId={null} fileName="chest.png" pipeline="optimized" />, {
+      user: null,
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "👍 Agree" }));
+    fireEvent.click(screen.getByRole("button", { name: /Save/ }));
+
+    expect(screen.getByText("Please sign in to save a review.")).toBeInTheDocument();
+    expect(saveFeedback).not.toHaveBeenCalled();
+  });
+});
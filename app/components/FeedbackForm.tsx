@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { useRouteLoaderData } from "@remix-run/react";
+import { useCurrentUser } from "~/hooks/useCurrentUser";
+import type { AnalyzePipeline, AnalyzeResponse } from "~/lib/analyze";
+import { ApiError, describeApiError } from "~/lib/api-client";
+import { CLINICAL_CATALOGUE } from "~/lib/clinical";
+import {
+  buildFeedback,
+  getFeedbackForHistory,
+  saveFeedback,
+  sendFeedback,
+  type Feedback,
+  type FeedbackVerdict,
+} from "~/lib/feedback";
+import { useI18n, type MessageKey } from "~/lib/i18n";
+
+type Props = {
+  result: AnalyzeResponse;
+  historyId: string | null;
+  fileName: string;
+  pipeline: AnalyzePipeline;
+};
+
+const VERDICTS: { verdict: FeedbackVerdict; label: MessageKey; className: string }[] = [
+  { verdict: "agree", label: "feedback.agree", className: "border-green-500 bg-green-100 text-green-800" },
+  { verdict: "disagree", label: "feedback.disagree", className: "border-red-500 bg-red-100 text-red-800" },
+  { verdict: "correct", label: "feedback.correct", className: "border-amber-500 bg-amber-100 text-amber-800" },
+];
+
+// Agree / disagree / correct-to control under a result, with optional per-finding
+// corrections and a note. Saved locally and, when configured, sent to the endpoint.
+export function FeedbackForm({ result, historyId, fileName, pipeline }: Props) {
+  const { t, label: translateLabel, formatDateTime } = useI18n();
+  const rootData = useRouteLoaderData<{ feedbackSync?: boolean }>("root");
+  const user = useCurrentUser();
+  const [verdict, setVerdict] = useState<FeedbackVerdict | null>(null);
+  const [correctLabel, setCorrectLabel] = useState("");
+  const [labelCorrections, setLabelCorrections] = useState<Record<string, boolean>>({});
+  const [note, setNote] = useState("");
+  const [saved, setSaved] = useState<Feedback | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Show the earlier review when a reviewed result is reopened
+  useEffect(() => {
+    setSaved(null);
+    setVerdict(null);
+    setCorrectLabel("");
+    setLabelCorrections({});
+    setNote("");
+    setError(null);
+    if (!historyId) return;
+    getFeedbackForHistory(historyId)
+      .then((existing) => {
+        if (!existing) return;
+        setSaved(existing);
+        setVerdict(existing.verdict);
+        setCorrectLabel(existing.verdict === "correct" ? existing.correctLabel ?? "" : "");
+        setLabelCorrections(existing.labelCorrections);
+        setNote(existing.note);
+      })
+      .catch((err) => console.warn("Could not read feedback:", err));
+  }, [historyId, result]);
+
+  const correctOptions = [
+    ...new Set([...result.data.classLabels, ...CLINICAL_CATALOGUE.diagnoses.map((d) => d.id)]),
+  ].filter((label) => label !== result.data.predictedClass);
+
+  const setLabelCorrection = (label: string, value: string) =>
+    setLabelCorrections((prev) => {
+      const next = { ...prev };
+      if (value === "") delete next[label];
+      else next[label] = value === "present";
+      return next;
+    });
+
+  const handleSave = async () => {
+    if (!verdict) return;
+    // Reviews are attributed to the signed-in account, never to a typed name
+    if (!user) {
+      setError(t("feedback.signInRequired"));
+      return;
+    }
+    if (verdict === "correct" && !correctLabel) {
+      setError(t("feedback.correctLabelRequired"));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const feedback = buildFeedback(
+        { verdict, correctLabel, labelCorrections, note },
+        user,
+        result,
+        { fileName, pipeline, historyId },
+        saved ?? undefined
+      );
+      await saveFeedback(feedback);
+      setSaved(feedback);
+
+      if (rootData?.feedbackSync) {
+        try {
+          setSaved(await sendFeedback(feedback));
+        } catch (err) {
+          console.warn("Could not send feedback:", err);
+          setError(
+            t("feedback.syncFailed", {
+              error: err instanceof ApiError ? describeApiError(err, { t }) : String(err),
+            })
+          );
+        }
+      }
+    } catch (err) {
+      console.warn("Could not save feedback:", err);
+      setError(t("feedback.saveError"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 p-4 rounded-lg border border-amber-200 bg-amber-50">
+      <h3 className="font-semibold text-amber-800">{t("feedback.title")}</h3>
+      <p className="text-xs text-gray-600 mb-3">{t("feedback.hint")}</p>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {VERDICTS.map((option) => (
+          <button
+            key={option.verdict}
+            type="button"
+            onClick={() => setVerdict(option.verdict)}
+            className={`px-3 py-1.5 text-sm rounded-lg border-2 transition ${
+              verdict === option.verdict ? option.className : "border-gray-200 bg-white hover:border-gray-300"
+            }`}
+          >
+            {t(option.label)}
+          </button>
+        ))}
+      </div>
+
+      {verdict === "correct" && (
+        <label className="block mb-3 text-sm">
+          <span className="font-medium text-gray-700">{t("feedback.correctLabel")}</span>
+          <select
+            value={correctLabel}
+            onChange={(e) => setCorrectLabel(e.target.value)}
+            className="ml-2 px-2 py-1 border rounded"
+          >
+            <option value="">{t("feedback.chooseLabel")}</option>
+            {correctOptions.map((label) => (
+              <option key={label} value={label}>
+                {translateLabel(label)}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {verdict && (
+        <>
+          <details className="mb-3 text-sm">
+            <summary className="cursor-pointer font-medium text-gray-700">
+              {t("feedback.labels", { count: Object.keys(labelCorrections).length })}
+            </summary>
+            <div className="mt-2 grid sm:grid-cols-2 gap-x-4 gap-y-1 max-h-56 overflow-y-auto">
+              {result.data.allMultiLabelScores.map((item) => (
+                <label key={item.label} className="flex items-center justify-between gap-2">
+                  <span>
+                    {translateLabel(item.label)}{" "}
+                    <span className="text-xs text-gray-500">{(item.score * 100).toFixed(1)}%</span>
+                  </span>
+                  <select
+                    value={
+                      item.label in labelCorrections
+                        ? labelCorrections[item.label]
+                          ? "present"
+                          : "absent"
+                        : ""
+                    }
+                    onChange={(e) => setLabelCorrection(item.label, e.target.value)}
+                    className="px-1 py-0.5 border rounded text-xs"
+                  >
+                    <option value="">{t("feedback.labelUnset")}</option>
+                    <option value="present">{t("feedback.labelPresent")}</option>
+                    <option value="absent">{t("feedback.labelAbsent")}</option>
+                  </select>
+                </label>
+              ))}
+            </div>
+          </details>
+
+          <label className="block mb-2 text-sm">
+            <span className="font-medium text-gray-700">{t("feedback.note")}</span>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={t("feedback.notePlaceholder")}
+              rows={2}
+              className="w-full mt-1 px-2 py-1 border rounded"
+            />
+          </label>
+
+          {user && (
+            <p className="mb-3 text-sm">
+              <span className="font-medium text-gray-700">{t("feedback.reviewer")}:</span> {user.name}
+            </p>
+          )}
+
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="w-full py-2 bg-amber-600 text-white rounded hover:bg-amber-700 transition disabled:opacity-50"
+          >
+            {saving ? t("feedback.saving") : t("feedback.save")}
+          </button>
+        </>
+      )}
+
+      {saved && (
+        <p className="mt-2 text-xs text-green-700">
+          {t("feedback.saved", { date: formatDateTime(saved.updatedAt), reviewer: saved.reviewer })}
+          {saved.syncedAt && saved.syncedAt >= saved.updatedAt && ` ${t("feedback.synced")}`}
+        </p>
+      )}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
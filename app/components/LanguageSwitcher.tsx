@@ -0,0 +1,31 @@
+import { useFetcher } from "@remix-run/react";
+import { LOCALE_NAMES, LOCALES, useI18n } from "~/lib/i18n";
+
+export function LanguageSwitcher() {
+  const fetcher = useFetcher();
+  const { locale, t } = useI18n();
+  // Show the pending choice straight away instead of waiting for revalidation
+  const current = (fetcher.formData?.get("locale") as string | null) ?? locale;
+
+  return (
+    <fetcher.Form method="post" action="/locale" className="flex items-center gap-1 text-xs">
+      <span className="sr-only">{t("app.language")}</span>
+      {LOCALES.map((value) => (
+        <button
+          key={value}
+          type="submit"
+          name="locale"
+          value={value}
+          title={LOCALE_NAMES[value]}
+          className={`px-2 py-1 rounded border transition ${
+            current === value
+              ? "bg-blue-600 border-blue-600 text-white"
+              : "bg-white border-gray-300 text-gray-600 hover:border-blue-400"
+          }`}
+        >
+          {value.toUpperCase()}
+        </button>
+      ))}
+    </fetcher.Form>
+  );
+}
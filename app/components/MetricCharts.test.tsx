@@ -0,0 +1,52 @@
+import { render } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { CurveChart, TrendChart } from "~/components/MetricCharts";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("TrendChart", () => {
+  it("breaks a series where a study has no score", () => {
+    const { container } = render(
+      <TrendChart
+        times={[0, DAY, 2 * DAY, 3 * DAY]}
+        series={[{ label: "Pneumonia", color: "#dc2626", values: [0.2, undefined, 0.5, 0.6] }]}
+        formatTime={(time) => `day ${time / DAY}`}
+        xLabel="Study date"
+        yLabel="Probability"
+      />
+    );
+
+    const lines = container.querySelectorAll("polyline");
+    expect(lines).toHaveLength(2);
+    expect(lines[0].getAttribute("points")?.split(" ")).toHaveLength(1);
+    expect(lines[1].getAttribute("points")?.split(" ")).toHaveLength(2);
+    expect(container.querySelectorAll("circle")).toHaveLength(3);
+  });
+
+  it("anchors the first and last dates inside the chart", () => {
+    const { getByText } = render(
+      <TrendChart
+        times={[0, 2 * DAY]}
+        series={[]}
+        formatTime={(time) => `day ${time / DAY}`}
+        xLabel="Study date"
+        yLabel="Probability"
+      />
+    );
+
+    expect(getByText("day 0")).toHaveAttribute("text-anchor", "start");
+    expect(getByText("day 2")).toHaveAttribute("text-anchor", "end");
+  });
+});
+
+describe("CurveChart", () => {
+  it("keeps the dashboard's x ticks centred", () => {
+    const { container } = render(<CurveChart points={[]} xLabel="FPR" yLabel="TPR" />);
+
+    const ticks = [...container.querySelectorAll("text")].filter((text) =>
+      ["0", "0.5", "1"].includes(text.textContent ?? "")
+    );
+    const xTicks = ticks.filter((text) => text.getAttribute("text-anchor") === "middle");
+    expect(xTicks.map((text) => text.textContent)).toEqual(["0", "0.5", "1"]);
+  });
+});
@@ -0,0 +1,202 @@
+import type { CalibrationBin, CurvePoint } from "~/lib/metrics";
+
+// Small dependency-free SVG charts for the dashboard and the patient timeline.
+// Both axes run 0..1.
+
+const SIZE = 200;
+const PAD = 24;
+const PLOT = SIZE - PAD * 2;
+
+const toX = (value: number) => PAD + value * PLOT;
+const toY = (value: number) => SIZE - PAD - value * PLOT;
+
+type Tick = { value: number; label: string; anchor?: "start" | "middle" | "end" };
+
+const DEFAULT_TICKS: Tick[] = [0, 0.5, 1].map((value) => ({ value, label: String(value) }));
+
+function Axes({ xLabel, yLabel, xTicks = DEFAULT_TICKS }: { xLabel: string; yLabel: string; xTicks?: Tick[] }) {
+  return (
+    <g className="text-gray-500" fontSize="9" fill="currentColor">
+      <rect x={PAD} y={PAD} width={PLOT} height={PLOT} fill="none" stroke="#e5e7eb" />
+      {xTicks.map((tick) => (
+        <text
+          key={tick.value}
+          x={toX(tick.value)}
+          y={SIZE - PAD + 11}
+          textAnchor={tick.anchor ?? "middle"}
+        >
+          {tick.label}
+        </text>
+      ))}
+      {DEFAULT_TICKS.map((tick) => (
+        <text key={tick.value} x={PAD - 4} y={toY(tick.value) + 3} textAnchor="end">
+          {tick.label}
+        </text>
+      ))}
+      <text x={SIZE / 2} y={SIZE - 2} textAnchor="middle">
+        {xLabel}
+      </text>
+      <text x={8} y={SIZE / 2} textAnchor="middle" transform={`rotate(-90 8 ${SIZE / 2})`}>
+        {yLabel}
+      </text>
+    </g>
+  );
+}
+
+// Confidence (x) against observed accuracy (y); the diagonal is perfect calibration
+export function CalibrationChart({
+  bins,
+  xLabel,
+  yLabel,
+}: {
+  bins: CalibrationBin[];
+  xLabel: string;
+  yLabel: string;
+}) {
+  const maxCount = Math.max(1, ...bins.map((bin) => bin.count));
+  const points = bins.filter((bin) => bin.count > 0);
+
+  return (
+    <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-xs" role="img" aria-label={yLabel}>
+      <Axes xLabel={xLabel} yLabel={yLabel} />
+      {/* Sample count per bin, as faint bars */}
+      {bins.map((bin) => (
+        <rect
+          key={bin.from}
+          x={toX(bin.from)}
+          width={PLOT / bins.length - 1}
+          y={toY((bin.count / maxCount) * 0.25)}
+          height={(bin.count / maxCount) * 0.25 * PLOT}
+          fill="#c7d2fe"
+        />
+      ))}
+      <line x1={toX(0)} y1={toY(0)} x2={toX(1)} y2={toY(1)} stroke="#9ca3af" strokeDasharray="3 3" />
+      <polyline
+        fill="none"
+        stroke="#4f46e5"
+        strokeWidth="2"
+        points={points.map((bin) => `${toX(bin.meanConfidence ?? 0)},${toY(bin.accuracy ?? 0)}`).join(" ")}
+      />
+      {points.map((bin) => (
+        <circle key={bin.from} cx={toX(bin.meanConfidence ?? 0)} cy={toY(bin.accuracy ?? 0)} r="3" fill="#4f46e5">
+          <title>{`${bin.count}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+// ROC or precision-recall curve; `diagonal` draws the chance line for ROC
+export function CurveChart({
+  points,
+  xLabel,
+  yLabel,
+  diagonal = false,
+  color = "#dc2626",
+}: {
+  points: CurvePoint[];
+  xLabel: string;
+  yLabel: string;
+  diagonal?: boolean;
+  color?: string;
+}) {
+  return (
+    <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-xs" role="img" aria-label={yLabel}>
+      <Axes xLabel={xLabel} yLabel={yLabel} />
+      {diagonal && (
+        <line x1={toX(0)} y1={toY(0)} x2={toX(1)} y2={toY(1)} stroke="#9ca3af" strokeDasharray="3 3" />
+      )}
+      <polyline
+        fill="none"
+        stroke={color}
+        strokeWidth="2"
+        points={points.map((point) => `${toX(point.x)},${toY(point.y)}`).join(" ")}
+      />
+    </svg>
+  );
+}
+
+export type TrendSeries = {
+  label: string;
+  color: string;
+  // One per entry in `times`; missing scores leave a gap
+  values: (number | undefined)[];
+  bold?: boolean;
+};
+
+// Scores over time; the x position is proportional to the time between studies.
+// `markers` are indices drawn as dashed vertical lines (the compared studies).
+export function TrendChart({
+  times,
+  series,
+  formatTime,
+  xLabel,
+  yLabel,
+  markers = [],
+}: {
+  times: number[];
+  series: TrendSeries[];
+  formatTime: (time: number) => string;
+  xLabel: string;
+  yLabel: string;
+  markers?: number[];
+}) {
+  const first = Math.min(...times);
+  const span = Math.max(...times) - first;
+  // A single study (or all on one day) sits in the middle
+  const position = (index: number) => (span > 0 ? (times[index] - first) / span : 0.5);
+  // Dates are long: anchor the end labels inside the chart
+  const xTicks: Tick[] =
+    span > 0
+      ? [
+          { value: 0, label: formatTime(first), anchor: "start" },
+          { value: 1, label: formatTime(first + span), anchor: "end" },
+        ]
+      : [{ value: 0.5, label: formatTime(first) }];
+
+  return (
+    <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-md" role="img" aria-label={yLabel}>
+      <Axes xLabel={xLabel} yLabel={yLabel} xTicks={xTicks} />
+      {markers.map((index) => (
+        <line
+          key={index}
+          x1={toX(position(index))}
+          y1={toY(0)}
+          x2={toX(position(index))}
+          y2={toY(1)}
+          stroke="#9ca3af"
+          strokeDasharray="3 3"
+        />
+      ))}
+      {series.map((line) => {
+        const points = line.values
+          .map((value, index) => (value === undefined ? null : { x: position(index), y: value, index }))
+          .filter((point) => point !== null);
+        // Runs of consecutive studies with a score; the line breaks where one is missing
+        const segments: (typeof points)[] = [];
+        points.forEach((point, i) => {
+          if (i > 0 && points[i - 1].index === point.index - 1) segments[segments.length - 1].push(point);
+          else segments.push([point]);
+        });
+        return (
+          <g key={line.label}>
+            {segments.map((segment) => (
+              <polyline
+                key={segment[0].index}
+                fill="none"
+                stroke={line.color}
+                strokeWidth={line.bold ? 2.5 : 1.5}
+                points={segment.map((point) => `${toX(point.x)},${toY(point.y)}`).join(" ")}
+              />
+            ))}
+            {points.map((point) => (
+              <circle key={point.index} cx={toX(point.x)} cy={toY(point.y)} r={line.bold ? 3 : 2} fill={line.color}>
+                <title>{`${line.label}: ${(point.y * 100).toFixed(1)}% • ${formatTime(times[point.index])}`}</title>
+              </circle>
+            ))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,207 @@
+import type { EnhancedAnalysis } from "~/lib/analyze";
+import { useI18n } from "~/lib/i18n";
+
+type Props = {
+  analysis: EnhancedAnalysis;
+};
+
+type Source = "onnx" | "gpt4o" | "professor";
+
+// Which models the backend's `decision_maker` credits, e.g. "onnx_gpt4o_consensus"
+const decisionSources = (decisionMaker: string): Source[] => {
+  const maker = decisionMaker.toLowerCase();
+  if (maker.includes("professor")) return ["professor"];
+  return (["onnx", "gpt4o"] as const).filter((source) => maker.includes(source));
+};
+
+const percent = (value: number) => (value * 100).toFixed(1);
+
+function Section({
+  title,
+  highlighted,
+  children,
+}: {
+  title: string;
+  highlighted: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <div
+      className={`p-3 rounded-lg border bg-white ${
+        highlighted ? "border-indigo-400 ring-2 ring-indigo-200" : "border-gray-200"
+      }`}
+    >
+      <h4 className="font-semibold text-gray-800 mb-1">{title}</h4>
+      <div className="text-sm text-gray-700 space-y-1">{children}</div>
+    </div>
+  );
+}
+
+function List({ title, items }: { title: string; items?: string[] }) {
+  if (!items?.length) return null;
+  return (
+    <div>
+      <span className="font-medium">{title}</span>
+      <ul className="list-disc list-inside ml-2">
+        {items.map((item, idx) => (
+          <li key={idx}>{item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// One section per model (ONNX, GPT-4o, professor) and a flow showing how the
+// final decision was reached and which model it came from
+export function ModelOpinionsPanel({ analysis }: Props) {
+  const { t, tOr, label: translateLabel } = useI18n();
+  const { onnx_analysis: onnx, gpt4o_analysis: gpt4o, professor_analysis: professor } = analysis;
+  const final = analysis.final_decision;
+  const sources = final ? decisionSources(final.decision_maker) : [];
+  const disagreement = analysis.ai_agreement?.disagreement_detected;
+
+  if (!onnx && !gpt4o && !professor && !final) return null;
+
+  const opinion = (diagnosis?: string, confidence?: number) => (
+    <p>
+      <span
+        className={`font-bold ${diagnosis === "Pneumonia" ? "text-red-600" : "text-green-600"}`}
+      >
+        {diagnosis ? translateLabel(diagnosis) : "—"}
+      </span>
+      {confidence !== undefined && (
+        <span className="ml-2 text-blue-600">{t("decision.confidence", { value: percent(confidence) })}</span>
+      )}
+    </p>
+  );
+
+  const flowSteps: { id: string; label: string; detail?: string; active: boolean; tone: string }[] = [
+    ...(onnx
+      ? [
+          {
+            id: "onnx",
+            label: t("decision.onnx"),
+            detail: translateLabel(onnx.diagnosis),
+            active: sources.includes("onnx"),
+            tone: "border-blue-300",
+          },
+        ]
+      : []),
+    ...(gpt4o
+      ? [
+          {
+            id: "gpt4o",
+            label: t("decision.gpt4o"),
+            detail: translateLabel(gpt4o.diagnosis),
+            active: sources.includes("gpt4o"),
+            tone: "border-purple-300",
+          },
+        ]
+      : []),
+    ...(analysis.ai_agreement
+      ? [
+          {
+            id: "agreement",
+            label: t("decision.agreement"),
+            detail: disagreement ? t("enhanced.disagreement") : t("enhanced.agree"),
+            active: false,
+            tone: disagreement ? "border-red-300" : "border-green-300",
+          },
+        ]
+      : []),
+    ...(professor?.triggered
+      ? [
+          {
+            id: "professor",
+            label: t("decision.professor"),
+            detail: professor.expert_diagnosis ? translateLabel(professor.expert_diagnosis) : undefined,
+            active: sources.includes("professor"),
+            tone: "border-teal-300",
+          },
+        ]
+      : []),
+  ];
+
+  return (
+    <div className="mb-4 p-4 rounded-lg border border-indigo-100 bg-gradient-to-r from-slate-50 to-indigo-50">
+      <h3 className="font-semibold text-indigo-700 mb-3">{t("decision.title")}</h3>
+
+      {/* How the final decision was reached */}
+      {final && (
+        <div className="mb-4">
+          <span className="text-xs font-medium text-gray-500 uppercase">{t("decision.flow")}</span>
+          <div className="flex flex-wrap items-center gap-2 mt-1 text-xs">
+            {flowSteps.map((step) => (
+              <div key={step.id} className="flex items-center gap-2">
+                <div
+                  className={`px-2 py-1 rounded border-2 bg-white ${step.tone} ${
+                    step.active ? "ring-2 ring-indigo-400 font-semibold" : ""
+                  }`}
+                >
+                  <div>{step.label}</div>
+                  {step.detail && <div className="text-gray-500">{step.detail}</div>}
+                </div>
+                <span className="text-gray-400">→</span>
+              </div>
+            ))}
+            <div className="px-2 py-1 rounded border-2 border-indigo-500 bg-indigo-600 text-white font-semibold">
+              <div>{t("decision.final")}</div>
+              <div>
+                {translateLabel(final.diagnosis)} ({percent(final.confidence)}%)
+              </div>
+            </div>
+          </div>
+          <p className="mt-2 text-sm text-gray-700">
+            {t("decision.decidedBy", {
+              maker: tOr(`decision.maker.${final.decision_maker}`, final.decision_maker.replace(/_/g, " ")),
+            })}
+          </p>
+          {final.reasoning && <p className="text-sm text-gray-600 italic">{final.reasoning}</p>}
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-3 gap-3">
+        {onnx && (
+          <Section title={t("decision.onnx")} highlighted={sources.includes("onnx")}>
+            {opinion(onnx.diagnosis, onnx.confidence)}
+            {onnx.stage && <p className="text-xs text-gray-500">{t("decision.stage", { stage: onnx.stage })}</p>}
+          </Section>
+        )}
+
+        {gpt4o && (
+          <Section title={t("decision.gpt4o")} highlighted={sources.includes("gpt4o")}>
+            {opinion(gpt4o.diagnosis, gpt4o.confidence)}
+            <List title={t("decision.findings")} items={gpt4o.findings} />
+            {gpt4o.reasoning && (
+              <div>
+                <span className="font-medium">{t("decision.reasoning")}</span>
+                <p className="text-gray-600">{gpt4o.reasoning}</p>
+              </div>
+            )}
+            <List title={t("decision.recommendations")} items={gpt4o.recommendations} />
+          </Section>
+        )}
+
+        {professor && (
+          <Section title={t("decision.professor")} highlighted={sources.includes("professor")}>
+            {!professor.triggered ? (
+              <p className="text-gray-500">{t("decision.notTriggered")}</p>
+            ) : professor.success === false ? (
+              <p className="text-orange-600">{t("decision.failed")}</p>
+            ) : (
+              <>
+                {opinion(professor.expert_diagnosis, professor.confidence)}
+                {professor.risk_assessment && (
+                  <div>
+                    <span className="font-medium">{t("decision.risk")}</span>
+                    <p className="text-gray-600">{professor.risk_assessment}</p>
+                  </div>
+                )}
+              </>
+            )}
+          </Section>
+        )}
+      </div>
+    </div>
+  );
+}
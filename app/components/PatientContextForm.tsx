@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useI18n } from "~/lib/i18n";
+import {
+  AGE_UNITS,
+  MAX_AGE,
+  SEXES,
+  VIEW_POSITIONS,
+  WEIGHT_RANGE,
+  localDate,
+  validatePatientContext,
+  type AgeUnit,
+  type PatientContext,
+  type PatientField,
+} from "~/lib/patient";
+
+type Props = {
+  value: PatientContext | undefined;
+  onChange: (value: PatientContext) => void;
+};
+
+// Departments that usually refer chest X-rays; any other text is accepted
+const DEPARTMENT_SUGGESTIONS = [
+  "department.emergency",
+  "department.respiratory",
+  "department.neonatal",
+  "department.icu",
+  "department.outpatient",
+  "department.infectious",
+] as const;
+
+const INPUT_CLASS = "w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2";
+
+// Pseudonymous patient ID and study details sent as `clinical_info.patient`
+export function PatientContextForm({ value, onChange }: Props) {
+  const { t } = useI18n();
+  const patient = value ?? {};
+  const errors = validatePatientContext(patient);
+  // Remembered while the age is empty, so picking the unit first works
+  const [ageUnit, setAgeUnit] = useState<AgeUnit>(patient.age?.unit ?? "months");
+
+  const setField = <K extends PatientField>(field: K, fieldValue: PatientContext[K] | undefined) => {
+    const next = { ...patient };
+    if (fieldValue === undefined || fieldValue === "") delete next[field];
+    else next[field] = fieldValue;
+    onChange(next);
+  };
+
+  const toNumber = (raw: string) => (raw === "" ? undefined : Number(raw));
+
+  const inputClass = (field: PatientField) =>
+    `${INPUT_CLASS} ${errors[field] ? "border-red-400 focus:ring-red-300" : "border-gray-300 focus:ring-indigo-300"}`;
+
+  const fieldError = (field: PatientField) =>
+    errors[field] && <span className="text-xs text-red-500">{t(`patient.invalid.${field}`)}</span>;
+
+  return (
+    <div className="w-full bg-gradient-to-br from-indigo-50 to-sky-50 rounded-xl p-5 border border-indigo-100 shadow-sm">
+      <div className="text-center mb-4">
+        <h3 className="text-lg font-semibold text-indigo-700 mb-1 flex items-center justify-center gap-2">
+          <span className="text-xl">🧒</span>
+          {t("patient.title")}
+        </h3>
+        <p className="text-sm text-indigo-600">{t("patient.hint")}</p>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 text-sm text-gray-700">
+        <label className="flex flex-col gap-1">
+          <span className="font-medium">{t("patient.id")}</span>
+          <input
+            type="text"
+            value={patient.patient_id ?? ""}
+            onChange={(e) => setField("patient_id", e.target.value)}
+            placeholder={t("patient.idPlaceholder")}
+            autoComplete="off"
+            spellCheck={false}
+            className={inputClass("patient_id")}
+          />
+          {fieldError("patient_id")}
+        </label>
+
+        <div className="flex flex-col gap-1">
+          <label htmlFor="patient-age" className="font-medium">
+            {t("patient.age")}
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="patient-age"
+              type="number"
+              inputMode="numeric"
+              min={0}
+              max={MAX_AGE[patient.age?.unit ?? ageUnit]}
+              step={1}
+              value={patient.age?.value ?? ""}
+              onChange={(e) => {
+                const age = toNumber(e.target.value);
+                setField("age", age === undefined ? undefined : { value: age, unit: patient.age?.unit ?? ageUnit });
+              }}
+              className={inputClass("age")}
+            />
+            <select
+              value={patient.age?.unit ?? ageUnit}
+              onChange={(e) => {
+                const unit = e.target.value as AgeUnit;
+                setAgeUnit(unit);
+                if (patient.age) setField("age", { ...patient.age, unit });
+              }}
+              aria-label={t("patient.ageUnit")}
+              className="px-2 border border-gray-300 rounded-lg bg-white"
+            >
+              {AGE_UNITS.map((unit) => (
+                <option key={unit} value={unit}>
+                  {t(`patient.ageUnit.${unit}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+          {errors.age && (
+            <span className="text-xs text-red-500">
+              {t("patient.invalid.age", { max: MAX_AGE[patient.age?.unit ?? ageUnit] })}
+            </span>
+          )}
+        </div>
+
+        <label className="flex flex-col gap-1">
+          <span className="font-medium">{t("patient.sex")}</span>
+          <select
+            value={patient.sex ?? ""}
+            onChange={(e) => setField("sex", (e.target.value || undefined) as PatientContext["sex"])}
+            className={`${inputClass("sex")} bg-white`}
+          >
+            <option value="">—</option>
+            {SEXES.map((sex) => (
+              <option key={sex} value={sex}>
+                {t(`patient.sex.${sex}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className="font-medium">{t("patient.weight")}</span>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              inputMode="decimal"
+              min={WEIGHT_RANGE.min}
+              max={WEIGHT_RANGE.max}
+              step={0.1}
+              value={patient.weight_kg ?? ""}
+              onChange={(e) => setField("weight_kg", toNumber(e.target.value))}
+              className={inputClass("weight_kg")}
+            />
+            <span className="text-xs text-gray-500">kg</span>
+          </div>
+          {errors.weight_kg && (
+            <span className="text-xs text-red-500">
+              {t("patient.invalid.weight_kg", { min: WEIGHT_RANGE.min, max: WEIGHT_RANGE.max })}
+            </span>
+          )}
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className="font-medium">{t("patient.studyDate")}</span>
+          <input
+            type="date"
+            value={patient.study_date ?? ""}
+            max={localDate()}
+            onChange={(e) => setField("study_date", e.target.value)}
+            className={inputClass("study_date")}
+          />
+          {fieldError("study_date")}
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className="font-medium">{t("patient.view")}</span>
+          <select
+            value={patient.view_position ?? ""}
+            onChange={(e) =>
+              setField("view_position", (e.target.value || undefined) as PatientContext["view_position"])
+            }
+            className={`${inputClass("view_position")} bg-white`}
+          >
+            <option value="">—</option>
+            {VIEW_POSITIONS.map((view) => (
+              <option key={view} value={view}>
+                {t(`patient.view.${view}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1 sm:col-span-2">
+          <span className="font-medium">{t("patient.department")}</span>
+          <input
+            type="text"
+            list="patient-departments"
+            value={patient.referring_department ?? ""}
+            onChange={(e) => setField("referring_department", e.target.value)}
+            maxLength={80}
+            className={inputClass("referring_department")}
+          />
+          <datalist id="patient-departments">
+            {DEPARTMENT_SUGGESTIONS.map((key) => (
+              <option key={key} value={t(key)} />
+            ))}
+          </datalist>
+          {fieldError("referring_department")}
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import type { AnalyzeMode } from "~/lib/compare";
+import { useI18n, type MessageKey } from "~/lib/i18n";
+
+type Props = {
+  value: AnalyzeMode;
+  onChange: (value: AnalyzeMode) => void;
+};
+
+const MODE_OPTIONS: {
+  mode: AnalyzeMode;
+  label: MessageKey;
+  description: MessageKey;
+  activeClassName: string;
+  hoverClassName: string;
+  dotClassName: string;
+}[] = [
+  {
+    mode: "optimized",
+    label: "mode.optimized",
+    description: "mode.optimized.description",
+    activeClassName: "border-blue-500 bg-blue-100 shadow-md",
+    hoverClassName: "hover:border-blue-300",
+    dotClassName: "border-blue-500 bg-blue-500",
+  },
+  {
+    mode: "standard",
+    label: "mode.standard",
+    description: "mode.standard.description",
+    activeClassName: "border-gray-500 bg-gray-100 shadow-md",
+    hoverClassName: "hover:border-gray-300",
+    dotClassName: "border-gray-500 bg-gray-500",
+  },
+  {
+    mode: "compare",
+    label: "mode.compare",
+    description: "mode.compare.description",
+    activeClassName: "border-purple-500 bg-purple-100 shadow-md",
+    hoverClassName: "hover:border-purple-300",
+    dotClassName: "border-purple-500 bg-purple-500",
+  },
+];
+
+export function PipelineToggle({ value, onChange }: Props) {
+  const { t } = useI18n();
+
+  return (
+    <div className="w-full bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl p-4 border border-blue-100">
+      <div className="text-center mb-3">
+        <h3 className="text-sm font-semibold text-blue-700 mb-1">{t("mode.title")}</h3>
+        <p className="text-xs text-gray-600">{t("mode.hint")}</p>
+      </div>
+      <div className="flex flex-col sm:flex-row gap-3 justify-center">
+        {MODE_OPTIONS.map((option) => {
+          const selected = value === option.mode;
+          return (
+            <label
+              key={option.mode}
+              className={`relative flex items-center gap-3 p-3 rounded-lg border-2 cursor-pointer transition-all ${
+                selected ? option.activeClassName : `border-gray-200 bg-white ${option.hoverClassName}`
+              }`}
+            >
+              <input
+                type="radio"
+                name="apiMode"
+                checked={selected}
+                onChange={() => onChange(option.mode)}
+                aria-label={t(option.label)}
+                className="sr-only"
+              />
+              <div className="flex items-center gap-2">
+                <div className={`w-4 h-4 rounded-full border-2 flex items-center justify-center ${
+                  selected ? option.dotClassName : 'border-gray-300'
+                }`}>
+                  {selected && <div className="w-2 h-2 bg-white rounded-full"></div>}
+                </div>
+                <div>
+                  <div className="font-medium text-gray-800 text-sm">{t(option.label)}</div>
+                  <div className="text-xs text-gray-500">{t(option.description)}</div>
+                </div>
+              </div>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { ResultPanel } from "~/components/ResultPanel";
+import malformedSection from "~/lib/__fixtures__/analyze-malformed-section.json";
+import valid from "~/lib/__fixtures__/analyze-valid.json";
+import { parseAnalyzeResponse, type AnalyzeResponse } from "~/lib/analyze";
+import { renderWithRoot } from "~/test/render";
+
+const parse = (fixture: unknown) => parseAnalyzeResponse(structuredClone(fixture));
+
+const normalResult = (): AnalyzeResponse => {
+  const { response } = parse(valid);
+  return {
+    ...response,
+    data: {
+      ...response.data,
+      binaryProbabilities: { Normal: 0.96, Pneumonia: 0.04 },
+      predictedClass: "Normal",
+      confidence: 0.96,
+      allMultiLabelScores: [{ label: "Effusion", score: 0.02 }],
+      warnings: undefined,
+      enhanced_analysis: undefined,
+    },
+  };
+};
+
+describe("ResultPanel", () => {
+  it("renders the verdict, probabilities, findings and clinical information", () => {
+    renderWithRoot(<ResultPanel result={parse(valid).response} />);
+
+    expect(screen.getByText("The patient shows signs of pneumonia.")).toBeInTheDocument();
+    expect(screen.getByText("(89.0% confidence)")).toBeInTheDocument();
+    expect(screen.getByText("89.0%")).toBeInTheDocument();
+    expect(screen.getByText("Consolidation")).toBeInTheDocument();
+    expect(screen.getByText("Urgent")).toBeInTheDocument();
+    expect(screen.getByText(/Fever, Cough/)).toBeInTheDocument();
+    expect(screen.getByText("Low confidence result; image appears rotated.")).toBeInTheDocument();
+    expect(screen.queryByText(/were invalid and have been hidden/)).not.toBeInTheDocument();
+  });
+
+  it("renders a normal study as routine", () => {
+    renderWithRoot(<ResultPanel result={normalResult()} />);
+
+    expect(screen.getByText("Normal lungs.")).toBeInTheDocument();
+    expect(screen.getByText("Routine")).toBeInTheDocument();
+    expect(screen.queryByText("System notices:")).not.toBeInTheDocument();
+  });
+
+  it("lists the sections dropped from an invalid response", () => {
+    const { response, dropped } = parse(malformedSection);
+    renderWithRoot(<ResultPanel result={response} droppedSections={dropped} />);
+
+    expect(screen.getByText(/were invalid and have been hidden/)).toBeInTheDocument();
+    expect(screen.getByText("data.enhanced_analysis.gpt4o_analysis.confidence")).toBeInTheDocument();
+    expect(screen.getByText("data.enhanced_analysis.performance_metrics.total_processing_time")).toBeInTheDocument();
+    // The valid core is still shown
+    expect(screen.getByText("The patient shows signs of pneumonia.")).toBeInTheDocument();
+  });
+
+  it("highlights a medical safety alert among the warnings", () => {
+    const result = normalResult();
+    result.data.warnings = ["🚨 MEDICAL SAFETY ALERT: possible pneumothorax, urgent radiologist review required."];
+    renderWithRoot(<ResultPanel result={result} />);
+
+    expect(screen.getByText(/MEDICAL SAFETY ALERT/)).toHaveClass("font-bold", "bg-red-100");
+    expect(screen.getByText("Urgent")).toBeInTheDocument();
+  });
+
+  it("says when the result was reopened from the history", () => {
+    renderWithRoot(<ResultPanel result={normalResult()} reopenedAt={Date.UTC(2026, 0, 15)} />);
+
+    expect(screen.getByText(/Reopened from history/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,274 @@
+import { EnhancedAnalysisPanel } from "~/components/EnhancedAnalysisPanel";
+import { ModelOpinionsPanel } from "~/components/ModelOpinionsPanel";
+import { TriageBadge } from "~/components/TriageBadge";
+import type { AnalyzeResponse, ValidationIssue } from "~/lib/analyze";
+import { describeVitals } from "~/lib/clinical";
+import { useI18n } from "~/lib/i18n";
+import { describePatientContext, type PatientContext } from "~/lib/patient";
+import {
+  DEFAULT_THRESHOLD_SETTINGS,
+  describeTriageReasons,
+  findingLevel,
+  getThreshold,
+  sortByLevel,
+  triageResult,
+  type FindingLevel,
+  type ThresholdSettings,
+} from "~/lib/thresholds";
+
+type Props = {
+  result: AnalyzeResponse;
+  // Set when the result was reopened from the local history
+  reopenedAt?: number | null;
+  droppedSections?: ValidationIssue[];
+  // Decision thresholds used for the headline, triage and finding colours
+  thresholds?: ThresholdSettings;
+  // Patient and study context the analysis was requested with
+  patient?: PatientContext;
+  // Actions rendered under the result (Eigencam, viewer, report)
+  children?: React.ReactNode;
+};
+
+const LEVEL_CLASS_NAMES: Record<FindingLevel, { row: string; dot: string; text: string }> = {
+  alert: { row: "bg-red-50 border-red-200", dot: "bg-red-500", text: "text-red-600" },
+  watch: { row: "bg-yellow-50 border-yellow-200", dot: "bg-yellow-500", text: "text-yellow-600" },
+  clear: { row: "bg-green-50 border-green-200", dot: "bg-green-500", text: "text-green-600" },
+};
+
+export function ResultPanel({
+  result,
+  reopenedAt,
+  droppedSections = [],
+  thresholds = DEFAULT_THRESHOLD_SETTINGS,
+  patient,
+  children,
+}: Props) {
+  const { t, tOr, label: translateLabel, formatDateTime } = useI18n();
+  const triage = triageResult(result, thresholds);
+
+  return (
+    <div className="mt-6 p-4 border rounded bg-gray-50 w-full max-w-3xl">
+      <h2 className="font-semibold mb-2 text-orange-400">
+        {t("result.title")}
+      </h2>
+      {reopenedAt && (
+        <p className="mb-2 text-xs text-gray-500">
+          {t("result.reopened", { date: formatDateTime(reopenedAt) })}
+        </p>
+      )}
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium text-gray-800">{t("triage.title")}</span>
+        <TriageBadge level={triage.level} />
+        {triage.reasons.length > 0 && (
+          <span className="text-xs text-gray-600">
+            {describeTriageReasons(triage.reasons, { t, label: translateLabel })}
+          </span>
+        )}
+        <span className="text-xs text-gray-400">
+          {t("triage.mode", { mode: t(`thresholds.mode.${thresholds.mode}`) })}
+        </span>
+      </div>
+      {patient && describePatientContext(patient, { t }).length > 0 && (
+        <div className="mb-2 text-sm">
+          <span className="font-medium text-gray-800">{t("result.patient")} </span>
+          <span className="text-gray-700">
+            {describePatientContext(patient, { t })
+              .map(([field, value]) => `${field}: ${value}`)
+              .join(" • ")}
+          </span>
+        </div>
+      )}
+      {result.data.clinical_info && (
+        <div className="mb-2">
+          <span className="font-medium text-gray-800">
+            {t("result.clinicalInfo")}
+          </span>
+          <ul className="list-disc list-inside ml-4 text-gray-700">
+            <li>
+              {t("result.initialDiagnosis")}{" "}
+              {result.data.clinical_info.initial_diagnosis
+                ? tOr(
+                    `diagnosis.${result.data.clinical_info.initial_diagnosis}.label`,
+                    result.data.clinical_info.initial_diagnosis
+                  )
+                : t("result.none")}
+            </li>
+            <li>
+              {t("result.symptoms")}{" "}
+              {result.data.clinical_info.symptoms?.length
+                ? result.data.clinical_info.symptoms
+                    .map((s) => tOr(`symptom.${s}.label`, s))
+                    .join(", ")
+                : t("result.none")}
+            </li>
+            {result.data.clinical_info.vitals && (
+              <li>
+                {t("result.vitals")}{" "}
+                {describeVitals(result.data.clinical_info.vitals, { tOr }).join(", ")}
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+      <div className="mb-2">
+        <span className="font-medium text-gray-800">{t("result.mainDiagnosis")} </span>
+        <span
+          className={
+            triage.thresholdClass === "Pneumonia"
+              ? "text-red-600 font-bold"
+              : "text-green-600 font-bold"
+          }
+        >
+          {triage.thresholdClass === "Pneumonia"
+            ? t("result.headline.Pneumonia")
+            : t("result.headline.Normal")}
+        </span>
+        {result.data.confidence && (
+          <span className="ml-2 text-sm text-blue-600">
+            {t("result.confidence", { value: (result.data.confidence * 100).toFixed(1) })}
+          </span>
+        )}
+        {/* The model's own call used a different cut-off */}
+        {triage.thresholdClass !== result.data.predictedClass && (
+          <p className="text-xs text-amber-700">
+            {t("result.thresholdDiffers", {
+              model: translateLabel(result.data.predictedClass),
+              threshold: (getThreshold(thresholds, "Pneumonia").alert * 100).toFixed(0),
+            })}
+          </p>
+        )}
+      </div>
+
+      {result.data.enhanced_analysis && (
+        <EnhancedAnalysisPanel analysis={result.data.enhanced_analysis} />
+      )}
+      {result.data.enhanced_analysis && (
+        <ModelOpinionsPanel analysis={result.data.enhanced_analysis} />
+      )}
+      <div className="mb-4 bg-gradient-to-r from-blue-50 to-cyan-50 rounded-lg p-4 border border-blue-100">
+        <div className="flex items-center gap-2 mb-3">
+          <div className="w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center">
+            <span className="text-white text-xs font-bold">%</span>
+          </div>
+          <h3 className="font-semibold text-blue-700">{t("result.probabilities")}</h3>
+        </div>
+        <div className="space-y-2">
+          {Object.entries(result.data.binaryProbabilities).map(
+            ([label, prob]) => (
+              <div key={label} className="flex items-center justify-between bg-white rounded-lg p-3 shadow-sm">
+                <span className="font-medium text-gray-800">{translateLabel(label)}</span>
+                <div className="flex items-center gap-2">
+                  <div className="w-24 bg-gray-200 rounded-full h-2">
+                    <div 
+                      className={`h-2 rounded-full ${label === 'Pneumonia' ? 'bg-red-500' : 'bg-green-500'}`}
+                      style={{ width: `${prob * 100}%` }}
+                    ></div>
+                  </div>
+                  <span className={`font-bold text-sm ${label === 'Pneumonia' ? 'text-red-600' : 'text-green-600'}`}>
+                    {(prob * 100).toFixed(1)}%
+                  </span>
+                </div>
+              </div>
+            )
+          )}
+        </div>
+      </div>
+      <div className="mb-4">
+        <div className="bg-gradient-to-r from-indigo-50 to-purple-50 rounded-lg p-4 border border-indigo-100">
+          <div className="flex items-center gap-2 mb-4">
+            <div className="w-6 h-6 bg-indigo-500 rounded-full flex items-center justify-center">
+              <span className="text-white text-xs font-bold">📊</span>
+            </div>
+            <h3 className="font-semibold text-indigo-700">{t("result.details")}</h3>
+          </div>
+
+          {Array.isArray(result.data.allMultiLabelScores) &&
+            result.data.allMultiLabelScores.length > 0 && (
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {sortByLevel(
+                  result.data.allMultiLabelScores.map((item) => ({
+                    label: item.label,
+                    score: typeof item.score === 'number' && !isNaN(item.score) ? item.score : 0,
+                  })),
+                  thresholds
+                ) // Alerts first, then by score
+                  .map((item) => {
+                    const { score } = item;
+                    const percentage = (score * 100).toFixed(1);
+                    const threshold = getThreshold(thresholds, item.label);
+                    const classNames = LEVEL_CLASS_NAMES[findingLevel(score, threshold)];
+
+                    return (
+                      <div
+                        key={item.label}
+                        title={t("result.thresholdTitle", {
+                          alert: (threshold.alert * 100).toFixed(0),
+                          watch: (threshold.watch * 100).toFixed(0),
+                        })}
+                        className={`flex items-center justify-between p-3 rounded-lg border transition-all hover:shadow-sm ${classNames.row}`}
+                      >
+                        <div className="flex items-center gap-3">
+                          <div className={`w-3 h-3 rounded-full ${classNames.dot}`}></div>
+                          <span className="font-medium text-gray-800 text-sm">{translateLabel(item.label)}</span>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                          <div className="w-16 bg-gray-200 rounded-full h-1.5">
+                            <div 
+                              className={`h-1.5 rounded-full ${classNames.dot}`}
+                              style={{ width: `${Math.max(score * 100, 2)}%` }} // Minimum 2% for visibility
+                            ></div>
+                          </div>
+                          <span className={`font-bold text-xs min-w-[3rem] text-right ${classNames.text}`}>
+                            {percentage}%
+                          </span>
+                        </div>
+                      </div>
+                    );
+                  })}
+              </div>
+            )}
+        </div>
+      </div>
+      {droppedSections.length > 0 && (
+        <div className="mb-4 p-3 bg-yellow-50 rounded border border-yellow-300 text-sm">
+          <span className="font-medium text-yellow-800">
+            {t("result.droppedSections")}
+          </span>
+          <ul className="list-disc list-inside ml-4 text-yellow-700">
+            {droppedSections.map((issue) => (
+              <li key={`${issue.path}:${issue.message}`}>
+                <code className="text-xs">{issue.path}</code>: {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {result.data.warnings && result.data.warnings.length > 0 && (
+        <div className="mb-2">
+          <span className="font-medium text-orange-600">{t("result.warnings")}</span>
+          <ul className="list-disc list-inside ml-4">
+            {result.data.warnings.map((warning, idx) => (
+              <li 
+                key={idx} 
+                className={
+                  warning.includes('🚨 MEDICAL SAFETY ALERT') 
+                    ? "text-red-900 text-sm font-bold bg-red-100 px-3 py-2 rounded-lg border-l-4 border-red-600 my-2 shadow-md" 
+                    : warning.includes('⚠️') && warning.includes('Consider ONNX diagnosis')
+                    ? "text-orange-800 text-sm font-medium bg-orange-100 px-3 py-2 rounded-lg border-l-4 border-orange-500 my-1"
+                    : warning.includes('🩺') && warning.includes('safety')
+                    ? "text-blue-800 text-sm font-medium bg-blue-100 px-3 py-2 rounded-lg border-l-4 border-blue-500 my-1"
+                    : "text-orange-700 text-sm"
+                }
+              >
+                {warning}
+              </li>
+            ))}
+          </ul>
+        </div>
+       )}
+
+      {children}
+    </div>
+  );
+}
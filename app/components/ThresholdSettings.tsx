@@ -0,0 +1,136 @@
+import type { useThresholds } from "~/hooks/useThresholds";
+import { useI18n, type MessageKey } from "~/lib/i18n";
+import {
+  DEFAULT_FINDING_LABELS,
+  getThreshold,
+  THRESHOLD_MODES,
+  type LabelThreshold,
+  type ThresholdMode,
+} from "~/lib/thresholds";
+
+type Props = ReturnType<typeof useThresholds>;
+
+const MODE_LABELS: Record<ThresholdMode, { label: MessageKey; description: MessageKey }> = {
+  screening: { label: "thresholds.mode.screening", description: "thresholds.mode.screening.description" },
+  specificity: { label: "thresholds.mode.specificity", description: "thresholds.mode.specificity.description" },
+};
+
+// Percent input for one side of a label threshold
+function PercentInput({
+  value,
+  onChange,
+  label,
+}: {
+  value: number;
+  onChange: (value: number) => void;
+  label: string;
+}) {
+  return (
+    <input
+      type="number"
+      min={0}
+      max={100}
+      step={1}
+      value={Math.round(value * 100)}
+      onChange={(e) => {
+        const next = Number(e.target.value);
+        if (e.target.value !== "" && next >= 0 && next <= 100) onChange(next / 100);
+      }}
+      aria-label={label}
+      className="w-16 px-1 py-0.5 border rounded text-right"
+    />
+  );
+}
+
+// Screening / specificity preset plus per-finding alert and watch cut-offs
+export function ThresholdSettings({ settings, setMode, setLabelThreshold, resetMode }: Props) {
+  const { t, label: translateLabel } = useI18n();
+  const overridden = Object.keys(settings.overrides[settings.mode] ?? {}).length;
+
+  // Keep watch <= alert whichever side was edited
+  const change = (name: string, current: LabelThreshold, side: keyof LabelThreshold, value: number) =>
+    setLabelThreshold(
+      name,
+      side === "alert"
+        ? { alert: value, watch: Math.min(current.watch, value) }
+        : { alert: Math.max(current.alert, value), watch: value }
+    );
+
+  return (
+    <details className="w-full bg-white rounded-xl p-4 border border-gray-200">
+      <summary className="cursor-pointer text-sm font-semibold text-gray-700">
+        {t("thresholds.title", { mode: t(MODE_LABELS[settings.mode].label) })}
+      </summary>
+      <p className="mt-2 text-xs text-gray-500">{t("thresholds.hint")}</p>
+
+      <div className="mt-3 flex flex-col sm:flex-row gap-3">
+        {THRESHOLD_MODES.map((mode) => (
+          <label
+            key={mode}
+            className={`flex-1 p-3 rounded-lg border-2 cursor-pointer text-sm ${
+              settings.mode === mode ? "border-rose-500 bg-rose-50" : "border-gray-200 hover:border-gray-300"
+            }`}
+          >
+            <input
+              type="radio"
+              name="thresholdMode"
+              checked={settings.mode === mode}
+              onChange={() => setMode(mode)}
+              className="mr-2"
+            />
+            <span className="font-medium text-gray-800">{t(MODE_LABELS[mode].label)}</span>
+            <span className="block text-xs text-gray-500">{t(MODE_LABELS[mode].description)}</span>
+          </label>
+        ))}
+      </div>
+
+      <table className="mt-3 w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-500 text-right">
+            <th className="text-left font-normal">{t("thresholds.label")}</th>
+            <th className="font-normal px-2">🔴 {t("thresholds.alert")}</th>
+            <th className="font-normal">🟡 {t("thresholds.watch")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {DEFAULT_FINDING_LABELS.map((name) => {
+            const threshold = getThreshold(settings, name);
+            return (
+              <tr key={name} className="border-t text-right">
+                <td className="py-1 text-left">
+                  {translateLabel(name)}
+                  {settings.overrides[settings.mode]?.[name] && <span className="ml-1 text-rose-500">•</span>}
+                </td>
+                <td className="px-2">
+                  <PercentInput
+                    value={threshold.alert}
+                    onChange={(value) => change(name, threshold, "alert", value)}
+                    label={`${translateLabel(name)} ${t("thresholds.alert")}`}
+                  />
+                  %
+                </td>
+                <td>
+                  <PercentInput
+                    value={threshold.watch}
+                    onChange={(value) => change(name, threshold, "watch", value)}
+                    label={`${translateLabel(name)} ${t("thresholds.watch")}`}
+                  />
+                  %
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <button
+        type="button"
+        onClick={resetMode}
+        disabled={overridden === 0}
+        className="mt-3 text-sm text-blue-600 hover:text-blue-800 underline disabled:opacity-50 disabled:no-underline"
+      >
+        {t("thresholds.reset", { count: overridden })}
+      </button>
+    </details>
+  );
+}
@@ -0,0 +1,18 @@
+import { useI18n } from "~/lib/i18n";
+import type { TriageLevel } from "~/lib/thresholds";
+
+const TRIAGE_CLASS_NAMES: Record<TriageLevel, string> = {
+  urgent: "bg-red-600 text-white",
+  review: "bg-amber-400 text-amber-950",
+  routine: "bg-green-100 text-green-800",
+};
+
+// Urgent / review / routine pill used on the result, the history and the batch table
+export function TriageBadge({ level, className = "" }: { level: TriageLevel; className?: string }) {
+  const { t } = useI18n();
+  return (
+    <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold ${TRIAGE_CLASS_NAMES[level]} ${className}`}>
+      {t(`triage.${level}`)}
+    </span>
+  );
+}
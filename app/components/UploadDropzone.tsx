@@ -0,0 +1,330 @@
+import { useEffect, useId, useRef, useState } from "react";
+import {
+  DICOM_PROFILES,
+  describeDeidentification,
+  type DeidentificationReport,
+  type DeidentifySettings,
+} from "~/lib/deidentify";
+import { useI18n } from "~/lib/i18n";
+import {
+  ACCEPTED_UPLOAD_TYPES,
+  isSupportedUpload,
+  type DicomInfo,
+  type DownscaleMode,
+  type UploadWarning,
+} from "~/lib/upload";
+
+type Props = {
+  file: File | null;
+  previewUrl: string | null;
+  dicomInfo: DicomInfo | null;
+  warnings?: UploadWarning[];
+  downscaleMode?: DownscaleMode;
+  onDownscaleModeChange?: (mode: DownscaleMode) => void;
+  // What de-identification removed from the prepared file
+  deidentification?: DeidentificationReport | null;
+  deidentifySettings?: DeidentifySettings;
+  onDeidentifySettingsChange?: (settings: DeidentifySettings) => void;
+  // True while a picked file is being prepared (DICOM rendering, compression)
+  converting?: boolean;
+  onFileSelected: (file: File) => void;
+  onClear: () => void;
+  // Accept images pasted anywhere on the page (e.g. a PACS screenshot)
+  acceptPaste?: boolean;
+};
+
+// Clipboard images are all called "image.png"; give them a recognisable name
+const nameClipboardFile = (file: File) => {
+  const extension = file.type === "image/jpeg" ? "jpg" : "png";
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+  return new File([file], `clipboard-${stamp}.${extension}`, { type: file.type });
+};
+
+export function UploadDropzone({
+  file,
+  previewUrl,
+  dicomInfo,
+  warnings = [],
+  downscaleMode,
+  onDownscaleModeChange,
+  deidentification,
+  deidentifySettings,
+  onDeidentifySettingsChange,
+  converting,
+  onFileSelected,
+  onClear,
+  acceptPaste = true,
+}: Props) {
+  const { t } = useI18n();
+  const inputId = useId();
+  const cameraId = useId();
+  const [dragging, setDragging] = useState(false);
+  const [rejected, setRejected] = useState<string | null>(null);
+  // dragenter/dragleave fire for every child element; count them to know when we really left
+  const dragDepth = useRef(0);
+  const onFileSelectedRef = useRef(onFileSelected);
+  onFileSelectedRef.current = onFileSelected;
+
+  const selectFile = (selected: File | undefined) => {
+    if (!selected) return;
+    if (!isSupportedUpload(selected)) {
+      setRejected(selected.name);
+      return;
+    }
+    setRejected(null);
+    onFileSelected(selected);
+  };
+
+  useEffect(() => {
+    if (!acceptPaste) return;
+    const handlePaste = (e: ClipboardEvent) => {
+      const image = Array.from(e.clipboardData?.files ?? []).find((f) => f.type.startsWith("image/"));
+      if (!image) return;
+      e.preventDefault();
+      setRejected(null);
+      onFileSelectedRef.current(nameClipboardFile(image));
+    };
+    document.addEventListener("paste", handlePaste);
+    return () => document.removeEventListener("paste", handlePaste);
+  }, [acceptPaste]);
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    e.preventDefault();
+    dragDepth.current += 1;
+    setDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    e.preventDefault();
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) setDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    dragDepth.current = 0;
+    setDragging(false);
+    selectFile(e.dataTransfer.files[0]);
+  };
+
+  return (
+    <div className="w-full bg-gradient-to-br from-blue-50 to-indigo-50 rounded-2xl p-6 border border-blue-100 shadow-sm">
+      <div className="text-center mb-4">
+        <h3 className="text-lg font-semibold text-blue-700 mb-2 flex items-center justify-center gap-2">
+          <span className="text-xl">📸</span>
+          {t("upload.title")}
+        </h3>
+        <p className="text-sm text-blue-600">{t("upload.hint")}</p>
+      </div>
+
+      <div
+        className="relative group"
+        onDragEnter={handleDragEnter}
+        onDragOver={(e) => e.preventDefault()}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        <input
+          type="file"
+          accept={ACCEPTED_UPLOAD_TYPES}
+          onChange={(e) => {
+            selectFile(e.target.files?.[0]);
+            // Allow picking the same file again after removing it
+            e.target.value = "";
+          }}
+          className="sr-only"
+          id={inputId}
+        />
+        <label
+          htmlFor={inputId}
+          className={`
+            relative flex flex-col items-center justify-center w-full h-32 
+            border-2 border-dashed rounded-xl cursor-pointer transition-all duration-300
+            ${dragging
+              ? 'border-blue-600 bg-blue-100 ring-4 ring-blue-200 scale-[1.01]'
+              : file
+              ? 'border-green-400 bg-green-50 hover:bg-green-100' 
+              : 'border-blue-300 bg-white hover:bg-blue-50 hover:border-blue-500 group-hover:border-blue-500'
+            }
+          `}
+        >
+          <div className="flex flex-col items-center justify-center pt-5 pb-6">
+            {dragging ? (
+              <p className="text-sm font-semibold text-blue-700">{t("upload.dropHere")}</p>
+            ) : converting ? (
+              <p className="text-sm font-semibold text-blue-700">{t("upload.preparing")}</p>
+            ) : file ? (
+              <>
+                <div className="w-12 h-12 bg-green-500 rounded-full flex items-center justify-center mb-3">
+                  <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7"></path>
+                  </svg>
+                </div>
+                <p className="text-sm font-semibold text-green-700 mb-1">{t("upload.selected")}</p>
+                <p className="text-xs text-green-600 text-center max-w-48 truncate">{file.name}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {(file.size / 1024 / 1024).toFixed(2)} MB
+                </p>
+              </>
+            ) : (
+              <>
+                <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mb-3 group-hover:bg-blue-200 transition-colors">
+                  <svg className="w-6 h-6 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"></path>
+                  </svg>
+                </div>
+                <p className="text-sm font-semibold text-gray-700 mb-1">{t("upload.click")}</p>
+                <p className="text-xs text-gray-500">{t("upload.drag")}</p>
+                <div className="flex items-center gap-2 mt-2">
+                  <span className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded">DICOM</span>
+                  <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded">PNG</span>
+                  <span className="text-xs bg-purple-100 text-purple-700 px-2 py-1 rounded">JPEG</span>
+                </div>
+              </>
+            )}
+          </div>
+        </label>
+      </div>
+
+      {rejected && (
+        <p className="mt-2 text-sm text-red-600 text-center">
+          {t("upload.unsupported", { name: rejected })}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center justify-center gap-3 mt-3 text-xs text-gray-500">
+        {/* On phones `capture` opens the rear camera to photograph a film */}
+        <input
+          type="file"
+          accept="image/*"
+          capture="environment"
+          onChange={(e) => {
+            selectFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+          className="sr-only"
+          id={cameraId}
+        />
+        <label
+          htmlFor={cameraId}
+          className="px-3 py-1 bg-white border border-blue-200 text-blue-700 rounded-full cursor-pointer hover:bg-blue-50"
+        >
+          {t("upload.camera")}
+        </label>
+        {acceptPaste && <span>{t("upload.paste")}</span>}
+        {onDownscaleModeChange && (
+          <label className="flex items-center gap-1 cursor-pointer" title={t("upload.losslessHint")}>
+            <input
+              type="checkbox"
+              checked={downscaleMode === "lossless"}
+              onChange={(e) => onDownscaleModeChange(e.target.checked ? "lossless" : "lossy")}
+            />
+            {t("upload.lossless")}
+          </label>
+        )}
+        {deidentifySettings && onDeidentifySettingsChange && (
+          <>
+            <label className="flex items-center gap-1 cursor-pointer" title={t("deidentify.blackoutHint")}>
+              <input
+                type="checkbox"
+                checked={deidentifySettings.blackoutEdges}
+                onChange={(e) => onDeidentifySettingsChange({ ...deidentifySettings, blackoutEdges: e.target.checked })}
+              />
+              {t("deidentify.blackout")}
+            </label>
+            <label className="flex items-center gap-1" title={t("deidentify.profileHint")}>
+              {t("deidentify.profile")}
+              <select
+                value={deidentifySettings.dicomProfile}
+                onChange={(e) =>
+                  onDeidentifySettingsChange({
+                    ...deidentifySettings,
+                    dicomProfile: e.target.value as DeidentifySettings["dicomProfile"],
+                  })
+                }
+                className="px-1 py-0.5 border rounded bg-white"
+              >
+                {DICOM_PROFILES.map((profile) => (
+                  <option key={profile} value={profile}>
+                    {t(`deidentify.profile.${profile}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </>
+        )}
+      </div>
+
+      {file && (
+        <div className="mt-4 p-4 bg-white rounded-lg border border-blue-200 shadow-sm">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              {previewUrl ? (
+                <img
+                  src={previewUrl}
+                  alt={t("upload.previewAlt")}
+                  className="w-16 h-16 object-cover rounded-lg border border-blue-200 bg-black"
+                />
+              ) : (
+                <div className="w-10 h-10 bg-blue-500 rounded-lg flex items-center justify-center">
+                  <span className="text-white text-sm font-bold">📄</span>
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-blue-800 truncate">{file.name}</p>
+                <p className="text-xs text-blue-600">
+                  {(file.size / 1024 / 1024).toFixed(2)} MB • {t("upload.ready")}
+                </p>
+                {dicomInfo && (
+                  <p className="text-xs text-gray-500">
+                    DICOM {dicomInfo.columns}×{dicomInfo.rows}
+                    {dicomInfo.windowWidth !== undefined &&
+                      ` • WC/WW ${dicomInfo.windowCenter}/${dicomInfo.windowWidth}`}
+                  </p>
+                )}
+                {warnings.map((warning) => (
+                  <p key={warning} className="text-xs text-orange-600">
+                    {t(`upload.warning.${warning}`)}
+                  </p>
+                ))}
+                {deidentification && <DeidentificationSummary report={deidentification} />}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={onClear}
+              className="p-2 hover:bg-red-100 rounded-full transition-colors group"
+              title={t("upload.remove")}
+            >
+              <svg className="w-4 h-4 text-red-500 group-hover:text-red-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path>
+              </svg>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Confirms what was stripped before anything is sent
+function DeidentificationSummary({ report }: { report: DeidentificationReport }) {
+  const { t } = useI18n();
+  const lines = describeDeidentification(report, { t });
+
+  return (
+    <div className="mt-1 text-xs text-emerald-700">
+      <p className="font-medium">{lines.length ? t("deidentify.title") : t("deidentify.clean")}</p>
+      <ul className="list-disc list-inside">
+        {lines.map((line) => (
+          <li key={line} className="break-words">
+            {line}
+          </li>
+        ))}
+      </ul>
+      {report.burnedInAnnotation && !report.blackedOutEdges && (
+        <p className="text-orange-600">{t("deidentify.burnedIn")}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useEffect, useRef, useState } from "react";
+import { useI18n } from "~/lib/i18n";
+
+// Original X-ray next to (or blended with) the Eigencam heatmap.
+// Both panes share one zoom/pan transform so the same anatomy stays aligned.
+
+type ViewerMode = "side" | "overlay";
+
+type Props = {
+  originalUrl?: string | null;
+  heatmapUrl?: string | null;
+};
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export function XrayViewer({ originalUrl, heatmapUrl }: Props) {
+  const { t } = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [mode, setMode] = useState<ViewerMode>("side");
+  const [opacity, setOpacity] = useState(0.5);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [brightness, setBrightness] = useState(1);
+  const [contrast, setContrast] = useState(1);
+  const [fullscreen, setFullscreen] = useState(false);
+
+  const hasBoth = Boolean(originalUrl && heatmapUrl);
+  // Nothing (not even the container) is rendered until there is an image
+  const visible = Boolean(originalUrl || heatmapUrl);
+  const effectiveMode: ViewerMode = hasBoth ? mode : "side";
+
+  // Native listener: React's wheel handler is passive and can't stop page scrolling.
+  // Re-run once the container appears, since the URLs may arrive after the first render.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setZoom((prev) => clampZoom(prev * (e.deltaY < 0 ? 1.15 : 1 / 1.15)));
+    };
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    return () => container.removeEventListener("wheel", handleWheel);
+  }, [visible]);
+
+  useEffect(() => {
+    const handleChange = () => setFullscreen(document.fullscreenElement === containerRef.current);
+    document.addEventListener("fullscreenchange", handleChange);
+    return () => document.removeEventListener("fullscreenchange", handleChange);
+  }, []);
+
+  // Zooming back out to 1× recentres the image
+  useEffect(() => {
+    if (zoom === 1) setOffset({ x: 0, y: 0 });
+  }, [zoom]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (zoom === 1) return;
+    dragRef.current = { x: e.clientX - offset.x, y: e.clientY - offset.y };
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    setOffset({ x: e.clientX - dragRef.current.x, y: e.clientY - dragRef.current.y });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      containerRef.current?.requestFullscreen?.();
+    }
+  };
+
+  const resetView = () => {
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+    setBrightness(1);
+    setContrast(1);
+    setOpacity(0.5);
+  };
+
+  const transform = {
+    transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})`,
+  };
+  const windowing = { filter: `brightness(${brightness}) contrast(${contrast})` };
+
+  const pane = (children: React.ReactNode, label: string) => (
+    <div className="relative flex-1 overflow-hidden bg-black rounded min-h-[12rem]">
+      <div className="absolute inset-0 flex items-center justify-center" style={transform}>
+        {children}
+      </div>
+      <span className="absolute top-1 left-1 text-[10px] text-white bg-black/60 px-1.5 py-0.5 rounded">
+        {label}
+      </span>
+    </div>
+  );
+
+  if (!visible) return null;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`bg-gray-900 rounded-lg p-2 ${fullscreen ? "flex flex-col h-full" : ""}`}
+    >
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-3 mb-2 text-xs text-gray-200">
+        {hasBoth && (
+          <div className="flex rounded overflow-hidden border border-gray-600">
+            <button
+              type="button"
+              onClick={() => setMode("side")}
+              className={`px-2 py-1 ${effectiveMode === "side" ? "bg-blue-600" : "bg-gray-800"}`}
+            >
+              {t("viewer.side")}
+            </button>
+            <button
+              type="button"
+              onClick={() => setMode("overlay")}
+              className={`px-2 py-1 ${effectiveMode === "overlay" ? "bg-blue-600" : "bg-gray-800"}`}
+            >
+              {t("viewer.overlay")}
+            </button>
+          </div>
+        )}
+        {effectiveMode === "overlay" && (
+          <label className="flex items-center gap-1">
+            {t("viewer.opacity")}
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={opacity}
+              onChange={(e) => setOpacity(Number(e.target.value))}
+            />
+          </label>
+        )}
+        <label className="flex items-center gap-1">
+          {t("viewer.brightness")}
+          <input
+            type="range"
+            min={0.2}
+            max={3}
+            step={0.05}
+            value={brightness}
+            onChange={(e) => setBrightness(Number(e.target.value))}
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          {t("viewer.contrast")}
+          <input
+            type="range"
+            min={0.2}
+            max={4}
+            step={0.05}
+            value={contrast}
+            onChange={(e) => setContrast(Number(e.target.value))}
+          />
+        </label>
+        <div className="flex items-center gap-1 ml-auto">
+          <button
+            type="button"
+            onClick={() => setZoom((prev) => clampZoom(prev / 1.25))}
+            className="px-2 py-1 bg-gray-800 rounded"
+            title={t("viewer.zoomOut")}
+          >
+            −
+          </button>
+          <span className="w-10 text-center">{Math.round(zoom * 100)}%</span>
+          <button
+            type="button"
+            onClick={() => setZoom((prev) => clampZoom(prev * 1.25))}
+            className="px-2 py-1 bg-gray-800 rounded"
+            title={t("viewer.zoomIn")}
+          >
+            +
+          </button>
+          <button type="button" onClick={resetView} className="px-2 py-1 bg-gray-800 rounded">
+            {t("viewer.reset")}
+          </button>
+          <button type="button" onClick={toggleFullscreen} className="px-2 py-1 bg-gray-800 rounded">
+            {fullscreen ? t("viewer.exitFullscreen") : t("viewer.fullscreen")}
+          </button>
+        </div>
+      </div>
+
+      {/* Images: drag to pan, wheel to zoom */}
+      <div
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`flex gap-2 select-none ${fullscreen ? "flex-1" : "h-72"} ${
+          zoom > 1 ? "cursor-grab active:cursor-grabbing" : ""
+        }`}
+      >
+        {effectiveMode === "side" ? (
+          <>
+            {originalUrl &&
+              pane(
+                <img
+                  src={originalUrl}
+                  alt={t("viewer.originalAlt")}
+                  draggable={false}
+                  className="max-w-full max-h-full object-contain"
+                  style={windowing}
+                />,
+                t("viewer.original")
+              )}
+            {heatmapUrl &&
+              pane(
+                <img
+                  src={heatmapUrl}
+                  alt={t("viewer.heatmapAlt")}
+                  draggable={false}
+                  className="max-w-full max-h-full object-contain"
+                />,
+                t("viewer.heatmap")
+              )}
+          </>
+        ) : (
+          pane(
+            <div className="relative max-w-full max-h-full">
+              <img
+                src={originalUrl ?? undefined}
+                alt={t("viewer.originalAlt")}
+                draggable={false}
+                className="max-w-full max-h-full object-contain"
+                style={windowing}
+              />
+              <img
+                src={heatmapUrl ?? undefined}
+                alt={t("viewer.heatmapAlt")}
+                draggable={false}
+                className="absolute inset-0 w-full h-full object-contain"
+                style={{ opacity }}
+              />
+            </div>,
+            t("viewer.combined")
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { act, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useAnalyze } from "~/hooks/useAnalyze";
+import invalidCore from "~/lib/__fixtures__/analyze-invalid-core.json";
+import valid from "~/lib/__fixtures__/analyze-valid.json";
+import { parseAnalyzeResponse } from "~/lib/analyze";
+import type { ClinicalInfo } from "~/lib/clinical";
+import { recordAnalysis, type HistoryEntry } from "~/lib/history";
+import type { ThresholdSettings } from "~/lib/thresholds";
+import { renderHookWithRoot } from "~/test/render";
+
+// IndexedDB is not available in jsdom
+vi.mock("~/lib/history", () => ({ recordAnalysis: vi.fn(async () => "history-1") }));
+
+const CLINICAL_INFO: ClinicalInfo = { initial_diagnosis: "Pneumonia", symptoms: ["cough"] };
+
+const image = () => new File([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], "chest.png", { type: "image/png" });
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", "X-Request-ID": "req-42" },
+  });
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", fetchMock);
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.mocked(recordAnalysis).mockClear();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const run = async (clinicalInfo = CLINICAL_INFO) => {
+  const hook = renderHookWithRoot(() => useAnalyze());
+  await act(() => hook.current.analyze(image(), clinicalInfo, "optimized"));
+  return hook.current;
+};
+
+describe("useAnalyze", () => {
+  it("keeps a valid result with its context and saves it to the history", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(structuredClone(valid)));
+
+    const analysis = await run();
+
+    expect(analysis.error).toBeNull();
+    expect(analysis.loading).toBe(false);
+    expect(analysis.result?.data.predictedClass).toBe("Pneumonia");
+    expect(analysis.context).toMatchObject({ fileName: "chest.png", pipeline: "optimized" });
+    expect(analysis.historyId).toBe("history-1");
+    expect(recordAnalysis).toHaveBeenCalledWith(
+      expect.objectContaining({ fileName: "chest.png", analyzedBy: expect.objectContaining({ id: "lan" }) }),
+      expect.any(File)
+    );
+    expect(fetchMock).toHaveBeenCalledWith("/api/analyze?pipeline=optimized", expect.anything());
+  });
+
+  it("shows a server error with the request ID", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ success: false, message: "Model crashed" }, 500));
+
+    const analysis = await run();
+
+    expect(analysis.result).toBeNull();
+    expect(analysis.error).toBe("The server reported an error (HTTP 500): Model crashed (Request ID: req-42)");
+  });
+
+  it("shows why the backend could not analyse the image", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ success: false, message: "Image is not a chest X-ray" }));
+
+    const analysis = await run();
+
+    expect(analysis.error).toBe("Analysis was not successful: Image is not a chest X-ray (Request ID: req-42)");
+  });
+
+  it("reports a stream error event with the request ID", async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(
+        '{"type":"stage","stage":"onnx","status":"started"}\n{"type":"error","stage":"onnx_inference"}\n',
+        { headers: { "Content-Type": "application/x-ndjson", "X-Request-ID": "req-43" } }
+      )
+    );
+
+    const analysis = await run();
+
+    expect(analysis.error).toBe("Analysis was not successful (Request ID: req-43)");
+  });
+
+  it("stops reading the progress stream when cancelled", async () => {
+    let released = false;
+    const body = new ReadableStream<Uint8Array>({
+      start(stream) {
+        // The result never arrives; the backend is still on the first stage
+        stream.enqueue(new TextEncoder().encode('{"type":"stage","stage":"onnx","status":"started"}\n'));
+      },
+      cancel() {
+        released = true;
+      },
+    });
+    fetchMock.mockResolvedValueOnce(
+      new Response(body, { headers: { "Content-Type": "application/x-ndjson", "X-Request-ID": "req-44" } })
+    );
+    const hook = renderHookWithRoot(() => useAnalyze());
+
+    let running!: Promise<unknown>;
+    act(() => {
+      running = hook.current.analyze(image(), CLINICAL_INFO, "optimized");
+    });
+    await waitFor(() => expect(hook.current.progress?.stages.onnx?.status).toBe("running"));
+    act(() => hook.current.cancel());
+    await act(() => running);
+
+    expect(hook.current.error).toBe("Analysis cancelled.");
+    expect(hook.current.result).toBeNull();
+    expect(hook.current.loading).toBe(false);
+    expect(released).toBe(true);
+    expect(recordAnalysis).not.toHaveBeenCalled();
+  });
+
+  it("keeps the newer result when an earlier analysis answers late", async () => {
+    let answerFirst!: (res: Response) => void;
+    fetchMock
+      .mockReturnValueOnce(new Promise((resolve) => (answerFirst = resolve)))
+      .mockResolvedValueOnce(jsonResponse(structuredClone(valid)));
+    const hook = renderHookWithRoot(() => useAnalyze());
+
+    let first!: Promise<unknown>;
+    act(() => {
+      first = hook.current.analyze(image(), CLINICAL_INFO, "standard");
+    });
+    await act(() => hook.current.analyze(image(), CLINICAL_INFO, "optimized"));
+    answerFirst(jsonResponse(structuredClone(valid)));
+    await act(() => first);
+
+    expect(hook.current.error).toBeNull();
+    expect(hook.current.context).toMatchObject({ pipeline: "optimized" });
+    expect(recordAnalysis).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not run the analysis again after a gateway timeout", async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ success: false, message: "Backend did not respond within 120s" }, 504));
+
+    const analysis = await run();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(analysis.error).toMatch(/^The server did not respond in time/);
+  });
+
+  it("does not send the image again after the connection drops", async () => {
+    fetchMock.mockRejectedValue(new TypeError("Failed to fetch"));
+
+    const analysis = await run();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(analysis.error).toMatch(/^Could not reach the server/);
+  });
+
+  it("asks to sign in again when the session has expired", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ error: "Unauthorized" }, 401));
+
+    const analysis = await run();
+
+    expect(analysis.error).toMatch(/^Your session has expired/);
+  });
+
+  it("rejects a response whose core result is invalid", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(structuredClone(invalidCore)));
+
+    const analysis = await run();
+
+    expect(analysis.result).toBeNull();
+    expect(analysis.error).toMatch(/^The server returned an invalid response: .*data\.predictedClass/);
+    expect(recordAnalysis).not.toHaveBeenCalled();
+  });
+
+  it("stops invalid clinical information before anything is sent", async () => {
+    const analysis = await run({ ...CLINICAL_INFO, vitals: { temperature: 50 } });
+
+    expect(analysis.error).toMatch(/^Invalid clinical information: .*temperature/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("reopens a history entry with the thresholds it was triaged with", () => {
+    const recorded: ThresholdSettings = { mode: "specificity", overrides: {} };
+    const { response } = parseAnalyzeResponse(structuredClone(valid));
+    const entry: HistoryEntry = {
+      id: "history-7",
+      createdAt: Date.UTC(2026, 0, 15),
+      fileName: "chest.png",
+      pipeline: "standard",
+      clinicalInfo: CLINICAL_INFO,
+      response,
+      thresholds: recorded,
+    };
+    const hook = renderHookWithRoot(() => useAnalyze());
+
+    act(() => hook.current.reopen(entry));
+
+    expect(hook.current.result).toBe(response);
+    expect(hook.current.reopenedAt).toBe(entry.createdAt);
+    expect(hook.current.context).toMatchObject({ pipeline: "standard", thresholds: recorded });
+  });
+});
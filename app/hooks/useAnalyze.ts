@@ -0,0 +1,151 @@
+import { useCallback, useRef, useState } from "react";
+import {
+  AnalyzeResponseError,
+  requestAnalysis,
+  type AnalyzePipeline,
+  type AnalyzeResponse,
+  type ClinicalInfo,
+  type ValidationIssue,
+} from "~/lib/analyze";
+import type { AnalysisProgress } from "~/lib/analyze-stream";
+import { useCurrentUser } from "~/hooks/useCurrentUser";
+import { ApiError, describeApiError } from "~/lib/api-client";
+import { ClinicalInfoError } from "~/lib/clinical";
+import { recordAnalysis, type HistoryEntry } from "~/lib/history";
+import { useI18n, type Translator } from "~/lib/i18n";
+import type { ThresholdSettings } from "~/lib/thresholds";
+
+// What the current result was produced from, for the report and the viewer
+export type AnalysisContext = {
+  clinicalInfo: ClinicalInfo;
+  pipeline: AnalyzePipeline;
+  fileName: string;
+  analyzedAt: number;
+  thumbnail?: string;
+  // Thresholds a reopened entry was triaged with; the live settings apply when unset
+  thresholds?: ThresholdSettings;
+};
+
+const describeIssues = (issues: ValidationIssue[]) =>
+  issues.map((issue) => `${issue.path}: ${issue.message}`).join("; ");
+
+// Localized message for anything requestAnalysis can throw
+export const describeAnalyzeError = (err: unknown, { t }: Pick<Translator, "t">) => {
+  if (err instanceof ApiError) return describeApiError(err, { t });
+  if (err instanceof ClinicalInfoError) {
+    return t("error.clinicalInfo", { detail: describeIssues(err.issues) });
+  }
+  if (err instanceof AnalyzeResponseError) {
+    return t("error.invalidResponse", { detail: describeIssues(err.issues) });
+  }
+  return (err instanceof Error && err.message) || t("error.analyze");
+};
+
+// One analysis at a time: runs the request, keeps the result with its context and
+// saves it to the local history. `reopen` shows a stored history entry instead.
+// While running, `progress` follows the pipeline stages and `cancel` aborts it.
+export const useAnalyze = () => {
+  const { t } = useI18n();
+  const user = useCurrentUser();
+  const [result, setResult] = useState<AnalyzeResponse | null>(null);
+  const [droppedSections, setDroppedSections] = useState<ValidationIssue[]>([]);
+  const [context, setContext] = useState<AnalysisContext | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [reopenedAt, setReopenedAt] = useState<number | null>(null);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  const reset = useCallback(() => {
+    setResult(null);
+    setDroppedSections([]);
+    setHistoryId(null);
+    setReopenedAt(null);
+    setError(null);
+  }, []);
+
+  const cancel = useCallback(() => controller.current?.abort(), []);
+
+  const analyze = async (file: File, clinicalInfo: ClinicalInfo, pipeline: AnalyzePipeline) => {
+    controller.current?.abort();
+    const current = new AbortController();
+    controller.current = current;
+    setLoading(true);
+    setError(null);
+    setResult(null);
+    setDroppedSections([]);
+    setHistoryId(null);
+
+    try {
+      const { response, dropped } = await requestAnalysis(
+        file,
+        clinicalInfo,
+        pipeline,
+        current.signal,
+        setProgress
+      );
+      // Cancelled, or replaced by a newer analysis, while the answer was being read
+      if (current.signal.aborted || controller.current !== current) {
+        if (controller.current === current) setError(t("progress.cancelled"));
+        return null;
+      }
+      setDroppedSections(dropped);
+      setResult(response);
+      setContext({ clinicalInfo, pipeline, fileName: file.name, analyzedAt: Date.now() });
+
+      // Keep a copy in the local history; failures must not hide the result
+      setReopenedAt(null);
+      recordAnalysis(
+        { fileName: file.name, pipeline, clinicalInfo, response, analyzedBy: user ?? undefined },
+        file
+      )
+        .then(setHistoryId)
+        .catch((err) => console.warn("Could not save analysis to history:", err));
+      return response;
+    } catch (err) {
+      if (controller.current !== current) return null;
+      setError(current.signal.aborted ? t("progress.cancelled") : describeAnalyzeError(err, { t }));
+      return null;
+    } finally {
+      // A newer analysis may already own the loading state
+      if (controller.current === current) {
+        controller.current = null;
+        setLoading(false);
+        setProgress(null);
+      }
+    }
+  };
+
+  const reopen = useCallback((entry: HistoryEntry) => {
+    setResult(entry.response);
+    setDroppedSections([]);
+    setError(null);
+    setHistoryId(entry.id);
+    setReopenedAt(entry.createdAt);
+    setContext({
+      clinicalInfo: entry.clinicalInfo,
+      pipeline: entry.pipeline,
+      fileName: entry.fileName,
+      analyzedAt: entry.createdAt,
+      thumbnail: entry.thumbnail,
+      thresholds: entry.thresholds,
+    });
+  }, []);
+
+  return {
+    result,
+    droppedSections,
+    context,
+    loading,
+    progress,
+    error,
+    setError,
+    historyId,
+    reopenedAt,
+    analyze,
+    cancel,
+    reopen,
+    reset,
+  };
+};
@@ -0,0 +1,75 @@
+import { useCallback, useState } from "react";
+import { describeAnalyzeError } from "~/hooks/useAnalyze";
+import { useCurrentUser } from "~/hooks/useCurrentUser";
+import {
+  requestAnalysis,
+  type AnalyzePipeline,
+  type AnalyzeResponse,
+  type ClinicalInfo,
+} from "~/lib/analyze";
+import { compareResponses, type PipelineComparison } from "~/lib/compare";
+import { recordAnalysis } from "~/lib/history";
+import { useI18n } from "~/lib/i18n";
+
+const PIPELINES: AnalyzePipeline[] = ["standard", "optimized"];
+
+type PipelineOutcome = {
+  response: AnalyzeResponse | null;
+  error: string | null;
+};
+
+const EMPTY_OUTCOMES: Record<AnalyzePipeline, PipelineOutcome> = {
+  standard: { response: null, error: null },
+  optimized: { response: null, error: null },
+};
+
+// Sends the same image and clinical info to both pipelines in parallel. One
+// pipeline failing still shows the other; `comparison` needs both.
+export const useCompare = () => {
+  const { t } = useI18n();
+  const user = useCurrentUser();
+  const [outcomes, setOutcomes] = useState(EMPTY_OUTCOMES);
+  const [comparison, setComparison] = useState<PipelineComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const reset = useCallback(() => {
+    setOutcomes(EMPTY_OUTCOMES);
+    setComparison(null);
+  }, []);
+
+  const compare = async (file: File, clinicalInfo: ClinicalInfo) => {
+    setLoading(true);
+    reset();
+
+    try {
+      const settled = await Promise.allSettled(
+        PIPELINES.map((pipeline) => requestAnalysis(file, clinicalInfo, pipeline))
+      );
+      const next = { ...EMPTY_OUTCOMES };
+      settled.forEach((outcome, index) => {
+        const pipeline = PIPELINES[index];
+        if (outcome.status === "fulfilled") {
+          const { response } = outcome.value;
+          next[pipeline] = { response, error: null };
+          // Both runs go to the history so the evaluation can be reviewed later
+          recordAnalysis(
+            { fileName: file.name, pipeline, clinicalInfo, response, analyzedBy: user ?? undefined },
+            file
+          ).catch((err) => console.warn("Could not save analysis to history:", err));
+        } else {
+          next[pipeline] = { response: null, error: describeAnalyzeError(outcome.reason, { t }) };
+        }
+      });
+      setOutcomes(next);
+      if (next.standard.response && next.optimized.response) {
+        setComparison(compareResponses(next.standard.response, next.optimized.response));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const hasResult = PIPELINES.some((pipeline) => outcomes[pipeline].response || outcomes[pipeline].error);
+
+  return { outcomes, comparison, loading, hasResult, compare, reset };
+};
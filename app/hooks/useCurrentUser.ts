@@ -0,0 +1,5 @@
+import { useRouteLoaderData } from "@remix-run/react";
+import type { SessionUser } from "~/lib/auth";
+
+// The signed-in user from the root loader; null on the login page
+export const useCurrentUser = () => useRouteLoaderData<{ user?: SessionUser | null }>("root")?.user ?? null;
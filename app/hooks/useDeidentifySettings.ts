@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  DEFAULT_DEIDENTIFY_SETTINGS,
+  loadDeidentifySettings,
+  saveDeidentifySettings,
+  type DeidentifySettings,
+} from "~/lib/deidentify";
+
+// De-identification settings, persisted in localStorage. The server render uses
+// the defaults; the stored settings are applied after hydration.
+export const useDeidentifySettings = () => {
+  const [settings, setSettings] = useState<DeidentifySettings>(DEFAULT_DEIDENTIFY_SETTINGS);
+
+  useEffect(() => {
+    setSettings(loadDeidentifySettings());
+  }, []);
+
+  const update = useCallback((next: DeidentifySettings) => {
+    setSettings(next);
+    saveDeidentifySettings(next);
+  }, []);
+
+  return { settings, update };
+};
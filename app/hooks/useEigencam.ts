@@ -0,0 +1,73 @@
+import { useCallback, useState } from "react";
+import type { AnalyzeResponse } from "~/lib/analyze";
+import { ApiError, apiFetch, describeApiError, readJson } from "~/lib/api-client";
+import { updateHistoryEntry } from "~/lib/history";
+import { useI18n } from "~/lib/i18n";
+
+// Eigencam heatmap for the current result, generated on demand through /api/eigencam.
+// The URL is written back to the history entry so reopening shows it again.
+
+const EIGENCAM_TIMEOUT_MS = 90_000;
+
+export const useEigencam = () => {
+  const { t } = useI18n();
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Set while the Eigencam service is cold-starting
+  const [waking, setWaking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = useCallback((nextUrl: string | null = null) => {
+    setUrl(nextUrl);
+    setError(null);
+  }, []);
+
+  const generate = async (result: AnalyzeResponse, historyId: string | null) => {
+    if (!result.data.cloudinaryId || !result.data.modelName) {
+      setError(t("error.eigencamMissingIds"));
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setUrl(null);
+
+    try {
+      const res = await apiFetch("/api/eigencam", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          cloudinary_id: result.data.cloudinaryId,
+          model_name: result.data.modelName,
+        }),
+        timeoutMs: EIGENCAM_TIMEOUT_MS,
+        onWaking: () => setWaking(true),
+      });
+
+      const data = await readJson<{ success?: boolean; eigencam_url?: string; error?: string }>(res);
+      if (data.success && data.eigencam_url) {
+        setUrl(data.eigencam_url);
+        if (historyId) {
+          updateHistoryEntry(historyId, { eigencamUrl: data.eigencam_url }).catch((err) =>
+            console.warn("Could not update history:", err)
+          );
+        }
+      } else {
+        throw new Error(data.error || t("error.eigencamFailed"));
+      }
+    } catch (err) {
+      setError(
+        err instanceof ApiError
+          ? describeApiError(err, { t })
+          : (err instanceof Error && err.message) || t("error.eigencam")
+      );
+    } finally {
+      setLoading(false);
+      setWaking(false);
+    }
+  };
+
+  return { url, loading, waking, error, generate, reset };
+};
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  DEFAULT_THRESHOLD_SETTINGS,
+  loadThresholdSettings,
+  saveThresholdSettings,
+  type LabelThreshold,
+  type ThresholdMode,
+  type ThresholdSettings,
+} from "~/lib/thresholds";
+
+// Decision threshold settings, persisted in localStorage. The server render uses
+// the defaults; the stored settings are applied after hydration.
+export const useThresholds = () => {
+  const [settings, setSettings] = useState<ThresholdSettings>(DEFAULT_THRESHOLD_SETTINGS);
+
+  useEffect(() => {
+    setSettings(loadThresholdSettings());
+  }, []);
+
+  const update = useCallback((next: ThresholdSettings) => {
+    setSettings(next);
+    saveThresholdSettings(next);
+  }, []);
+
+  const setMode = (mode: ThresholdMode) => update({ ...settings, mode });
+
+  const setLabelThreshold = (label: string, threshold: LabelThreshold) =>
+    update({
+      ...settings,
+      overrides: {
+        ...settings.overrides,
+        [settings.mode]: { ...settings.overrides[settings.mode], [label]: threshold },
+      },
+    });
+
+  // Back to the preset of the current mode
+  const resetMode = () => {
+    const overrides = { ...settings.overrides };
+    delete overrides[settings.mode];
+    update({ ...settings, overrides });
+  };
+
+  return { settings, setMode, setLabelThreshold, resetMode };
+};
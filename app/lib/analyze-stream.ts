@@ -0,0 +1,152 @@
+import { ApiError, REQUEST_ID_HEADER, untilAborted } from "./api-client";
+
+// Live progress for the analyze call. When the backend supports it, the analyze
+// endpoint answers `Accept: application/x-ndjson` with one JSON event per line
+// (SSE `data:` lines are accepted too) instead of a single JSON body:
+//
+//   {"type":"stage","stage":"onnx","status":"started"}
+//   {"type":"stage","stage":"onnx","status":"completed"}
+//   {"type":"stage","stage":"professor","status":"skipped"}
+//   {"type":"result","response":{...AnalyzeResponse}}
+//   {"type":"error","message":"...","stage":"onnx_inference"}
+//
+// A plain JSON answer means streaming is unavailable; only the upload stage is
+// tracked then.
+
+export const STREAM_CONTENT_TYPE = "application/x-ndjson";
+
+// Pipeline order as shown in the progress list; the backend may send others
+export const ANALYSIS_STAGES = ["upload", "onnx", "gpt4o", "agreement", "professor", "final"] as const;
+export type AnalysisStage = (typeof ANALYSIS_STAGES)[number];
+
+export type StageStatus = "running" | "completed" | "skipped";
+
+export type StreamEvent =
+  | { type: "stage"; stage: string; status: "started" | "completed" | "skipped" }
+  | { type: "result"; response: unknown }
+  | { type: "error"; message?: string; stage?: string };
+
+export type StageProgress = {
+  status: StageStatus;
+  startedAt: number;
+  finishedAt?: number;
+};
+
+export type AnalysisProgress = {
+  startedAt: number;
+  // False when the backend answered (or last answered) with plain JSON
+  streaming: boolean;
+  stages: Partial<Record<string, StageProgress>>;
+  // Set while the backend is slow to answer or being retried after a 502/503
+  waking?: boolean;
+};
+
+export const createProgress = (streaming = true, now = Date.now()): AnalysisProgress => ({
+  startedAt: now,
+  streaming,
+  stages: { upload: { status: "running", startedAt: now } },
+});
+
+// Applies a stage event; starting a stage also closes the ones still running
+export const applyStageEvent = (
+  progress: AnalysisProgress,
+  stage: string,
+  status: "started" | "completed" | "skipped",
+  now = Date.now()
+): AnalysisProgress => {
+  const stages = { ...progress.stages };
+  if (status === "started") {
+    for (const [id, entry] of Object.entries(stages)) {
+      if (entry?.status === "running") stages[id] = { ...entry, status: "completed", finishedAt: now };
+    }
+    stages[stage] = { status: "running", startedAt: now };
+  } else {
+    stages[stage] = {
+      startedAt: stages[stage]?.startedAt ?? now,
+      status,
+      finishedAt: now,
+    };
+  }
+  return { ...progress, stages };
+};
+
+const isStreamEvent = (value: unknown): value is StreamEvent => {
+  if (typeof value !== "object" || value === null) return false;
+  const event = value as Record<string, unknown>;
+  if (event.type === "stage") {
+    return typeof event.stage === "string" && ["started", "completed", "skipped"].includes(event.status as string);
+  }
+  return event.type === "result" || event.type === "error";
+};
+
+// One NDJSON line or SSE field line; comments, `event:`/`id:` fields and blank lines give null
+export const parseStreamLine = (line: string): StreamEvent | null => {
+  let payload = line.trim();
+  if (!payload || payload.startsWith(":")) return null;
+  if (/^(event|id|retry):/.test(payload)) return null;
+  if (payload.startsWith("data:")) payload = payload.slice(5).trim();
+  try {
+    const parsed: unknown = JSON.parse(payload);
+    return isStreamEvent(parsed) ? parsed : null;
+  } catch {
+    console.warn("⚠️ Ignoring malformed stream line:", payload.slice(0, 200));
+    return null;
+  }
+};
+
+export const isStreamingResponse = (res: Response) => {
+  const contentType = res.headers.get("Content-Type") ?? "";
+  return contentType.includes(STREAM_CONTENT_TYPE) || contentType.includes("text/event-stream");
+};
+
+// `success: false` from the backend, as a JSON body or a stream `error` event
+export const analyzeFailedError = (res: Response, detail?: string) =>
+  new ApiError("server", detail || "Analysis was not successful", {
+    requestId: res.headers.get(REQUEST_ID_HEADER) ?? "",
+    status: res.status,
+    detail,
+    messageKey: detail ? "error.analyzeFailedDetail" : "error.analyzeFailed",
+  });
+
+// Reads the stream, reporting every event, and returns the final `result` payload.
+// Throws ApiError when the stream ends on an `error` event or without a result, and
+// the abort reason as soon as `signal` aborts.
+export const readAnalyzeStream = async (
+  res: Response,
+  onEvent: (event: StreamEvent) => void,
+  signal?: AbortSignal
+): Promise<unknown> => {
+  const streamError = (message: string) =>
+    new ApiError("server", message, { requestId: res.headers.get(REQUEST_ID_HEADER) ?? "", status: res.status });
+  if (!res.body) throw streamError("Empty analyze stream");
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  let result: unknown;
+
+  const handle = (line: string) => {
+    const event = parseStreamLine(line);
+    if (!event) return;
+    onEvent(event);
+    if (event.type === "error") throw analyzeFailedError(res, event.message);
+    if (event.type === "result") result = event.response;
+  };
+
+  try {
+    for (;;) {
+      const { value, done } = await untilAborted(reader.read(), signal);
+      if (done) break;
+      buffered += value;
+      const lines = buffered.split("\n");
+      buffered = lines.pop() ?? "";
+      lines.forEach(handle);
+    }
+    handle(buffered);
+  } catch (error) {
+    // Releases the body the backend may still be sending
+    reader.cancel().catch(() => undefined);
+    throw error;
+  }
+
+  if (result === undefined) throw streamError("Analyze stream ended without a result");
+  return result;
+};
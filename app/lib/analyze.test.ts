@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { AnalyzeResponseError, parseAnalyzeResponse } from "./analyze";
+import invalidCore from "./__fixtures__/analyze-invalid-core.json";
+import malformedSection from "./__fixtures__/analyze-malformed-section.json";
+import valid from "./__fixtures__/analyze-valid.json";
+
+// Fixtures are decoded JSON bodies as the proxy returns them; copied so a test
+// can't change them for the next one
+const load = (fixture: unknown): unknown => structuredClone(fixture);
+
+describe("parseAnalyzeResponse", () => {
+  it("accepts a valid payload and keeps every section", () => {
+    const { response, dropped } = parseAnalyzeResponse(load(valid));
+
+    expect(dropped).toEqual([]);
+    expect(response.data.predictedClass).toBe("Pneumonia");
+    expect(response.data.binaryProbabilities.Pneumonia).toBe(0.89);
+    expect(response.data.allMultiLabelScores).toHaveLength(3);
+    expect(response.data.warnings).toEqual(["Low confidence result; image appears rotated."]);
+    expect(response.data.enhanced_analysis?.gpt4o_analysis?.diagnosis).toBe("Pneumonia");
+    expect(response.data.enhanced_analysis?.performance_metrics?.total_processing_time).toBe(12400);
+  });
+
+  it("drops malformed optional sections and reports which fields were wrong", () => {
+    const { response, dropped } = parseAnalyzeResponse(load(malformedSection));
+
+    expect(dropped.map((issue) => issue.path)).toEqual([
+      "data.warnings",
+      "data.enhanced_analysis.gpt4o_analysis.confidence",
+      "data.enhanced_analysis.performance_metrics.total_processing_time",
+    ]);
+    expect(response.data.warnings).toBeUndefined();
+    expect(response.data.enhanced_analysis?.gpt4o_analysis).toBeUndefined();
+    expect(response.data.enhanced_analysis?.performance_metrics).toBeUndefined();
+    // The valid sections around them survive
+    expect(response.data.predictedClass).toBe("Pneumonia");
+    expect(response.data.enhanced_analysis?.onnx_analysis?.confidence).toBe(0.89);
+    expect(response.data.enhanced_analysis?.final_decision?.decision_maker).toBe("onnx_gpt4o_consensus");
+  });
+
+  it("rejects a payload whose core result is invalid", () => {
+    let error: unknown;
+    try {
+      parseAnalyzeResponse(load(invalidCore));
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(AnalyzeResponseError);
+    expect((error as AnalyzeResponseError).issues.map((issue) => issue.path).sort()).toEqual([
+      "data.binaryProbabilities.Pneumonia",
+      "data.predictedClass",
+    ]);
+  });
+
+  it("rejects a payload without data", () => {
+    expect(() => parseAnalyzeResponse({ success: true, stage: "completed", message: "" })).toThrow(
+      AnalyzeResponseError
+    );
+  });
+});
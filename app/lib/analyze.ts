@@ -0,0 +1,264 @@
+import { z } from "zod";
+import { apiFetch, NOT_STARTED_STATUSES, readJson } from "./api-client";
+import {
+  analyzeFailedError,
+  applyStageEvent,
+  createProgress,
+  isStreamingResponse,
+  readAnalyzeStream,
+  STREAM_CONTENT_TYPE,
+  type AnalysisProgress,
+} from "./analyze-stream";
+import { serializeClinicalInfo, type ClinicalInfo } from "./clinical";
+
+// Runtime schema for the analyze / analyze-optimized responses.
+// The core result must be valid or the whole response is rejected; the optional
+// sections (clinical_info, warnings and every part of enhanced_analysis) are
+// validated one by one and dropped with a warning when they don't match.
+
+const finiteNumber = z.number().finite();
+const probability = finiteNumber.min(0).max(1);
+
+export const multiLabelSchema = z.object({
+  label: z.string(),
+  score: probability,
+});
+
+const clinicalInfoSchema = z.object({
+  initial_diagnosis: z.string().optional(),
+  symptoms: z.array(z.string()).optional(),
+  vitals: z.record(finiteNumber).optional(),
+});
+
+const enhancedSectionSchemas = {
+  onnx_analysis: z.object({
+    diagnosis: z.string(),
+    confidence: probability,
+    stage: z.string().optional(),
+  }),
+  gpt4o_analysis: z.object({
+    diagnosis: z.string(),
+    confidence: probability,
+    findings: z.array(z.string()).optional(),
+    reasoning: z.string().optional(),
+    recommendations: z.array(z.string()).optional(),
+  }),
+  ai_agreement: z.object({
+    disagreement_detected: z.boolean(),
+    agreement_level: z.string().optional(),
+  }),
+  professor_analysis: z.object({
+    triggered: z.boolean(),
+    success: z.boolean().optional(),
+    expert_diagnosis: z.string().optional(),
+    confidence: probability.optional(),
+    risk_assessment: z.string().optional(),
+  }),
+  final_decision: z.object({
+    diagnosis: z.string(),
+    confidence: probability,
+    decision_maker: z.string(),
+    reasoning: z.string().optional(),
+  }),
+  performance_metrics: z.object({
+    total_processing_time: finiteNumber.nonnegative(),
+    optimization_applied: z.boolean(),
+    parallel_execution: z.boolean().optional(),
+    fallback_mode: z.union([z.string(), z.boolean()]).optional(),
+    gpt4o_cost_usd: finiteNumber.optional(),
+    professor_cost_usd: finiteNumber.optional(),
+    total_cost_usd: finiteNumber.optional(),
+    estimated_speedup: z.string().optional(),
+  }),
+};
+
+const enhancedAnalysisSchema = z.object({
+  system_type: z.string(),
+  optimization_features: z.array(z.string()).optional(),
+  models_used: z.array(z.string()),
+  onnx_analysis: enhancedSectionSchemas.onnx_analysis.optional(),
+  gpt4o_analysis: enhancedSectionSchemas.gpt4o_analysis.optional(),
+  ai_agreement: enhancedSectionSchemas.ai_agreement.optional(),
+  professor_analysis: enhancedSectionSchemas.professor_analysis.optional(),
+  final_decision: enhancedSectionSchemas.final_decision.optional(),
+  performance_metrics: enhancedSectionSchemas.performance_metrics.optional(),
+});
+
+const analyzeDataSchema = z.object({
+  clinical_info: clinicalInfoSchema.optional(),
+  binaryProbabilities: z.record(probability),
+  predictedClass: z.string().min(1),
+  confidence: probability.optional(),
+  classLabels: z.array(z.string()),
+  multiLabelTop: z.record(multiLabelSchema),
+  allMultiLabelScores: z.array(multiLabelSchema),
+  warnings: z.array(z.string()).optional(),
+  cloudinaryId: z.string().optional(),
+  modelName: z.string().optional(),
+  enhanced_analysis: enhancedAnalysisSchema.optional(),
+});
+
+export const analyzeResponseSchema = z.object({
+  success: z.boolean(),
+  stage: z.string(),
+  message: z.string(),
+  data: analyzeDataSchema,
+});
+
+export type MultiLabel = z.infer<typeof multiLabelSchema>;
+export type EnhancedAnalysis = z.infer<typeof enhancedAnalysisSchema>;
+export type AnalyzeResponse = z.infer<typeof analyzeResponseSchema>;
+
+export type { ClinicalInfo };
+
+export type ValidationIssue = {
+  path: string;
+  message: string;
+};
+
+export class AnalyzeResponseError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(
+      `Invalid analyze response: ${issues
+        .map((issue) => `${issue.path}: ${issue.message}`)
+        .join("; ")}`
+    );
+    this.name = "AnalyzeResponseError";
+    this.issues = issues;
+  }
+}
+
+const toIssues = (error: z.ZodError, prefix: string[]): ValidationIssue[] =>
+  error.issues.map((issue) => ({
+    path: [...prefix, ...issue.path].join("."),
+    message: issue.message,
+  }));
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Validates `section` in place: keeps it if valid, deletes it and records the issues otherwise
+const checkOptionalSection = (
+  parent: Record<string, unknown>,
+  key: string,
+  schema: z.ZodTypeAny,
+  path: string[],
+  dropped: ValidationIssue[]
+) => {
+  if (parent[key] === undefined || parent[key] === null) {
+    delete parent[key];
+    return;
+  }
+  const result = schema.safeParse(parent[key]);
+  if (result.success) {
+    parent[key] = result.data;
+  } else {
+    dropped.push(...toIssues(result.error, [...path, key]));
+    delete parent[key];
+  }
+};
+
+export type ParsedAnalyzeResponse = {
+  response: AnalyzeResponse;
+  // Optional sections that were removed because they didn't match the schema
+  dropped: ValidationIssue[];
+};
+
+// Validates an already-decoded JSON body. Throws AnalyzeResponseError when the core
+// result is unusable; invalid optional sections are dropped and reported in `dropped`.
+export const parseAnalyzeResponse = (payload: unknown): ParsedAnalyzeResponse => {
+  if (!isObject(payload) || !isObject(payload.data)) {
+    const result = analyzeResponseSchema.safeParse(payload);
+    throw new AnalyzeResponseError(
+      result.success ? [{ path: "data", message: "Required" }] : toIssues(result.error, [])
+    );
+  }
+
+  const dropped: ValidationIssue[] = [];
+  const data: Record<string, unknown> = { ...payload.data };
+
+  checkOptionalSection(data, "clinical_info", clinicalInfoSchema, ["data"], dropped);
+  checkOptionalSection(data, "warnings", z.array(z.string()), ["data"], dropped);
+
+  if (isObject(data.enhanced_analysis)) {
+    const enhanced: Record<string, unknown> = { ...data.enhanced_analysis };
+    for (const [key, schema] of Object.entries(enhancedSectionSchemas)) {
+      checkOptionalSection(enhanced, key, schema, ["data", "enhanced_analysis"], dropped);
+    }
+    data.enhanced_analysis = enhanced;
+  }
+  checkOptionalSection(data, "enhanced_analysis", enhancedAnalysisSchema, ["data"], dropped);
+
+  const result = analyzeResponseSchema.safeParse({ ...payload, data });
+  if (!result.success) {
+    throw new AnalyzeResponseError(toIssues(result.error, []));
+  }
+  return { response: result.data, dropped };
+};
+
+export type AnalyzePipeline = "optimized" | "standard";
+
+// Remembered after the first answer so later progress doesn't list stages that never come
+let backendStreams: boolean | undefined;
+
+// Posts one image to the /api/analyze proxy route and validates the answer.
+// With `onProgress` the streaming variant is requested (see analyze-stream.ts)
+// and every stage change is reported; a plain JSON answer still works.
+// Transport failures throw ApiError (see api-client.ts).
+export const requestAnalysis = async (
+  file: File,
+  clinicalInfo: ClinicalInfo,
+  pipeline: AnalyzePipeline,
+  signal?: AbortSignal,
+  onProgress?: (progress: AnalysisProgress) => void
+): Promise<ParsedAnalyzeResponse> => {
+  const formData = new FormData();
+  formData.append("image", file);
+  // Validated against the clinical catalogue; throws ClinicalInfoError before anything is sent
+  formData.append("clinical_info", serializeClinicalInfo(clinicalInfo));
+
+  const apiUrl = `/api/analyze?pipeline=${pipeline}`;
+  console.log(`🚀 Using ${pipeline === "optimized" ? 'OPTIMIZED' : 'STANDARD'} API: ${apiUrl}`);
+
+  let progress = createProgress(backendStreams !== false);
+  onProgress?.(progress);
+
+  const res = await apiFetch(apiUrl, {
+    method: "POST",
+    body: formData,
+    signal,
+    // Not idempotent: a 504 (from the proxy's BACKEND_TIMEOUT_MS or upstream) or a
+    // dropped connection may mean the analysis is still running or already done,
+    // and retrying would run and audit it again
+    retryStatuses: NOT_STARTED_STATUSES,
+    retryNetwork: false,
+    headers: onProgress ? { Accept: `${STREAM_CONTENT_TYPE}, application/json` } : undefined,
+    onWaking: () => {
+      progress = { ...progress, waking: true };
+      onProgress?.(progress);
+    },
+  });
+
+  progress = applyStageEvent(progress, "upload", "completed");
+  let data: { success?: boolean; message?: string } | null;
+  if (onProgress) backendStreams = isStreamingResponse(res);
+  if (onProgress && backendStreams) {
+    progress = { ...progress, waking: false };
+    onProgress(progress);
+    data = (await readAnalyzeStream(res, (event) => {
+      if (event.type !== "stage") return;
+      progress = applyStageEvent(progress, event.stage, event.status);
+      onProgress(progress);
+    }, signal)) as typeof data;
+  } else {
+    // Streaming unavailable: the whole answer arrives at once
+    onProgress?.({ ...progress, streaming: false, waking: false });
+    data = await readJson<typeof data>(res, signal);
+  }
+  if (!data?.success) throw analyzeFailedError(res, data?.message);
+  const parsed = parseAnalyzeResponse(data);
+  if (parsed.dropped.length > 0) console.warn("⚠️ Invalid response sections dropped:", parsed.dropped);
+  return parsed;
+};
@@ -0,0 +1,225 @@
+import type { MessageKey, Translator } from "./i18n";
+
+// Browser-side wrapper around fetch for the /api/* proxy routes: a timeout per
+// attempt, exponential backoff on 502/503/504 and network failures (the Render
+// services answer those while they wake up), and errors mapped to ApiError.
+// Requests that must not run twice pass `retryStatuses` without 504 and
+// `retryNetwork: false`, since the upstream may still be working on (or have
+// finished) the first attempt.
+// Every request carries an X-Request-ID that the proxy logs and passes on, so a
+// message shown to the user can be matched with the server logs.
+
+export const REQUEST_ID_HEADER = "X-Request-ID";
+
+export const API_CLIENT_DEFAULTS = {
+  timeoutMs: 150_000,
+  retries: 3,
+  backoffMs: 1_000,
+  // Past this without an answer the server is probably cold-starting
+  slowAfterMs: 8_000,
+};
+
+export const RETRYABLE_STATUSES = [502, 503, 504];
+// 502/503 come back before the upstream starts on the request (see backend.server.ts)
+export const NOT_STARTED_STATUSES = [502, 503];
+
+export type ApiErrorKind = "network" | "timeout" | "auth" | "validation" | "server";
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  requestId: string;
+  status?: number;
+  // Message from the response body, when there was one
+  detail?: string;
+  // Shown instead of the generic message for `kind`; gets `detail` as {detail}
+  messageKey?: MessageKey;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    {
+      requestId,
+      status,
+      detail,
+      messageKey,
+    }: { requestId: string; status?: number; detail?: string; messageKey?: MessageKey }
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.requestId = requestId;
+    this.status = status;
+    this.detail = detail;
+    this.messageKey = messageKey;
+  }
+}
+
+export type ApiRequestInit = Omit<RequestInit, "signal"> & {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+  backoffMs?: number;
+  // HTTP statuses worth another attempt
+  retryStatuses?: number[];
+  // Whether a dropped connection is retried; it may have dropped after the upload arrived
+  retryNetwork?: boolean;
+  // Called once when the server looks like it is cold-starting (slow or 502/503/504)
+  onWaking?: () => void;
+};
+
+export const createRequestId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === "AbortError";
+
+// Settles like `promise`, or rejects with the caller's abort reason as soon as it aborts
+export const untilAborted = <T>(promise: Promise<T>, signal?: AbortSignal) =>
+  !signal
+    ? promise
+    : new Promise<T>((resolve, reject) => {
+        if (signal.aborted) return reject(signal.reason);
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener("abort", onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+      });
+
+// Waits `ms`, rejecting early with the caller's AbortError
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// `message`, `detail` or `error` from a JSON error body; HTML error pages give undefined
+const readErrorDetail = async (res: Response) => {
+  const text = await res.text().catch(() => "");
+  try {
+    const body = JSON.parse(text);
+    const detail = body?.message ?? body?.detail ?? body?.error;
+    return typeof detail === "string" ? detail : detail ? JSON.stringify(detail) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Resolves with the first non-retryable response that is ok; throws ApiError otherwise.
+// The caller's abort is rethrown as is, so it can be told apart from a timeout, and
+// stays connected to a returned response so that it also stops reading the body.
+export const apiFetch = async (url: string, init: ApiRequestInit = {}) => {
+  const {
+    signal,
+    timeoutMs = API_CLIENT_DEFAULTS.timeoutMs,
+    retries = API_CLIENT_DEFAULTS.retries,
+    backoffMs = API_CLIENT_DEFAULTS.backoffMs,
+    retryStatuses = RETRYABLE_STATUSES,
+    retryNetwork = true,
+    onWaking,
+    ...requestInit
+  } = init;
+  const requestId = createRequestId();
+  const headers = new Headers(requestInit.headers);
+  headers.set(REQUEST_ID_HEADER, requestId);
+
+  let waking = false;
+  const markWaking = () => {
+    if (waking) return;
+    waking = true;
+    onWaking?.();
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", abort, { once: true });
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const slow = setTimeout(markWaking, API_CLIENT_DEFAULTS.slowAfterMs);
+
+    let res: Response | undefined;
+    let failure: ApiError | undefined;
+    try {
+      res = await fetch(url, { ...requestInit, headers, signal: controller.signal });
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason ?? error;
+      failure = timedOut
+        ? new ApiError("timeout", `No response within ${timeoutMs}ms`, { requestId })
+        : new ApiError("network", error instanceof Error ? error.message : String(error), { requestId });
+    } finally {
+      clearTimeout(timeout);
+      clearTimeout(slow);
+    }
+    if (!res?.ok) signal?.removeEventListener("abort", abort);
+
+    const retryable = (retryNetwork && failure?.kind === "network") || (res && retryStatuses.includes(res.status));
+    if (retryable && attempt < retries) {
+      markWaking();
+      const delay = backoffMs * 2 ** attempt;
+      console.warn(`🔁 ${url} attempt ${attempt + 1} failed (${res?.status ?? failure?.kind}), retrying in ${delay}ms`);
+      if (res) await res.body?.cancel().catch(() => undefined);
+      await sleep(delay, signal);
+      continue;
+    }
+    if (failure) throw failure;
+    if (!res) throw new ApiError("network", "No response", { requestId });
+    if (res.ok) return res;
+
+    const detail = await readErrorDetail(res);
+    const serverRequestId = res.headers.get(REQUEST_ID_HEADER) ?? requestId;
+    const kind: ApiErrorKind =
+      res.status === 504
+        ? "timeout"
+        : res.status === 401 || res.status === 403
+          ? "auth"
+          : res.status >= 400 && res.status < 500
+            ? "validation"
+            : "server";
+    throw new ApiError(kind, `${url} failed with HTTP ${res.status}${detail ? `: ${detail}` : ""}`, {
+      requestId: serverRequestId,
+      status: res.status,
+      detail,
+    });
+  }
+};
+
+// Parses a JSON body, turning an HTML or truncated answer into a server ApiError.
+// Pass the request's signal so that aborting also stops waiting for the body.
+export const readJson = async <T = unknown>(res: Response, signal?: AbortSignal): Promise<T> => {
+  const requestId = res.headers.get(REQUEST_ID_HEADER) ?? "";
+  try {
+    return (await untilAborted(res.json(), signal)) as T;
+  } catch (error) {
+    if (signal?.aborted) throw signal.reason ?? error;
+    if (isAbortError(error)) throw error;
+    throw new ApiError("server", "Response is not valid JSON", { requestId, status: res.status });
+  }
+};
+
+// Localized message ending with the request ID for support
+export const describeApiError = (error: ApiError, { t }: Pick<Translator, "t">) => {
+  const message = error.messageKey
+    ? t(error.messageKey, { detail: error.detail ?? "" })
+    : error.kind === "network"
+      ? t("error.api.network")
+      : error.kind === "timeout"
+        ? t("error.api.timeout")
+        : error.kind === "auth"
+          ? t(error.status === 403 ? "error.api.forbidden" : "error.api.auth")
+          : t(`error.api.${error.kind}`, {
+              status: error.status ?? "-",
+              detail: error.detail || error.message,
+            });
+  return error.requestId ? `${message} ${t("error.api.requestId", { id: error.requestId })}` : message;
+};
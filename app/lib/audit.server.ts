@@ -0,0 +1,207 @@
+import { createHash, randomUUID } from "node:crypto";
+import { appendFile, readFile } from "node:fs/promises";
+import { isStreamingResponse, parseStreamLine } from "./analyze-stream";
+import type { SessionUser } from "./auth";
+import { getAuditConfig } from "./config.server";
+
+// Append-only audit log of who analysed which image when and what the AI said,
+// written by the /api/* routes. One JSON record per line in AUDIT_LOG_FILE;
+// records are only ever appended, never rewritten. Read back by /admin/audit.
+
+export type AuditEndpoint = "analyze" | "analyze-optimized" | "eigencam" | "view";
+
+export const AUDIT_ENDPOINTS: AuditEndpoint[] = ["analyze", "analyze-optimized", "eigencam", "view"];
+
+export type AuditRecord = {
+  id: string;
+  // ISO 8601, server clock
+  timestamp: string;
+  userId: string;
+  userName: string;
+  role: string;
+  endpoint: AuditEndpoint;
+  requestId?: string;
+  // HTTP status of the upstream answer
+  status?: number;
+  imageSha256?: string;
+  clinicalInfo?: unknown;
+  predictedClass?: string;
+  confidence?: number;
+  cloudinaryId?: string;
+  modelName?: string;
+  warnings?: string[];
+  // Eigencam heatmap URL; data URLs (the mock) are not stored
+  eigencamUrl?: string;
+  // Local history entry a "view" refers to
+  historyId?: string;
+  error?: string;
+};
+
+export type AuditFilter = {
+  userId?: string;
+  endpoint?: string;
+  predictedClass?: string;
+  // Inclusive dates, YYYY-MM-DD
+  from?: string;
+  to?: string;
+};
+
+const getAuditLogFile = () => getAuditConfig().logFile;
+
+export const sha256 = async (blob: Blob) =>
+  createHash("sha256")
+    .update(Buffer.from(await blob.arrayBuffer()))
+    .digest("hex");
+
+export const appendAuditRecord = async (
+  user: SessionUser,
+  record: Omit<AuditRecord, "id" | "timestamp" | "userId" | "userName" | "role">
+) => {
+  const entry: AuditRecord = {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    userId: user.id,
+    userName: user.name,
+    role: user.role,
+    ...record,
+  };
+  try {
+    await appendFile(getAuditLogFile(), `${JSON.stringify(entry)}\n`, { flag: "a" });
+  } catch (error) {
+    // The analysis itself must not fail because the log is unwritable, but it must be loud
+    console.error(`❌ Could not write audit record ${entry.id}:`, error);
+  }
+};
+
+const asString = (value: unknown) => (typeof value === "string" ? value : undefined);
+
+// The fields worth auditing from an analyze response body
+export const summarizeAnalyzeResult = (body: unknown): Partial<AuditRecord> => {
+  const payload = body as { success?: boolean; message?: unknown; data?: Record<string, unknown> } | null;
+  const data = payload?.data;
+  if (!payload?.success || !data) return { error: asString(payload?.message) ?? "unsuccessful response" };
+  return {
+    predictedClass: asString(data.predictedClass),
+    confidence: typeof data.confidence === "number" ? data.confidence : undefined,
+    cloudinaryId: asString(data.cloudinaryId),
+    modelName: asString(data.modelName),
+    warnings: Array.isArray(data.warnings) ? data.warnings.filter((w): w is string => typeof w === "string") : undefined,
+  };
+};
+
+// Hands `res` on to the browser unchanged while a copy of the body is read for
+// the log: the final `result` event of an NDJSON stream, or the JSON body
+export const tapResponse = (res: Response, onBody: (body: unknown, status: number) => Promise<void>) => {
+  if (!res.body) {
+    onBody(null, res.status).catch(() => undefined);
+    return res;
+  }
+  const [forClient, forAudit] = res.body.tee();
+  const streaming = isStreamingResponse(res);
+
+  (async () => {
+    let text: string;
+    try {
+      text = await new Response(forAudit).text();
+    } catch {
+      // The browser went away or the upstream connection broke mid-answer
+      return onBody({ success: false, message: "response interrupted" }, res.status);
+    }
+    let body: unknown = null;
+    if (streaming) {
+      for (const line of text.split("\n")) {
+        const event = parseStreamLine(line);
+        if (event?.type === "result") body = event.response;
+        if (event?.type === "error") body = { success: false, message: event.message };
+      }
+    } else {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = { success: false, message: `non-JSON response (HTTP ${res.status})` };
+      }
+    }
+    await onBody(body, res.status);
+  })().catch((error) => console.error("❌ Could not audit response:", error));
+
+  return new Response(forClient, { status: res.status, statusText: res.statusText, headers: res.headers });
+};
+
+const dayOf = (timestamp: string) => timestamp.slice(0, 10);
+
+const matchesAuditFilter = (record: AuditRecord, filter: AuditFilter) =>
+  (!filter.userId || record.userId.toLowerCase().includes(filter.userId.toLowerCase())) &&
+  (!filter.endpoint || record.endpoint === filter.endpoint) &&
+  (!filter.predictedClass || record.predictedClass === filter.predictedClass) &&
+  (!filter.from || dayOf(record.timestamp) >= filter.from) &&
+  (!filter.to || dayOf(record.timestamp) <= filter.to);
+
+// Newest first. The whole file is read; fine for a department's volume.
+export const readAuditLog = async (filter: AuditFilter = {}): Promise<AuditRecord[]> => {
+  let text = "";
+  try {
+    text = await readFile(getAuditLogFile(), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  const records: AuditRecord[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      console.warn("⚠️ Skipping malformed audit line:", line.slice(0, 200));
+    }
+  }
+  return records.filter((record) => matchesAuditFilter(record, filter)).reverse();
+};
+
+export const auditFilterFromUrl = (url: URL): AuditFilter => {
+  const get = (key: string) => url.searchParams.get(key) || undefined;
+  return {
+    userId: get("user"),
+    endpoint: get("endpoint"),
+    predictedClass: get("predictedClass"),
+    from: get("from"),
+    to: get("to"),
+  };
+};
+
+const CSV_COLUMNS: (keyof AuditRecord)[] = [
+  "id",
+  "timestamp",
+  "userId",
+  "userName",
+  "role",
+  "endpoint",
+  "requestId",
+  "status",
+  "imageSha256",
+  "clinicalInfo",
+  "predictedClass",
+  "confidence",
+  "cloudinaryId",
+  "modelName",
+  "warnings",
+  "eigencamUrl",
+  "historyId",
+  "error",
+];
+
+const csvCell = (value: unknown) => {
+  if (value === undefined || value === null) return "";
+  const text = Array.isArray(value)
+    ? value.join(" | ")
+    : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+  // A leading = + - @ would be run as a formula by spreadsheet apps
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const toCsv = (records: AuditRecord[]) =>
+  [CSV_COLUMNS.join(","), ...records.map((record) => CSV_COLUMNS.map((key) => csvCell(record[key])).join(","))].join(
+    "\r\n"
+  );
@@ -0,0 +1,17 @@
+import { apiFetch } from "./api-client";
+import type { HistoryEntry } from "./history";
+
+// Tells the server's audit log (see audit.server.ts) that a stored result was
+// reopened. Best effort: a failure is only logged.
+export const logResultView = (entry: HistoryEntry) =>
+  apiFetch("/api/audit", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      historyId: entry.id,
+      cloudinaryId: entry.response.data.cloudinaryId,
+      predictedClass: entry.response.data.predictedClass,
+      modelName: entry.response.data.modelName,
+    }),
+    retries: 0,
+  }).catch((err) => console.warn("Could not record the result view:", err));
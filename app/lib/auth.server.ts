@@ -0,0 +1,96 @@
+import { createCookieSessionStorage, redirect, type Session, type SessionStorage } from "@remix-run/node";
+import { hasRole, isRole, type Role, type SessionUser } from "./auth";
+import { getAuthConfig } from "./config.server";
+
+// Cookie sessions for signed-in users. Page loaders call `requireUser`, which
+// redirects to /login; the /api/* resource routes call `requireApiUser`, which
+// answers 401/403 JSON instead so the browser client can show an error.
+
+// Development fallback only; production refuses to start without SESSION_SECRET
+const DEV_SESSION_SECRET = "xray-ui-dev-session-secret";
+
+// Upstream services see who made the request through these headers
+export const USER_ID_HEADER = "X-User-Id";
+export const USER_ROLE_HEADER = "X-User-Role";
+
+// State of a single sign-on round trip (see ~/lib/oidc.server.ts)
+export type PendingOidcLogin = { state: string; verifier: string; redirectTo: string };
+
+type SessionData = { user: SessionUser; oidc: PendingOidcLogin };
+
+const getSessionStorage = (() => {
+  let storage: SessionStorage<SessionData> | undefined;
+  return () => {
+    if (storage) return storage;
+    const { sessionSecret } = getAuthConfig();
+    if (!sessionSecret) {
+      if (process.env.NODE_ENV === "production") throw new Error("SESSION_SECRET must be set in production");
+      console.warn("⚠️  SESSION_SECRET is not set, using an insecure development secret");
+    }
+    storage = createCookieSessionStorage<SessionData>({
+      cookie: {
+        name: "__session",
+        path: "/",
+        sameSite: "lax",
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        secrets: [sessionSecret ?? DEV_SESSION_SECRET],
+        // A working day
+        maxAge: 60 * 60 * 12,
+      },
+    });
+    return storage;
+  };
+})();
+
+export const getSession = (request: Request) =>
+  getSessionStorage().getSession(request.headers.get("Cookie"));
+
+export const commitSession = (session: Session<SessionData>) =>
+  getSessionStorage().commitSession(session);
+
+export const getUser = async (request: Request): Promise<SessionUser | null> => {
+  const user = (await getSession(request)).get("user");
+  return user && typeof user.id === "string" && isRole(user.role) ? user : null;
+};
+
+// Only same-origin paths, so /login?redirectTo= can't send users elsewhere
+export const safeRedirect = (to: FormDataEntryValue | string | null | undefined, fallback = "/") =>
+  typeof to === "string" && to.startsWith("/") && !to.startsWith("//") ? to : fallback;
+
+export const requireUser = async (request: Request, roles?: Role[]) => {
+  const user = await getUser(request);
+  if (!user) {
+    const url = new URL(request.url);
+    throw redirect(`/login?${new URLSearchParams({ redirectTo: `${url.pathname}${url.search}` })}`);
+  }
+  if (roles && !hasRole(user, roles)) throw new Response("Forbidden", { status: 403 });
+  return user;
+};
+
+export const requireApiUser = async (request: Request, roles?: Role[]) => {
+  const user = await getUser(request);
+  if (!user) {
+    throw Response.json({ success: false, message: "Not signed in" }, { status: 401 });
+  }
+  if (roles && !hasRole(user, roles)) {
+    throw Response.json({ success: false, message: "Not allowed for this role" }, { status: 403 });
+  }
+  return user;
+};
+
+export const createUserSession = async (request: Request, user: SessionUser, redirectTo: string) => {
+  const session = await getSession(request);
+  // Drop what the single sign-on round trip left behind
+  session.unset("oidc");
+  session.set("user", user);
+  console.log(`🔐 ${user.id} (${user.role}) signed in`);
+  return redirect(redirectTo, { headers: { "Set-Cookie": await commitSession(session) } });
+};
+
+export const logout = async (request: Request) => {
+  const session = await getSession(request);
+  return redirect("/login", {
+    headers: { "Set-Cookie": await getSessionStorage().destroySession(session) },
+  });
+};
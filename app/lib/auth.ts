@@ -0,0 +1,17 @@
+// Roles and the signed-in user, shared by the server (session, route guards)
+// and the browser (root loader data). Admins can do everything.
+
+export type Role = "clinician" | "radiologist" | "admin";
+
+export const ROLES: Role[] = ["clinician", "radiologist", "admin"];
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+export type SessionUser = {
+  // Local username, or `<issuer>|<sub>` for single sign-on accounts
+  id: string;
+  name: string;
+  role: Role;
+};
+
+export const hasRole = (user: SessionUser, roles: Role[]) => user.role === "admin" || roles.includes(user.role);
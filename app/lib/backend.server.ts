@@ -0,0 +1,75 @@
+import { randomUUID } from "node:crypto";
+import { REQUEST_ID_HEADER } from "./api-client";
+import type { SessionUser } from "./auth";
+import { USER_ID_HEADER, USER_ROLE_HEADER } from "./auth.server";
+import { getBackendConfig } from "./config.server";
+
+// Forwards a request to one of the AI backends and relays its response as-is.
+// Network failures and timeouts are turned into JSON errors shaped like the
+// backend's own `{ success: false, message }` payloads. Streamed bodies (the
+// NDJSON analyze variant) are passed through as they arrive; `signal` stops the
+// upstream request when the browser goes away. The request ID is sent upstream,
+// logged and echoed back so client errors can be traced. The signed-in user's
+// ID and role go upstream as X-User-Id / X-User-Role.
+export const forwardToBackend = async (
+  url: string,
+  init: {
+    method?: string;
+    headers?: HeadersInit;
+    body?: BodyInit;
+    signal?: AbortSignal;
+    requestId?: string;
+    user?: SessionUser;
+  }
+) => {
+  const { apiKey, timeoutMs } = getBackendConfig();
+  const requestId = init.requestId ?? randomUUID();
+  const headers = new Headers(init.headers);
+  if (apiKey) headers.set("Authorization", `Bearer ${apiKey}`);
+  headers.set(REQUEST_ID_HEADER, requestId);
+  if (init.user) {
+    headers.set(USER_ID_HEADER, init.user.id);
+    headers.set(USER_ROLE_HEADER, init.user.role);
+  }
+
+  const startedAt = Date.now();
+  try {
+    const res = await fetch(url, {
+      method: init.method ?? "POST",
+      headers,
+      body: init.body,
+      signal: init.signal
+        ? AbortSignal.any([AbortSignal.timeout(timeoutMs), init.signal])
+        : AbortSignal.timeout(timeoutMs),
+    });
+    console.log(
+      `➡️  [${requestId}] ${init.user?.id ?? "-"} ${url} ${res.status} (${Date.now() - startedAt}ms)`
+    );
+
+    const responseHeaders = new Headers({ [REQUEST_ID_HEADER]: requestId });
+    const contentType = res.headers.get("Content-Type");
+    if (contentType) responseHeaders.set("Content-Type", contentType);
+    return new Response(res.body, { status: res.status, headers: responseHeaders });
+  } catch (error) {
+    const timedOut = error instanceof DOMException && error.name === "TimeoutError";
+    console.error(`❌ [${requestId}] ${url} failed after ${Date.now() - startedAt}ms:`, error);
+    return Response.json(
+      {
+        success: false,
+        message: timedOut
+          ? `Backend did not respond within ${timeoutMs / 1000}s`
+          : "Backend is unreachable",
+      },
+      { status: timedOut ? 504 : 502, headers: { [REQUEST_ID_HEADER]: requestId } }
+    );
+  }
+};
+
+// The browser's X-Request-ID (see api-client.ts), if it sent a sane one
+export const getRequestId = (request: Request) => {
+  const requestId = request.headers.get(REQUEST_ID_HEADER);
+  return requestId && /^[\w-]{1,64}$/.test(requestId) ? requestId : undefined;
+};
+
+export const methodNotAllowed = () =>
+  Response.json({ success: false, message: "Method not allowed" }, { status: 405 });
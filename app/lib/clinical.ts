@@ -0,0 +1,191 @@
+import { z } from "zod";
+import type { ValidationIssue } from "./analyze";
+import type { Translator } from "./i18n";
+import { compactPatientContext, patientContextSchema, type PatientContext } from "./patient";
+
+// Catalogue behind the clinical-input form: which initial diagnoses, symptoms and
+// vitals can be entered, how they look, and how they are validated before being
+// sent as `clinical_info`. Labels and descriptions come from the message
+// catalogues (`diagnosis.<id>.*`, `symptom.<id>.*`, `vital.<id>.*`); an entry
+// without translations is shown by its id.
+
+export type CatalogueColor = "green" | "red" | "orange" | "amber" | "blue" | "purple" | "teal" | "gray";
+
+export type DiagnosisOption = {
+  id: string;
+  icon: string;
+  color: CatalogueColor;
+};
+
+export type VitalId = "temperature" | "respiratory_rate" | "spo2";
+
+export type SymptomOption = {
+  id: string;
+  icon: string;
+  color: CatalogueColor;
+  // Set automatically when the vital crosses the threshold; can still be ticked by hand
+  trigger?: { vital: VitalId; atLeast?: number; below?: number };
+};
+
+export type VitalField = {
+  id: VitalId;
+  icon: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+};
+
+export type ClinicalCatalogue = {
+  diagnoses: DiagnosisOption[];
+  symptoms: SymptomOption[];
+  vitals: VitalField[];
+};
+
+// SpO2 below this is reported as hypoxaemia (WHO paediatric referral threshold)
+export const SPO2_THRESHOLD = 92;
+export const FEVER_THRESHOLD = 38;
+
+export const CLINICAL_CATALOGUE: ClinicalCatalogue = {
+  diagnoses: [
+    { id: "Normal", icon: "✅", color: "green" },
+    { id: "Pneumonia", icon: "⚠️", color: "red" },
+    { id: "Bronchiolitis", icon: "🫁", color: "orange" },
+    { id: "Asthma", icon: "🌬️", color: "blue" },
+    { id: "PleuralEffusion", icon: "💧", color: "teal" },
+    { id: "Tuberculosis", icon: "🦠", color: "purple" },
+  ],
+  symptoms: [
+    { id: "fever", icon: "🌡️", color: "red", trigger: { vital: "temperature", atLeast: FEVER_THRESHOLD } },
+    { id: "dyspnea", icon: "💨", color: "blue" },
+    { id: "cough", icon: "🤧", color: "orange" },
+    { id: "wheezing", icon: "🎵", color: "purple" },
+    { id: "chest_pain", icon: "💢", color: "amber" },
+    { id: "tachypnea", icon: "⏱️", color: "teal" },
+    { id: "chest_indrawing", icon: "↘️", color: "orange" },
+    { id: "hypoxemia", icon: "🩸", color: "red", trigger: { vital: "spo2", below: SPO2_THRESHOLD } },
+  ],
+  vitals: [
+    { id: "temperature", icon: "🌡️", unit: "°C", min: 30, max: 43, step: 0.1 },
+    { id: "respiratory_rate", icon: "🫁", unit: "/min", min: 5, max: 120, step: 1 },
+    { id: "spo2", icon: "🩸", unit: "%", min: 50, max: 100, step: 1 },
+  ],
+};
+
+// What the clinician enters in the form and we send as `clinical_info`
+export type ClinicalInfo = {
+  initial_diagnosis: string;
+  symptoms: string[];
+  vitals?: Partial<Record<VitalId, number>>;
+  patient?: PatientContext;
+};
+
+export const EMPTY_CLINICAL_INFO: ClinicalInfo = { initial_diagnosis: "", symptoms: [] };
+
+export class ClinicalInfoError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(
+      `Invalid clinical info: ${issues.map((issue) => `${issue.path}: ${issue.message}`).join("; ")}`
+    );
+    this.name = "ClinicalInfoError";
+    this.issues = issues;
+  }
+}
+
+export const buildClinicalInfoSchema = (catalogue: ClinicalCatalogue) => {
+  const diagnosisIds = catalogue.diagnoses.map((d) => d.id);
+  const symptomIds = catalogue.symptoms.map((s) => s.id);
+  const vitalShape = Object.fromEntries(
+    catalogue.vitals.map((vital) => [
+      vital.id,
+      z.number().finite().min(vital.min).max(vital.max).optional(),
+    ])
+  );
+
+  return z.object({
+    initial_diagnosis: z
+      .string()
+      .refine((value) => value === "" || diagnosisIds.includes(value), "Unknown diagnosis"),
+    symptoms: z.array(
+      z.string().refine((value) => symptomIds.includes(value), "Unknown symptom")
+    ),
+    vitals: z.object(vitalShape).strict().optional(),
+    patient: patientContextSchema.optional(),
+  });
+};
+
+// Analyses saved before the patient context existed kept the age among the vitals
+export const upgradeClinicalInfo = (info: ClinicalInfo): ClinicalInfo => {
+  const { age_months: ageMonths, ...vitals } = (info.vitals ?? {}) as Record<string, number | undefined>;
+  if (ageMonths === undefined) return info;
+  return { ...info, vitals, patient: { age: { value: ageMonths, unit: "months" }, ...info.patient } };
+};
+
+export const isVitalInRange = (field: VitalField, value: number | undefined) =>
+  value === undefined || (Number.isFinite(value) && value >= field.min && value <= field.max);
+
+// Symptoms implied by the entered vitals (e.g. SpO2 below the threshold)
+export const getTriggeredSymptoms = (
+  vitals: ClinicalInfo["vitals"],
+  catalogue: ClinicalCatalogue = CLINICAL_CATALOGUE
+) =>
+  catalogue.symptoms
+    .filter(({ trigger }) => {
+      const value = trigger && vitals?.[trigger.vital];
+      if (!trigger || value === undefined) return false;
+      return (
+        (trigger.atLeast !== undefined && value >= trigger.atLeast) ||
+        (trigger.below !== undefined && value < trigger.below)
+      );
+    })
+    .map((symptom) => symptom.id);
+
+// Validates against the catalogue, merges triggered symptoms and drops empty vitals
+// and patient fields. Throws ClinicalInfoError listing every invalid field.
+export const normalizeClinicalInfo = (
+  info: ClinicalInfo,
+  catalogue: ClinicalCatalogue = CLINICAL_CATALOGUE
+): ClinicalInfo => {
+  const upgraded = upgradeClinicalInfo(info);
+  const result = buildClinicalInfoSchema(catalogue).safeParse({
+    ...upgraded,
+    patient: compactPatientContext(upgraded.patient),
+  });
+  if (!result.success) {
+    throw new ClinicalInfoError(
+      result.error.issues.map((issue) => ({
+        path: ["clinical_info", ...issue.path].join("."),
+        message: issue.message,
+      }))
+    );
+  }
+
+  const { vitals, patient, ...rest } = result.data;
+  const symptoms = [...new Set([...rest.symptoms, ...getTriggeredSymptoms(vitals, catalogue)])];
+  const hasVitals = vitals && Object.values(vitals).some((value) => value !== undefined);
+  return { ...rest, symptoms, ...(hasVitals ? { vitals } : {}), ...(patient ? { patient } : {}) };
+};
+
+export const serializeClinicalInfo = (info: ClinicalInfo, catalogue?: ClinicalCatalogue) =>
+  JSON.stringify(normalizeClinicalInfo(info, catalogue));
+
+// "Temperature 38.5 °C"-style entries in catalogue order; unknown keys are listed as sent
+export const describeVitals = (
+  vitals: Partial<Record<string, number>> | undefined,
+  { tOr }: Pick<Translator, "tOr">,
+  catalogue: ClinicalCatalogue = CLINICAL_CATALOGUE
+) => {
+  if (!vitals) return [];
+  const known = catalogue.vitals
+    .filter((field) => vitals[field.id] !== undefined)
+    .map(
+      (field) =>
+        `${tOr(`vital.${field.id}.label`, field.id)} ${vitals[field.id]} ${tOr(`vital.${field.id}.unit`, field.unit)}`
+    );
+  const unknown = Object.entries(vitals)
+    .filter(([key]) => !catalogue.vitals.some((field) => field.id === key))
+    .map(([key, value]) => `${key} ${value}`);
+  return [...known, ...unknown];
+};
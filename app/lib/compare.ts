@@ -0,0 +1,72 @@
+import type { AnalyzePipeline, AnalyzeResponse } from "./analyze";
+
+// Side-by-side evaluation of the standard and optimized pipelines on the same
+// image and clinical info. Deltas are always `optimized - standard`.
+
+// What the analyze form runs: one pipeline, or both for comparison
+export type AnalyzeMode = AnalyzePipeline | "compare";
+
+// Label score differences at or above this are highlighted
+export const SCORE_DELTA_THRESHOLD = 0.05;
+
+export type NumberDelta = {
+  standard?: number;
+  optimized?: number;
+  delta?: number;
+};
+
+export type LabelDelta = NumberDelta & { label: string };
+
+export type PipelineComparison = {
+  predictedClass: { standard: string; optimized: string; changed: boolean };
+  confidence: NumberDelta;
+  // Milliseconds, as reported in performance_metrics.total_processing_time
+  processingTime: NumberDelta;
+  costUsd: NumberDelta;
+  // Every label reported by either pipeline, largest absolute change first
+  labels: LabelDelta[];
+  warnings: { standard: number; optimized: number };
+};
+
+const numberDelta = (standard?: number, optimized?: number): NumberDelta => ({
+  standard,
+  optimized,
+  delta: standard !== undefined && optimized !== undefined ? optimized - standard : undefined,
+});
+
+export const compareResponses = (
+  standard: AnalyzeResponse,
+  optimized: AnalyzeResponse
+): PipelineComparison => {
+  const scores = (response: AnalyzeResponse) =>
+    new Map(response.data.allMultiLabelScores.map((item) => [item.label, item.score]));
+  const standardScores = scores(standard);
+  const optimizedScores = scores(optimized);
+  const labels = [...new Set([...standardScores.keys(), ...optimizedScores.keys()])]
+    .map((label) => ({ label, ...numberDelta(standardScores.get(label), optimizedScores.get(label)) }))
+    .sort((a, b) => Math.abs(b.delta ?? 0) - Math.abs(a.delta ?? 0));
+
+  const metrics = (response: AnalyzeResponse) => response.data.enhanced_analysis?.performance_metrics;
+
+  return {
+    predictedClass: {
+      standard: standard.data.predictedClass,
+      optimized: optimized.data.predictedClass,
+      changed: standard.data.predictedClass !== optimized.data.predictedClass,
+    },
+    confidence: numberDelta(standard.data.confidence, optimized.data.confidence),
+    processingTime: numberDelta(
+      metrics(standard)?.total_processing_time,
+      metrics(optimized)?.total_processing_time
+    ),
+    costUsd: numberDelta(metrics(standard)?.total_cost_usd, metrics(optimized)?.total_cost_usd),
+    labels,
+    warnings: {
+      standard: standard.data.warnings?.length ?? 0,
+      optimized: optimized.data.warnings?.length ?? 0,
+    },
+  };
+};
+
+export const isNotableDelta = (delta: number | undefined) =>
+  delta !== undefined && Math.abs(delta) >= SCORE_DELTA_THRESHOLD;
@@ -0,0 +1,62 @@
+// Backend endpoints and credentials, read from the server environment so that
+// staging can point at a local mock without rebuilding the client.
+
+const DEFAULT_ANALYZE_API_URL = "https://xray-diagnosis-ai.onrender.com/api";
+const DEFAULT_EIGENCAM_API_URL = "https://xray-diagnosis-gradcam.onrender.com/v2";
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+const trimSlash = (url: string) => url.replace(/\/+$/, "");
+
+const isFlagSet = (value: string | undefined) => ["1", "true"].includes(value ?? "");
+
+export const getBackendConfig = () => {
+  const timeout = Number(process.env.BACKEND_TIMEOUT_MS);
+  const mockBackend = isFlagSet(process.env.MOCK_BACKEND);
+  return {
+    analyzeApiUrl: trimSlash(process.env.ANALYZE_API_URL || DEFAULT_ANALYZE_API_URL),
+    eigencamApiUrl: trimSlash(process.env.EIGENCAM_API_URL || DEFAULT_EIGENCAM_API_URL),
+    // Sent as "Authorization: Bearer <key>" when set
+    apiKey: process.env.BACKEND_API_KEY || undefined,
+    timeoutMs: Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_TIMEOUT_MS,
+    // Where /api/feedback relays clinician feedback; feedback stays local when unset
+    feedbackApiUrl: process.env.FEEDBACK_API_URL ? trimSlash(process.env.FEEDBACK_API_URL) : undefined,
+    // Answer /api/* from the in-process fixtures instead of the real services
+    mockBackend,
+    // Serve the fixtures over HTTP at /mock/*, so ANALYZE_API_URL / EIGENCAM_API_URL can
+    // point at them and the real proxy path is exercised (MOCK_BACKEND would bypass it)
+    mockHttp: mockBackend || isFlagSet(process.env.MOCK_HTTP),
+  };
+};
+
+export const getAuthConfig = () => {
+  const oidcIssuer = process.env.OIDC_ISSUER ? trimSlash(process.env.OIDC_ISSUER) : undefined;
+  const { mockBackend, mockHttp } = getBackendConfig();
+  return {
+    // Signs the session cookie; required in production
+    sessionSecret: process.env.SESSION_SECRET || undefined,
+    // JSON list of local accounts (see ~/lib/users.server.ts)
+    usersFile: process.env.AUTH_USERS_FILE || "users.json",
+    // Demo accounts when there is no users file. MOCK_HTTP alone may be set on a
+    // deployed proxy, so it only enables them outside production.
+    demoAccounts: mockBackend || (mockHttp && process.env.NODE_ENV !== "production"),
+    // Optional single sign-on; enabled when issuer, client ID and secret are all set
+    oidc:
+      oidcIssuer && process.env.OIDC_CLIENT_ID && process.env.OIDC_CLIENT_SECRET
+        ? {
+            issuer: oidcIssuer,
+            clientId: process.env.OIDC_CLIENT_ID,
+            clientSecret: process.env.OIDC_CLIENT_SECRET,
+            // Claim holding the role name(s); users without a known role get `defaultRole`
+            roleClaim: process.env.OIDC_ROLE_CLAIM || "roles",
+            defaultRole: process.env.OIDC_DEFAULT_ROLE || "clinician",
+            // Defaults to <origin>/auth/oidc/callback of the incoming request
+            redirectUri: process.env.OIDC_REDIRECT_URI || undefined,
+          }
+        : undefined,
+  };
+};
+
+export const getAuditConfig = () => ({
+  // Append-only JSONL audit log (see ~/lib/audit.server.ts)
+  logFile: process.env.AUDIT_LOG_FILE || "audit-log.jsonl",
+});
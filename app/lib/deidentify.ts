@@ -0,0 +1,256 @@
+import { getString, type DicomDataSet } from "./dicom";
+import type { Translator } from "./i18n";
+
+// De-identification applied by prepareUpload before anything is posted to the
+// analyze API (and from there to Cloudinary):
+//
+// - DICOM: only the rendered pixels are uploaded, so no tag ever leaves the
+//   browser. The profile decides what we keep locally: "strip" drops every
+//   identifying attribute, "pseudonymize" replaces the Patient ID with a stable
+//   pseudonym and keeps age and sex. The upload is renamed either way, since
+//   DICOM file names often carry accession numbers or patient names.
+// - PNG/JPEG: the pixels are always re-encoded through a canvas, which drops
+//   EXIF, XMP, IPTC, comments, text chunks and any other segment or chunk, and
+//   the upload is renamed too.
+// - Optionally, bands along the image edges are blacked out to hide burned-in
+//   text (name, date of birth, hospital number) that metadata scrubbing can't reach.
+
+export type DicomProfile = "strip" | "pseudonymize";
+
+export const DICOM_PROFILES: DicomProfile[] = ["strip", "pseudonymize"];
+
+export type DeidentifySettings = {
+  dicomProfile: DicomProfile;
+  blackoutEdges: boolean;
+};
+
+export const DEFAULT_DEIDENTIFY_SETTINGS: DeidentifySettings = {
+  dicomProfile: "strip",
+  blackoutEdges: false,
+};
+
+export type ImageMetadataKind = "exif" | "xmp" | "iptc" | "comment" | "text";
+
+// What was removed from one upload, shown to the user before they submit
+export type DeidentificationReport = {
+  // Metadata blocks found in the PNG/JPEG and dropped by re-encoding
+  metadata: ImageMetadataKind[];
+  // Keywords of the identifying DICOM attributes that had a value
+  dicomTags: string[];
+  // "pseudonymize" profile only
+  pseudonym?: string;
+  patientAge?: string;
+  patientSex?: string;
+  // The DICOM header says text is burned into the pixels
+  burnedInAnnotation: boolean;
+  blackedOutEdges: boolean;
+  // The upload no longer carries the original file name
+  renamed: boolean;
+};
+
+// Patient and study attributes from the DICOM basic de-identification profile (PS3.15 E.1)
+export const IDENTIFYING_TAGS: Record<string, string> = {
+  "00080018": "SOPInstanceUID",
+  "00080020": "StudyDate",
+  "00080021": "SeriesDate",
+  "00080030": "StudyTime",
+  "00080050": "AccessionNumber",
+  "00080080": "InstitutionName",
+  "00080081": "InstitutionAddress",
+  "00080090": "ReferringPhysicianName",
+  "00081040": "InstitutionalDepartmentName",
+  "00081050": "PerformingPhysicianName",
+  "00081070": "OperatorsName",
+  "00100010": "PatientName",
+  "00100020": "PatientID",
+  "00100030": "PatientBirthDate",
+  "00100040": "PatientSex",
+  "00101000": "OtherPatientIDs",
+  "00101001": "OtherPatientNames",
+  "00101010": "PatientAge",
+  "00101040": "PatientAddress",
+  "00102154": "PatientTelephoneNumbers",
+  "00104000": "PatientComments",
+  "00181000": "DeviceSerialNumber",
+  "0020000D": "StudyInstanceUID",
+  "0020000E": "SeriesInstanceUID",
+  "00200010": "StudyID",
+  "00321032": "RequestingPhysician",
+};
+
+const PATIENT_ID = "00100020";
+const PATIENT_AGE = "00101010";
+const PATIENT_SEX = "00100040";
+const BURNED_IN_ANNOTATION = "00280301";
+
+// Share of the width/height blacked out along each edge
+export const EDGE_BLACKOUT_FRACTION = 0.06;
+
+const STORAGE_KEY = "xray-ui.deidentify";
+const SALT_KEY = "xray-ui.deidentify-salt";
+
+export const normalizeDeidentifySettings = (value: unknown): DeidentifySettings => {
+  const settings = value as Partial<DeidentifySettings> | null;
+  return {
+    dicomProfile: DICOM_PROFILES.includes(settings?.dicomProfile as DicomProfile)
+      ? (settings?.dicomProfile as DicomProfile)
+      : DEFAULT_DEIDENTIFY_SETTINGS.dicomProfile,
+    blackoutEdges: settings?.blackoutEdges === true,
+  };
+};
+
+export const loadDeidentifySettings = (): DeidentifySettings => {
+  if (typeof localStorage === "undefined") return DEFAULT_DEIDENTIFY_SETTINGS;
+  try {
+    return normalizeDeidentifySettings(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null"));
+  } catch {
+    return DEFAULT_DEIDENTIFY_SETTINGS;
+  }
+};
+
+export const saveDeidentifySettings = (settings: DeidentifySettings) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+
+// Random per-browser salt, so a pseudonym can't be reversed by hashing known IDs
+const getSalt = () => {
+  let salt = localStorage.getItem(SALT_KEY);
+  if (!salt) {
+    salt = Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) => b.toString(16).padStart(2, "0")).join("");
+    localStorage.setItem(SALT_KEY, salt);
+  }
+  return salt;
+};
+
+// The same Patient ID always gives the same pseudonym on this browser
+export const pseudonymize = async (patientId: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${getSalt()}:${patientId}`));
+  const hex = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+  return `ANON-${hex.slice(0, 10).toUpperCase()}`;
+};
+
+export const deidentifyDicom = async (
+  dataSet: DicomDataSet,
+  profile: DicomProfile
+): Promise<Pick<DeidentificationReport, "dicomTags" | "pseudonym" | "patientAge" | "patientSex" | "burnedInAnnotation">> => {
+  const dicomTags = Object.entries(IDENTIFYING_TAGS)
+    .filter(([tag]) => (dataSet.elements.get(tag)?.length ?? 0) > 0)
+    .map(([, keyword]) => keyword);
+  const burnedInAnnotation = getString(dataSet, BURNED_IN_ANNOTATION)?.toUpperCase() === "YES";
+  if (profile === "strip") return { dicomTags, burnedInAnnotation };
+
+  const patientId = getString(dataSet, PATIENT_ID);
+  return {
+    dicomTags,
+    burnedInAnnotation,
+    pseudonym: patientId ? await pseudonymize(patientId) : undefined,
+    patientAge: getString(dataSet, PATIENT_AGE) || undefined,
+    patientSex: getString(dataSet, PATIENT_SEX) || undefined,
+  };
+};
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+// JPEG: APP1 (Exif or XMP), APP13 (IPTC) and COM segments before the scan data
+const findJpegMetadata = (bytes: Uint8Array) => {
+  const found = new Set<ImageMetadataKind>();
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: only entropy-coded data follows
+    if (marker === 0xda) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker === 0xe1) {
+      const header = ascii(bytes, offset + 4, 29);
+      if (header.startsWith("Exif")) found.add("exif");
+      else if (header.startsWith("http://ns.adobe.com/xap")) found.add("xmp");
+    } else if (marker === 0xed) {
+      found.add("iptc");
+    } else if (marker === 0xfe) {
+      found.add("comment");
+    }
+    offset += 2 + length;
+  }
+  return found;
+};
+
+// PNG: eXIf and the tEXt/zTXt/iTXt chunks (iTXt also carries XMP)
+const findPngMetadata = (bytes: Uint8Array) => {
+  const found = new Set<ImageMetadataKind>();
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    if (type === "IEND") break;
+    if (type === "eXIf") found.add("exif");
+    else if (type === "iTXt" && ascii(bytes, offset + 8, 17) === "XML:com.adobe.xmp") found.add("xmp");
+    else if (type === "tEXt" || type === "zTXt" || type === "iTXt") found.add("text");
+    offset += 12 + length;
+  }
+  return found;
+};
+
+export const findImageMetadata = async (file: Blob): Promise<ImageMetadataKind[]> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return [...findJpegMetadata(bytes)];
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) return [...findPngMetadata(bytes)];
+  return [];
+};
+
+// Redraws the decoded pixels (optionally with the edges blacked out) and encodes
+// them again in the same format, which leaves every metadata block behind
+export const scrubImage = async (
+  file: File,
+  img: HTMLImageElement,
+  type: "image/png" | "image/jpeg",
+  blackoutEdges: boolean
+): Promise<File> => {
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  ctx.drawImage(img, 0, 0);
+
+  if (blackoutEdges) {
+    const bandX = Math.round(canvas.width * EDGE_BLACKOUT_FRACTION);
+    const bandY = Math.round(canvas.height * EDGE_BLACKOUT_FRACTION);
+    ctx.fillStyle = "#000";
+    ctx.fillRect(0, 0, canvas.width, bandY);
+    ctx.fillRect(0, canvas.height - bandY, canvas.width, bandY);
+    ctx.fillRect(0, 0, bandX, canvas.height);
+    ctx.fillRect(canvas.width - bandX, 0, bandX, canvas.height);
+  }
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, type, type === "image/jpeg" ? 0.92 : undefined)
+  );
+  // Sending the original would leak what we promised to remove
+  if (!blob) throw new Error("Could not re-encode the image");
+  return new File([blob], file.name, { type, lastModified: Date.now() });
+};
+
+// One line per thing that was removed or replaced, for the upload confirmation
+export const describeDeidentification = (report: DeidentificationReport, { t }: Pick<Translator, "t">) => {
+  const lines: string[] = [];
+  if (report.metadata.length) {
+    lines.push(
+      t("deidentify.removed.metadata", {
+        kinds: report.metadata.map((kind) => t(`deidentify.metadata.${kind}`)).join(", "),
+      })
+    );
+  }
+  if (report.dicomTags.length) {
+    lines.push(t("deidentify.removed.dicomTags", { count: report.dicomTags.length, tags: report.dicomTags.join(", ") }));
+  }
+  if (report.pseudonym) lines.push(t("deidentify.removed.pseudonym", { pseudonym: report.pseudonym }));
+  if (report.patientAge || report.patientSex) {
+    lines.push(t("deidentify.kept", { age: report.patientAge ?? "—", sex: report.patientSex ?? "—" }));
+  }
+  if (report.renamed) lines.push(t("deidentify.removed.fileName"));
+  if (report.blackedOutEdges) {
+    lines.push(t("deidentify.removed.edges", { percent: Math.round(EDGE_BLACKOUT_FRACTION * 100) }));
+  }
+  return lines;
+};
@@ -0,0 +1,627 @@
+// Minimal DICOM Part 10 reader that runs entirely in the browser.
+// It only understands what we need to turn a single chest X-ray into a
+// PNG/JPEG for the analyze endpoint: the file meta header, the image pixel
+// module, the modality LUT (Rescale Slope/Intercept) and the VOI window.
+
+export const TRANSFER_SYNTAX = {
+  ImplicitVRLittleEndian: "1.2.840.10008.1.2",
+  ExplicitVRLittleEndian: "1.2.840.10008.1.2.1",
+  DeflatedExplicitVRLittleEndian: "1.2.840.10008.1.2.1.99",
+  ExplicitVRBigEndian: "1.2.840.10008.1.2.2",
+  JPEGBaseline: "1.2.840.10008.1.2.4.50",
+  RLELossless: "1.2.840.10008.1.2.5",
+} as const;
+
+export const TAGS = {
+  TransferSyntaxUID: "00020010",
+  SamplesPerPixel: "00280002",
+  PhotometricInterpretation: "00280004",
+  PlanarConfiguration: "00280006",
+  NumberOfFrames: "00280008",
+  Rows: "00280010",
+  Columns: "00280011",
+  BitsAllocated: "00280100",
+  BitsStored: "00280101",
+  PixelRepresentation: "00280103",
+  WindowCenter: "00281050",
+  WindowWidth: "00281051",
+  RescaleIntercept: "00281052",
+  RescaleSlope: "00281053",
+  PixelData: "7FE00010",
+} as const;
+
+// VRs whose length field is 4 bytes (preceded by 2 reserved bytes) in explicit VR encodings
+const LONG_VRS = new Set(["OB", "OD", "OF", "OL", "OV", "OW", "SQ", "SV", "UC", "UN", "UR", "UT", "UV"]);
+const UNDEFINED_LENGTH = 0xffffffff;
+const ITEM = "FFFEE000";
+const ITEM_DELIMITATION = "FFFEE00D";
+const SEQUENCE_DELIMITATION = "FFFEE0DD";
+
+export class DicomError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DicomError";
+  }
+}
+
+export type DicomElement = {
+  tag: string;
+  vr?: string;
+  // Byte offset of the value inside `DicomDataSet.bytes`
+  offset: number;
+  length: number;
+  // Encapsulated pixel data fragments (offset/length pairs), basic offset table excluded
+  fragments?: { offset: number; length: number }[];
+  basicOffsetTable?: number[];
+};
+
+export type DicomDataSet = {
+  transferSyntaxUID: string;
+  littleEndian: boolean;
+  bytes: Uint8Array;
+  elements: Map<string, DicomElement>;
+};
+
+export type DicomImage = {
+  rows: number;
+  columns: number;
+  photometricInterpretation: string;
+  // Grayscale images: modality values (after Rescale Slope/Intercept), one per pixel.
+  // Colour images: interleaved RGB, 0-255.
+  pixels: Float32Array | Uint8ClampedArray;
+  isColor: boolean;
+  minValue: number;
+  maxValue: number;
+  windowCenter?: number;
+  windowWidth?: number;
+};
+
+type Cursor = {
+  view: DataView;
+  explicit: boolean;
+  littleEndian: boolean;
+};
+
+const tagAt = (view: DataView, offset: number, littleEndian: boolean) => {
+  const group = view.getUint16(offset, littleEndian);
+  const element = view.getUint16(offset + 2, littleEndian);
+  return (
+    group.toString(16).padStart(4, "0") + element.toString(16).padStart(4, "0")
+  ).toUpperCase();
+};
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) => {
+  let text = "";
+  for (let i = 0; i < length; i++) text += String.fromCharCode(bytes[offset + i]);
+  return text;
+};
+
+// Reads one element header at `offset` and returns the element plus the offset of the next one.
+// Values of undefined length (sequences, encapsulated pixel data) are walked so the caller
+// can continue after them.
+const readElement = (
+  cursor: Cursor,
+  bytes: Uint8Array,
+  offset: number
+): { element: DicomElement; next: number } => {
+  const { view } = cursor;
+  // Item and delimitation tags are always implicit, even in explicit VR data sets
+  const tag = tagAt(view, offset, cursor.littleEndian);
+  const isItemTag = tag.startsWith("FFFE");
+
+  let vr: string | undefined;
+  let length: number;
+  let valueOffset: number;
+
+  if (cursor.explicit && !isItemTag) {
+    vr = readAscii(bytes, offset + 4, 2);
+    if (LONG_VRS.has(vr)) {
+      length = view.getUint32(offset + 8, cursor.littleEndian);
+      valueOffset = offset + 12;
+    } else {
+      length = view.getUint16(offset + 6, cursor.littleEndian);
+      valueOffset = offset + 8;
+    }
+  } else {
+    length = view.getUint32(offset + 4, cursor.littleEndian);
+    valueOffset = offset + 8;
+  }
+
+  const element: DicomElement = { tag, vr, offset: valueOffset, length };
+
+  if (length !== UNDEFINED_LENGTH) {
+    return { element, next: valueOffset + length };
+  }
+
+  if (tag === TAGS.PixelData) {
+    return readEncapsulatedPixelData(cursor, element);
+  }
+
+  // Undefined length sequence: walk items until the sequence delimiter
+  let position = valueOffset;
+  while (position < bytes.length) {
+    const itemTag = tagAt(view, position, cursor.littleEndian);
+    const itemLength = view.getUint32(position + 4, cursor.littleEndian);
+    position += 8;
+    if (itemTag === SEQUENCE_DELIMITATION) break;
+    if (itemTag !== ITEM) {
+      throw new DicomError(`Unexpected tag ${itemTag} inside sequence ${tag}`);
+    }
+    if (itemLength !== UNDEFINED_LENGTH) {
+      position += itemLength;
+      continue;
+    }
+    // Undefined length item: walk nested elements until the item delimiter
+    while (position < bytes.length) {
+      if (tagAt(view, position, cursor.littleEndian) === ITEM_DELIMITATION) {
+        position += 8;
+        break;
+      }
+      position = readElement(cursor, bytes, position).next;
+    }
+  }
+
+  element.length = position - valueOffset;
+  return { element, next: position };
+};
+
+const readEncapsulatedPixelData = (cursor: Cursor, element: DicomElement) => {
+  const { view } = cursor;
+  const fragments: { offset: number; length: number }[] = [];
+  let basicOffsetTable: number[] = [];
+  let position = element.offset;
+  let first = true;
+
+  while (position + 8 <= view.byteLength) {
+    const tag = tagAt(view, position, cursor.littleEndian);
+    const length = view.getUint32(position + 4, cursor.littleEndian);
+    position += 8;
+    if (tag === SEQUENCE_DELIMITATION) break;
+    if (tag !== ITEM) {
+      throw new DicomError(`Unexpected tag ${tag} inside encapsulated pixel data`);
+    }
+    if (first) {
+      basicOffsetTable = Array.from({ length: length / 4 }, (_, i) =>
+        view.getUint32(position + i * 4, cursor.littleEndian)
+      );
+      first = false;
+    } else {
+      fragments.push({ offset: position, length });
+    }
+    position += length;
+  }
+
+  return {
+    element: {
+      ...element,
+      length: position - element.offset,
+      fragments,
+      basicOffsetTable,
+    },
+    next: position,
+  };
+};
+
+const readDataSet = (
+  cursor: Cursor,
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  elements: Map<string, DicomElement>
+) => {
+  let offset = start;
+  while (offset + 8 <= end) {
+    const { element, next } = readElement(cursor, bytes, offset);
+    elements.set(element.tag, element);
+    offset = next;
+  }
+  return offset;
+};
+
+const inflate = async (bytes: Uint8Array) => {
+  if (typeof DecompressionStream === "undefined") {
+    throw new DicomError("Deflated transfer syntax is not supported by this browser");
+  }
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Checks the "DICM" magic after the 128-byte preamble
+export const hasDicomMagic = (buffer: ArrayBuffer) =>
+  buffer.byteLength >= 132 && readAscii(new Uint8Array(buffer), 128, 4) === "DICM";
+
+export const isDicomFile = async (file: File) => {
+  if (/\.(dcm|dicom)$/i.test(file.name) || file.type === "application/dicom") return true;
+  return hasDicomMagic(await file.slice(0, 132).arrayBuffer());
+};
+
+export const parseDicom = async (buffer: ArrayBuffer): Promise<DicomDataSet> => {
+  let bytes = new Uint8Array(buffer);
+  const elements = new Map<string, DicomElement>();
+
+  // Files without the Part 10 preamble are assumed to be a bare implicit VR little endian data set
+  if (!hasDicomMagic(buffer)) {
+    const cursor = { view: new DataView(buffer), explicit: false, littleEndian: true };
+    readDataSet(cursor, bytes, 0, bytes.length, elements);
+    return {
+      transferSyntaxUID: TRANSFER_SYNTAX.ImplicitVRLittleEndian,
+      littleEndian: true,
+      bytes,
+      elements,
+    };
+  }
+
+  // File meta information (group 0002) is always explicit VR little endian
+  const metaCursor = { view: new DataView(buffer), explicit: true, littleEndian: true };
+  let offset = 132;
+  while (offset + 8 <= bytes.length && tagAt(metaCursor.view, offset, true).startsWith("0002")) {
+    const { element, next } = readElement(metaCursor, bytes, offset);
+    elements.set(element.tag, element);
+    offset = next;
+  }
+
+  const syntaxElement = elements.get(TAGS.TransferSyntaxUID);
+  const transferSyntaxUID = syntaxElement
+    ? readAscii(bytes, syntaxElement.offset, syntaxElement.length).replace(/[\0\s]+$/, "")
+    : TRANSFER_SYNTAX.ExplicitVRLittleEndian;
+
+  if (transferSyntaxUID === TRANSFER_SYNTAX.DeflatedExplicitVRLittleEndian) {
+    const inflated = await inflate(bytes.subarray(offset));
+    const merged = new Uint8Array(offset + inflated.length);
+    merged.set(bytes.subarray(0, offset));
+    merged.set(inflated, offset);
+    bytes = merged;
+  }
+
+  const littleEndian = transferSyntaxUID !== TRANSFER_SYNTAX.ExplicitVRBigEndian;
+  const cursor = {
+    view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+    explicit: transferSyntaxUID !== TRANSFER_SYNTAX.ImplicitVRLittleEndian,
+    littleEndian,
+  };
+  readDataSet(cursor, bytes, offset, bytes.length, elements);
+
+  return { transferSyntaxUID, littleEndian, bytes, elements };
+};
+
+export const getString = (dataSet: DicomDataSet, tag: string) => {
+  const element = dataSet.elements.get(tag);
+  if (!element) return undefined;
+  return readAscii(dataSet.bytes, element.offset, element.length).replace(/[\0\s]+$/, "").trim();
+};
+
+// Decimal/Integer String values, optionally multi-valued ("40\\400")
+export const getNumbers = (dataSet: DicomDataSet, tag: string) =>
+  (getString(dataSet, tag) ?? "")
+    .split("\\")
+    .map((value) => parseFloat(value))
+    .filter((value) => !isNaN(value));
+
+export const getUint16 = (dataSet: DicomDataSet, tag: string) => {
+  const element = dataSet.elements.get(tag);
+  if (!element || element.length < 2) return undefined;
+  const view = new DataView(dataSet.bytes.buffer, dataSet.bytes.byteOffset);
+  return view.getUint16(element.offset, dataSet.littleEndian);
+};
+
+// RLE Lossless (PS3.5 Annex G): a PackBits-style segment per byte plane
+const decodeRle = (frame: Uint8Array, pixelCount: number, bytesPerSample: number, samples: number) => {
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  const segmentCount = view.getUint32(0, true);
+  if (segmentCount !== bytesPerSample * samples) {
+    throw new DicomError(`RLE frame has ${segmentCount} segments, expected ${bytesPerSample * samples}`);
+  }
+  const offsets = Array.from({ length: segmentCount }, (_, i) => view.getUint32(4 + i * 4, true));
+  const output = new Uint8Array(pixelCount * bytesPerSample * samples);
+
+  for (let segment = 0; segment < segmentCount; segment++) {
+    const sample = Math.floor(segment / bytesPerSample);
+    // Segments are ordered most significant byte first; the output is little endian
+    const byteIndex = bytesPerSample - 1 - (segment % bytesPerSample);
+    const stride = bytesPerSample * samples;
+    let outIndex = sample * bytesPerSample + byteIndex;
+    let position = offsets[segment];
+    const end = segment + 1 < segmentCount ? offsets[segment + 1] : frame.length;
+    let written = 0;
+
+    while (position < end && written < pixelCount) {
+      const header = view.getInt8(position++);
+      if (header >= 0) {
+        for (let i = 0; i <= header && written < pixelCount; i++, written++) {
+          output[outIndex] = frame[position++];
+          outIndex += stride;
+        }
+      } else if (header !== -128) {
+        const value = frame[position++];
+        for (let i = 0; i < 1 - header && written < pixelCount; i++, written++) {
+          output[outIndex] = value;
+          outIndex += stride;
+        }
+      }
+    }
+  }
+  return output;
+};
+
+const decodeJpeg = async (frame: Uint8Array, rows: number, columns: number) => {
+  const bitmap = await createImageBitmap(new Blob([frame], { type: "image/jpeg" }));
+  const canvas = document.createElement("canvas");
+  canvas.width = columns;
+  canvas.height = rows;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new DicomError("Canvas 2D context is not available");
+  ctx.drawImage(bitmap, 0, 0, columns, rows);
+  bitmap.close();
+  return ctx.getImageData(0, 0, columns, rows).data;
+};
+
+// Returns the bytes of the first frame of encapsulated pixel data
+const firstFrame = (dataSet: DicomDataSet, element: DicomElement, frameCount: number) => {
+  const fragments = element.fragments ?? [];
+  if (fragments.length === 0) throw new DicomError("Encapsulated pixel data has no fragments");
+
+  let selected = fragments;
+  const table = element.basicOffsetTable ?? [];
+  if (frameCount > 1) {
+    if (table.length > 1) {
+      // Offsets are relative to the first fragment's item tag
+      const base = fragments[0].offset - 8;
+      selected = fragments.filter(
+        (fragment) => fragment.offset - 8 - base >= table[0] && fragment.offset - 8 - base < table[1]
+      );
+    } else if (fragments.length === frameCount) {
+      selected = [fragments[0]];
+    }
+  }
+
+  const size = selected.reduce((sum, fragment) => sum + fragment.length, 0);
+  const frame = new Uint8Array(size);
+  let position = 0;
+  for (const fragment of selected) {
+    frame.set(dataSet.bytes.subarray(fragment.offset, fragment.offset + fragment.length), position);
+    position += fragment.length;
+  }
+  return frame;
+};
+
+export const decodeDicomImage = async (dataSet: DicomDataSet): Promise<DicomImage> => {
+  const rows = getUint16(dataSet, TAGS.Rows);
+  const columns = getUint16(dataSet, TAGS.Columns);
+  const pixelElement = dataSet.elements.get(TAGS.PixelData);
+  if (!rows || !columns || !pixelElement) {
+    throw new DicomError("File does not contain image pixel data");
+  }
+
+  const samples = getUint16(dataSet, TAGS.SamplesPerPixel) ?? 1;
+  const bitsAllocated = getUint16(dataSet, TAGS.BitsAllocated) ?? 16;
+  const bitsStored = getUint16(dataSet, TAGS.BitsStored) ?? bitsAllocated;
+  const signed = getUint16(dataSet, TAGS.PixelRepresentation) === 1;
+  const planar = getUint16(dataSet, TAGS.PlanarConfiguration) === 1;
+  const frameCount = getNumbers(dataSet, TAGS.NumberOfFrames)[0] ?? 1;
+  const photometricInterpretation = getString(dataSet, TAGS.PhotometricInterpretation) ?? "MONOCHROME2";
+  const slope = getNumbers(dataSet, TAGS.RescaleSlope)[0] ?? 1;
+  const intercept = getNumbers(dataSet, TAGS.RescaleIntercept)[0] ?? 0;
+  const windowCenter = getNumbers(dataSet, TAGS.WindowCenter)[0];
+  const windowWidth = getNumbers(dataSet, TAGS.WindowWidth)[0];
+  const pixelCount = rows * columns;
+  const isColor = samples === 3;
+
+  if (samples !== 1 && samples !== 3) {
+    throw new DicomError(`Unsupported Samples per Pixel: ${samples}`);
+  }
+  if (photometricInterpretation === "PALETTE COLOR") {
+    throw new DicomError("PALETTE COLOR images are not supported");
+  }
+  if (bitsAllocated !== 8 && bitsAllocated !== 16 && bitsAllocated !== 32) {
+    throw new DicomError(`Unsupported Bits Allocated: ${bitsAllocated}`);
+  }
+
+  const { transferSyntaxUID } = dataSet;
+
+  // JPEG frames are decoded by the browser and come back as 8-bit RGBA
+  if (transferSyntaxUID === TRANSFER_SYNTAX.JPEGBaseline) {
+    const rgba = await decodeJpeg(firstFrame(dataSet, pixelElement, frameCount), rows, columns);
+    return fromRgba(rgba, { rows, columns, photometricInterpretation, isColor, slope, intercept, windowCenter, windowWidth });
+  }
+
+  let raw: Uint8Array;
+  let littleEndian = dataSet.littleEndian;
+  if (transferSyntaxUID === TRANSFER_SYNTAX.RLELossless) {
+    raw = decodeRle(firstFrame(dataSet, pixelElement, frameCount), pixelCount, bitsAllocated / 8, samples);
+    littleEndian = true;
+  } else if (
+    transferSyntaxUID === TRANSFER_SYNTAX.ImplicitVRLittleEndian ||
+    transferSyntaxUID === TRANSFER_SYNTAX.ExplicitVRLittleEndian ||
+    transferSyntaxUID === TRANSFER_SYNTAX.DeflatedExplicitVRLittleEndian ||
+    transferSyntaxUID === TRANSFER_SYNTAX.ExplicitVRBigEndian
+  ) {
+    const frameBytes = (pixelCount * samples * bitsAllocated) / 8;
+    if (pixelElement.length < frameBytes) {
+      throw new DicomError("Pixel data is shorter than Rows × Columns");
+    }
+    raw = dataSet.bytes.subarray(pixelElement.offset, pixelElement.offset + frameBytes);
+  } else {
+    throw new DicomError(`Unsupported transfer syntax: ${transferSyntaxUID}`);
+  }
+
+  const view = new DataView(raw.buffer, raw.byteOffset, raw.byteLength);
+  const readSample = (index: number) => {
+    let value: number;
+    if (bitsAllocated === 8) value = raw[index];
+    else if (bitsAllocated === 16) value = view.getUint16(index * 2, littleEndian);
+    else value = view.getUint32(index * 4, littleEndian);
+    // Keep only Bits Stored and sign-extend when Pixel Representation is two's complement
+    if (bitsStored < 32) {
+      value &= (1 << bitsStored) - 1;
+      if (signed && value & (1 << (bitsStored - 1))) value -= 1 << bitsStored;
+    } else if (signed) {
+      value |= 0;
+    }
+    return value;
+  };
+
+  if (isColor) {
+    const pixels = new Uint8ClampedArray(pixelCount * 3);
+    const shift = Math.max(0, bitsStored - 8);
+    for (let i = 0; i < pixelCount; i++) {
+      for (let c = 0; c < 3; c++) {
+        const index = planar ? c * pixelCount + i : i * 3 + c;
+        pixels[i * 3 + c] = readSample(index) >> shift;
+      }
+    }
+    if (photometricInterpretation === "YBR_FULL") ybrToRgb(pixels);
+    return { rows, columns, photometricInterpretation, pixels, isColor, minValue: 0, maxValue: 255 };
+  }
+
+  const pixels = new Float32Array(pixelCount);
+  let minValue = Infinity;
+  let maxValue = -Infinity;
+  for (let i = 0; i < pixelCount; i++) {
+    const value = readSample(i) * slope + intercept;
+    pixels[i] = value;
+    if (value < minValue) minValue = value;
+    if (value > maxValue) maxValue = value;
+  }
+
+  return {
+    rows,
+    columns,
+    photometricInterpretation,
+    pixels,
+    isColor,
+    minValue,
+    maxValue,
+    windowCenter,
+    windowWidth: windowWidth && windowWidth >= 1 ? windowWidth : undefined,
+  };
+};
+
+const ybrToRgb = (pixels: Uint8ClampedArray) => {
+  for (let i = 0; i < pixels.length; i += 3) {
+    const y = pixels[i];
+    const cb = pixels[i + 1] - 128;
+    const cr = pixels[i + 2] - 128;
+    pixels[i] = y + 1.402 * cr;
+    pixels[i + 1] = y - 0.344136 * cb - 0.714136 * cr;
+    pixels[i + 2] = y + 1.772 * cb;
+  }
+};
+
+const fromRgba = (
+  rgba: Uint8ClampedArray,
+  options: {
+    rows: number;
+    columns: number;
+    photometricInterpretation: string;
+    isColor: boolean;
+    slope: number;
+    intercept: number;
+    windowCenter?: number;
+    windowWidth?: number;
+  }
+): DicomImage => {
+  const { rows, columns, photometricInterpretation, isColor, slope, intercept } = options;
+  const pixelCount = rows * columns;
+
+  if (isColor) {
+    const pixels = new Uint8ClampedArray(pixelCount * 3);
+    for (let i = 0; i < pixelCount; i++) {
+      pixels[i * 3] = rgba[i * 4];
+      pixels[i * 3 + 1] = rgba[i * 4 + 1];
+      pixels[i * 3 + 2] = rgba[i * 4 + 2];
+    }
+    return { rows, columns, photometricInterpretation, pixels, isColor, minValue: 0, maxValue: 255 };
+  }
+
+  const pixels = new Float32Array(pixelCount);
+  let minValue = Infinity;
+  let maxValue = -Infinity;
+  for (let i = 0; i < pixelCount; i++) {
+    const value = rgba[i * 4] * slope + intercept;
+    pixels[i] = value;
+    if (value < minValue) minValue = value;
+    if (value > maxValue) maxValue = value;
+  }
+  return {
+    rows,
+    columns,
+    photometricInterpretation,
+    pixels,
+    isColor,
+    minValue,
+    maxValue,
+    windowCenter: options.windowCenter,
+    windowWidth: options.windowWidth,
+  };
+};
+
+// Applies the VOI LUT (linear window, PS3.3 C.11.2.1.2) and returns displayable RGBA pixels.
+// Falls back to the full modality range when the file has no window.
+export const renderDicomImage = (
+  image: DicomImage,
+  window?: { center: number; width: number }
+): ImageData => {
+  const { rows, columns, pixels } = image;
+  const output = new ImageData(columns, rows);
+  const data = output.data;
+
+  if (image.isColor) {
+    for (let i = 0; i < rows * columns; i++) {
+      data[i * 4] = pixels[i * 3];
+      data[i * 4 + 1] = pixels[i * 3 + 1];
+      data[i * 4 + 2] = pixels[i * 3 + 2];
+      data[i * 4 + 3] = 255;
+    }
+    return output;
+  }
+
+  const center =
+    window?.center ?? image.windowCenter ?? (image.minValue + image.maxValue) / 2;
+  const width =
+    window?.width ?? image.windowWidth ?? Math.max(1, image.maxValue - image.minValue + 1);
+  const lower = center - 0.5 - (width - 1) / 2;
+  const upper = center - 0.5 + (width - 1) / 2;
+  const invert = image.photometricInterpretation === "MONOCHROME1";
+
+  for (let i = 0; i < rows * columns; i++) {
+    const value = pixels[i];
+    let gray: number;
+    if (value <= lower) gray = 0;
+    else if (value > upper) gray = 255;
+    else gray = ((value - (center - 0.5)) / Math.max(width - 1, 1) + 0.5) * 255;
+    if (invert) gray = 255 - gray;
+    data[i * 4] = gray;
+    data[i * 4 + 1] = gray;
+    data[i * 4 + 2] = gray;
+    data[i * 4 + 3] = 255;
+  }
+  return output;
+};
+
+// Parses a DICOM file and re-encodes its first frame as a PNG (or JPEG) the analyze API accepts
+export const convertDicomToImage = async (
+  file: File,
+  type: "image/png" | "image/jpeg" = "image/png"
+): Promise<{ file: File; image: DicomImage; dataSet: DicomDataSet }> => {
+  const dataSet = await parseDicom(await file.arrayBuffer());
+  const image = await decodeDicomImage(dataSet);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = image.columns;
+  canvas.height = image.rows;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new DicomError("Canvas 2D context is not available");
+  ctx.putImageData(renderDicomImage(image), 0, 0);
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, type, type === "image/jpeg" ? 0.92 : undefined)
+  );
+  if (!blob) throw new DicomError("Could not encode the rendered image");
+
+  const name = file.name.replace(/\.(dcm|dicom)$/i, "") + (type === "image/png" ? ".png" : ".jpg");
+  return {
+    file: new File([blob], name, { type, lastModified: Date.now() }),
+    image,
+    dataSet,
+  };
+};
@@ -0,0 +1,144 @@
+import type { AnalyzePipeline, AnalyzeResponse } from "./analyze";
+import { apiFetch } from "./api-client";
+import type { SessionUser } from "./auth";
+import { createId, FEEDBACK_STORE, withStore } from "./db";
+
+// Clinician review of a result: whether `predictedClass` was right, the correct
+// label when it wasn't, and per-finding corrections. Kept in IndexedDB next to
+// the history; exported as JSONL or posted to the feedback endpoint to build a
+// labelled dataset. Each record carries the prediction it reviews, so it stays
+// usable after the history entry is deleted.
+
+export type FeedbackVerdict = "agree" | "disagree" | "correct";
+
+export type Feedback = {
+  id: string;
+  historyId?: string;
+  createdAt: number;
+  updatedAt: number;
+  // Display name and account ID of the signed-in reviewer; records saved before
+  // sign-in existed have a typed name only
+  reviewer: string;
+  reviewerId?: string;
+  verdict: FeedbackVerdict;
+  // Ground-truth class: the prediction when agreeing, the chosen label when correcting
+  correctLabel?: string;
+  // Findings from allMultiLabelScores marked present (true) or absent (false)
+  labelCorrections: Record<string, boolean>;
+  note: string;
+  prediction: {
+    fileName: string;
+    pipeline: AnalyzePipeline;
+    predictedClass: string;
+    confidence?: number;
+    binaryProbabilities: Record<string, number>;
+    allMultiLabelScores: AnalyzeResponse["data"]["allMultiLabelScores"];
+    modelName?: string;
+    cloudinaryId?: string;
+  };
+  // Set once the endpoint accepted the record
+  syncedAt?: number;
+};
+
+export type FeedbackInput = Pick<Feedback, "verdict" | "labelCorrections" | "note"> & {
+  correctLabel?: string;
+};
+
+// The other class when disagreeing with a binary prediction; otherwise the explicit label
+export const resolveCorrectLabel = (
+  input: Pick<FeedbackInput, "verdict" | "correctLabel">,
+  response: AnalyzeResponse
+) => {
+  if (input.verdict === "agree") return response.data.predictedClass;
+  if (input.verdict === "correct") return input.correctLabel;
+  const others = response.data.classLabels.filter((label) => label !== response.data.predictedClass);
+  return others.length === 1 ? others[0] : undefined;
+};
+
+export const buildFeedback = (
+  input: FeedbackInput,
+  reviewer: SessionUser,
+  response: AnalyzeResponse,
+  context: { fileName: string; pipeline: AnalyzePipeline; historyId?: string | null },
+  previous?: Feedback
+): Feedback => {
+  const now = Date.now();
+  const { data } = response;
+  return {
+    id: previous?.id ?? createId(),
+    historyId: context.historyId ?? undefined,
+    createdAt: previous?.createdAt ?? now,
+    updatedAt: now,
+    reviewer: reviewer.name,
+    reviewerId: reviewer.id,
+    verdict: input.verdict,
+    correctLabel: resolveCorrectLabel(input, response),
+    labelCorrections: input.labelCorrections,
+    note: input.note.trim(),
+    prediction: {
+      fileName: context.fileName,
+      pipeline: context.pipeline,
+      predictedClass: data.predictedClass,
+      confidence: data.confidence,
+      binaryProbabilities: data.binaryProbabilities,
+      allMultiLabelScores: data.allMultiLabelScores,
+      modelName: data.modelName,
+      cloudinaryId: data.cloudinaryId,
+    },
+  };
+};
+
+export const saveFeedback = (feedback: Feedback) =>
+  withStore(FEEDBACK_STORE, "readwrite", (store) => store.put(feedback));
+
+export const listFeedback = async () => {
+  const records = await withStore<Feedback[]>(FEEDBACK_STORE, "readonly", (store) => store.getAll());
+  return records.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const getFeedbackForHistory = async (historyId: string) => {
+  const records = await withStore<Feedback[]>(FEEDBACK_STORE, "readonly", (store) =>
+    store.index("historyId").getAll(historyId)
+  );
+  return records[0];
+};
+
+// One JSON object per line, oldest first
+export const toJsonl = (records: Feedback[]) =>
+  records.map((record) => JSON.stringify(record)).join("\n") + (records.length ? "\n" : "");
+
+export const downloadFeedbackJsonl = async () => {
+  const records = await listFeedback();
+  const blob = new Blob([toJsonl(records)], { type: "application/x-ndjson" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `feedback-${new Date().toISOString().slice(0, 10)}.jsonl`;
+  link.click();
+  URL.revokeObjectURL(url);
+  return records.length;
+};
+
+// Posts to /api/feedback (which relays to FEEDBACK_API_URL) and marks the record synced
+export const sendFeedback = async (feedback: Feedback) => {
+  await apiFetch("/api/feedback", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(feedback),
+    timeoutMs: 30_000,
+  });
+  const synced = { ...feedback, syncedAt: Date.now() };
+  await saveFeedback(synced);
+  return synced;
+};
+
+// Retries every record the endpoint hasn't accepted yet; returns how many went through
+export const syncPendingFeedback = async () => {
+  const pending = (await listFeedback()).filter((record) => !record.syncedAt || record.syncedAt < record.updatedAt);
+  let sent = 0;
+  for (const record of pending) {
+    await sendFeedback(record);
+    sent++;
+  }
+  return sent;
+};
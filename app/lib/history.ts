@@ -0,0 +1,142 @@
+import type { AnalyzePipeline, AnalyzeResponse, ClinicalInfo } from "./analyze";
+import type { SessionUser } from "./auth";
+import { createId, HISTORY_STORE, withStore } from "./db";
+import { loadThresholdSettings, triageResult, type ThresholdSettings, type Triage } from "./thresholds";
+
+// Past analyses kept in the browser's IndexedDB so a case can be reopened later
+// in the shift. Nothing here is sent to the server.
+
+export type HistoryEntry = {
+  id: string;
+  createdAt: number;
+  fileName: string;
+  // Small JPEG data URL of the analysed image
+  thumbnail?: string;
+  pipeline: AnalyzePipeline;
+  clinicalInfo: ClinicalInfo;
+  response: AnalyzeResponse;
+  eigencamUrl?: string;
+  // Decision thresholds in effect when the analysis ran, and the triage they gave
+  thresholds?: ThresholdSettings;
+  triage?: Triage;
+  // Who ran the analysis
+  analyzedBy?: SessionUser;
+};
+
+export const saveHistoryEntry = (entry: HistoryEntry) =>
+  withStore(HISTORY_STORE, "readwrite", (store) => store.put(entry));
+
+export const getHistoryEntry = (id: string) =>
+  withStore<HistoryEntry | undefined>(HISTORY_STORE, "readonly", (store) => store.get(id));
+
+// Newest first
+export const listHistoryEntries = async () => {
+  const entries = await withStore<HistoryEntry[]>(HISTORY_STORE, "readonly", (store) => store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteHistoryEntry = (id: string) =>
+  withStore(HISTORY_STORE, "readwrite", (store) => store.delete(id));
+
+export const updateHistoryEntry = async (id: string, changes: Partial<HistoryEntry>) => {
+  const entry = await getHistoryEntry(id);
+  if (!entry) return;
+  await saveHistoryEntry({ ...entry, ...changes, id });
+};
+
+// Free-text search over file name, patient ID, diagnosis, symptoms, labels and warnings
+export const matchesHistorySearch = (entry: HistoryEntry, query: string) => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const { data } = entry.response;
+  const haystack = [
+    entry.fileName,
+    entry.pipeline,
+    data.predictedClass,
+    entry.triage?.level ?? "",
+    entry.analyzedBy?.name ?? "",
+    entry.clinicalInfo.initial_diagnosis,
+    ...entry.clinicalInfo.symptoms,
+    entry.clinicalInfo.patient?.patient_id ?? "",
+    entry.clinicalInfo.patient?.referring_department ?? "",
+    ...data.allMultiLabelScores.filter((item) => item.score > 0.5).map((item) => item.label),
+    ...(data.warnings ?? []),
+    new Date(entry.createdAt).toLocaleString("vi-VN"),
+  ]
+    .join(" ")
+    .toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+};
+
+export const patientIdOf = (entry: HistoryEntry) => entry.clinicalInfo.patient?.patient_id?.trim() || undefined;
+
+// When the image was taken: the entered study date, else when it was analysed
+export const studyTimeOf = (entry: HistoryEntry) => {
+  const studyDate = entry.clinicalInfo.patient?.study_date;
+  return studyDate ? Date.parse(`${studyDate}T00:00:00`) : entry.createdAt;
+};
+
+export type PatientHistoryGroup = {
+  // Undefined for the analyses entered without a patient ID
+  patientId?: string;
+  // Most recent study first
+  entries: HistoryEntry[];
+};
+
+// One group per patient ID, the most recently studied patient first; analyses
+// without an ID come last
+export const groupHistoryByPatient = (entries: HistoryEntry[]): PatientHistoryGroup[] => {
+  const groups = new Map<string | undefined, HistoryEntry[]>();
+  for (const entry of entries) {
+    const patientId = patientIdOf(entry);
+    groups.set(patientId, [...(groups.get(patientId) ?? []), entry]);
+  }
+  const byStudyTime = (a: HistoryEntry, b: HistoryEntry) =>
+    studyTimeOf(b) - studyTimeOf(a) || b.createdAt - a.createdAt;
+  return [...groups.entries()]
+    .map(([patientId, group]) => ({ patientId, entries: group.sort(byStudyTime) }))
+    .sort((a, b) => {
+      if (!a.patientId || !b.patientId) return a.patientId ? -1 : b.patientId ? 1 : 0;
+      return byStudyTime(a.entries[0], b.entries[0]);
+    });
+};
+
+// Large enough to compare serial studies side by side on the patient timeline
+export const createThumbnail = (file: Blob, maxSize = 384) =>
+  new Promise<string | undefined>((resolve) => {
+    const img = new Image();
+    const url = URL.createObjectURL(file);
+    img.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      canvas.getContext("2d")?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL("image/jpeg", 0.7));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      resolve(undefined);
+    };
+    img.src = url;
+  });
+
+// Stores a fresh analysis and returns its history id. The current threshold
+// settings are recorded with it.
+export const recordAnalysis = async (
+  entry: Omit<HistoryEntry, "id" | "createdAt" | "thumbnail" | "thresholds" | "triage">,
+  image: Blob
+) => {
+  const id = createId();
+  const thresholds = loadThresholdSettings();
+  await saveHistoryEntry({
+    ...entry,
+    id,
+    createdAt: Date.now(),
+    thumbnail: await createThumbnail(image),
+    thresholds,
+    triage: triageResult(entry.response, thresholds),
+  });
+  return id;
+};
@@ -0,0 +1,77 @@
+import { useMemo } from "react";
+import { useRouteLoaderData } from "@remix-run/react";
+import { en } from "~/locales/en";
+import { vi, type MessageKey } from "~/locales/vi";
+
+// Message lookup shared by the routes, components and the PDF report.
+// The active locale comes from the root loader (cookie), so server and client
+// render the same language.
+
+export const LOCALES = ["vi", "en"] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = "vi";
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  vi: "Tiếng Việt",
+  en: "English",
+};
+
+// BCP 47 tags for Intl date/number formatting
+const INTL_LOCALES: Record<Locale, string> = {
+  vi: "vi-VN",
+  en: "en-GB",
+};
+
+const catalogues: Record<Locale, Record<MessageKey, string>> = { vi, en };
+
+export type { MessageKey };
+export type MessageParams = Record<string, string | number>;
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === "string" && (LOCALES as readonly string[]).includes(value);
+
+const interpolate = (message: string, params?: MessageParams) =>
+  params
+    ? message.replace(/\{(\w+)\}/g, (match, name) =>
+        name in params ? String(params[name]) : match
+      )
+    : message;
+
+export const hasMessage = (key: string): key is MessageKey => key in vi;
+
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams) =>
+  interpolate(catalogues[locale][key] ?? vi[key] ?? key, params);
+
+export const createTranslator = (locale: Locale) => {
+  const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+  return {
+    locale,
+    t,
+    // For keys built at runtime (labels, symptoms): falls back when the catalogue has no entry
+    tOr: (key: string, fallback: string, params?: MessageParams) =>
+      hasMessage(key) ? t(key, params) : fallback,
+    // Finding names from allMultiLabelScores; unknown ones are shown as sent, minus underscores
+    label: (name: string) => {
+      const key = `label.${name}`;
+      return hasMessage(key) ? t(key) : name.replace(/_/g, " ");
+    },
+    formatDateTime: (value: number | Date) =>
+      new Date(value).toLocaleString(INTL_LOCALES[locale]),
+    formatDate: (value: number | Date) =>
+      new Date(value).toLocaleDateString(INTL_LOCALES[locale]),
+  };
+};
+
+export type Translator = ReturnType<typeof createTranslator>;
+
+export const useI18n = () => {
+  const data = useRouteLoaderData<{ locale: Locale }>("root");
+  const locale = data?.locale ?? DEFAULT_LOCALE;
+  return useMemo(() => createTranslator(locale), [locale]);
+};
+
+// For `meta` functions, which can't use hooks
+export const getMetaTranslator = (matches: { id: string; data: unknown }[]) => {
+  const data = matches.find((match) => match.id === "root")?.data as { locale?: unknown } | undefined;
+  return createTranslator(isLocale(data?.locale) ? data.locale : DEFAULT_LOCALE);
+};
@@ -0,0 +1,14 @@
+import { createCookie } from "@remix-run/node";
+import { DEFAULT_LOCALE, isLocale, type Locale } from "./i18n";
+
+export const localeCookie = createCookie("locale", {
+  path: "/",
+  sameSite: "lax",
+  httpOnly: true,
+  maxAge: 60 * 60 * 24 * 365,
+});
+
+export const getLocale = async (request: Request): Promise<Locale> => {
+  const value = await localeCookie.parse(request.headers.get("Cookie"));
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+};
@@ -0,0 +1,201 @@
+import type { Feedback } from "./feedback";
+
+// Evaluation metrics computed from clinician feedback (see feedback.ts), for the
+// /dashboard route. Ground truth:
+// - binary: `correctLabel`, counted only when it is Normal or Pneumonia
+// - per finding: `labelCorrections[label]`; for Pneumonia the binary ground truth
+//   is used when the finding wasn't corrected explicitly
+
+export const POSITIVE_CLASS = "Pneumonia";
+export const NEGATIVE_CLASS = "Normal";
+
+export type ConfusionMatrix = {
+  tp: number;
+  fp: number;
+  tn: number;
+  fn: number;
+  total: number;
+  // undefined when the denominator is zero
+  sensitivity?: number;
+  specificity?: number;
+  ppv?: number;
+  npv?: number;
+  accuracy?: number;
+};
+
+const ratio = (numerator: number, denominator: number) =>
+  denominator > 0 ? numerator / denominator : undefined;
+
+const binaryTruth = (record: Feedback) =>
+  record.correctLabel === POSITIVE_CLASS || record.correctLabel === NEGATIVE_CLASS
+    ? record.correctLabel
+    : undefined;
+
+export const confusionMatrix = (records: Feedback[]): ConfusionMatrix => {
+  const counts = { tp: 0, fp: 0, tn: 0, fn: 0 };
+  for (const record of records) {
+    const truth = binaryTruth(record);
+    if (!truth) continue;
+    const predictedPositive = record.prediction.predictedClass === POSITIVE_CLASS;
+    const actualPositive = truth === POSITIVE_CLASS;
+    if (predictedPositive && actualPositive) counts.tp++;
+    else if (predictedPositive) counts.fp++;
+    else if (actualPositive) counts.fn++;
+    else counts.tn++;
+  }
+  const { tp, fp, tn, fn } = counts;
+  const total = tp + fp + tn + fn;
+  return {
+    ...counts,
+    total,
+    sensitivity: ratio(tp, tp + fn),
+    specificity: ratio(tn, tn + fp),
+    ppv: ratio(tp, tp + fp),
+    npv: ratio(tn, tn + fn),
+    accuracy: ratio(tp + tn, total),
+  };
+};
+
+export type CalibrationBin = {
+  from: number;
+  to: number;
+  count: number;
+  meanConfidence?: number;
+  accuracy?: number;
+};
+
+// Reliability diagram: `confidence` of the predicted class against how often it was right
+export const calibrationBins = (records: Feedback[], binCount = 10): CalibrationBin[] => {
+  const bins = Array.from({ length: binCount }, (_, index) => ({
+    from: index / binCount,
+    to: (index + 1) / binCount,
+    count: 0,
+    confidenceSum: 0,
+    correct: 0,
+  }));
+  for (const record of records) {
+    const { confidence, predictedClass } = record.prediction;
+    if (confidence === undefined || !record.correctLabel) continue;
+    const bin = bins[Math.min(binCount - 1, Math.floor(confidence * binCount))];
+    bin.count++;
+    bin.confidenceSum += confidence;
+    if (record.correctLabel === predictedClass) bin.correct++;
+  }
+  return bins.map(({ from, to, count, confidenceSum, correct }) => ({
+    from,
+    to,
+    count,
+    meanConfidence: ratio(confidenceSum, count),
+    accuracy: ratio(correct, count),
+  }));
+};
+
+// Expected calibration error: count-weighted gap between confidence and accuracy
+export const expectedCalibrationError = (bins: CalibrationBin[]) => {
+  const total = bins.reduce((sum, bin) => sum + bin.count, 0);
+  if (total === 0) return undefined;
+  return bins.reduce(
+    (sum, bin) =>
+      bin.count > 0 ? sum + (bin.count / total) * Math.abs((bin.accuracy ?? 0) - (bin.meanConfidence ?? 0)) : sum,
+    0
+  );
+};
+
+export type CurvePoint = { x: number; y: number };
+
+export type LabelCurves = {
+  label: string;
+  positives: number;
+  negatives: number;
+  // x = false positive rate, y = true positive rate
+  roc: CurvePoint[];
+  // x = recall, y = precision
+  pr: CurvePoint[];
+  auc?: number;
+  averagePrecision?: number;
+};
+
+const labelTruth = (record: Feedback, label: string) => {
+  if (label in record.labelCorrections) return record.labelCorrections[label];
+  if (label === POSITIVE_CLASS) {
+    const truth = binaryTruth(record);
+    return truth ? truth === POSITIVE_CLASS : undefined;
+  }
+  return undefined;
+};
+
+export const labelCurves = (records: Feedback[], label: string): LabelCurves => {
+  const samples = records.flatMap((record) => {
+    const truth = labelTruth(record, label);
+    const score = record.prediction.allMultiLabelScores.find((item) => item.label === label)?.score;
+    return truth === undefined || score === undefined ? [] : [{ score, truth }];
+  });
+  const positives = samples.filter((sample) => sample.truth).length;
+  const negatives = samples.length - positives;
+  if (positives === 0 || negatives === 0) return { label, positives, negatives, roc: [], pr: [] };
+
+  // Walk thresholds from the highest score down; tied scores move together
+  samples.sort((a, b) => b.score - a.score);
+  const roc: CurvePoint[] = [{ x: 0, y: 0 }];
+  const pr: CurvePoint[] = [];
+  let tp = 0;
+  let fp = 0;
+  let auc = 0;
+  let averagePrecision = 0;
+  for (let index = 0; index < samples.length; index++) {
+    if (samples[index].truth) tp++;
+    else fp++;
+    if (index < samples.length - 1 && samples[index + 1].score === samples[index].score) continue;
+
+    const point = { x: fp / negatives, y: tp / positives };
+    const previous = roc[roc.length - 1];
+    auc += (point.x - previous.x) * (point.y + previous.y) / 2;
+    roc.push(point);
+
+    const recall = tp / positives;
+    const precision = tp / (tp + fp);
+    averagePrecision += (recall - (pr[pr.length - 1]?.x ?? 0)) * precision;
+    pr.push({ x: recall, y: precision });
+  }
+  return { label, positives, negatives, roc, pr, auc, averagePrecision };
+};
+
+// Every finding that has at least one ground-truth sample
+export const evaluatedLabels = (records: Feedback[]) => {
+  const labels = new Set<string>();
+  for (const record of records) {
+    Object.keys(record.labelCorrections).forEach((label) => labels.add(label));
+    if (binaryTruth(record)) labels.add(POSITIVE_CLASS);
+  }
+  return [...labels].sort();
+};
+
+export type MetricsGroup = {
+  key: string;
+  reviewed: number;
+  agreed: number;
+  matrix: ConfusionMatrix;
+};
+
+// Split by pipeline or model name, largest group first
+export const groupMetrics = (records: Feedback[], keyOf: (record: Feedback) => string): MetricsGroup[] => {
+  const groups = new Map<string, Feedback[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+  return [...groups.entries()]
+    .map(([key, items]) => ({
+      key,
+      reviewed: items.length,
+      agreed: items.filter((item) => item.verdict === "agree").length,
+      matrix: confusionMatrix(items),
+    }))
+    .sort((a, b) => b.reviewed - a.reviewed);
+};
+
+// "2026-10" style month of a timestamp, in local time
+export const monthOf = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+};
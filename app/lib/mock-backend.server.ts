@@ -0,0 +1,352 @@
+import type { AnalyzeResponse, ClinicalInfo, MultiLabel } from "./analyze";
+import { STREAM_CONTENT_TYPE } from "./analyze-stream";
+
+// In-process stand-in for the Render-hosted analyze and Eigencam services, used
+// when MOCK_BACKEND is set (see config.server.ts). Responses follow the real
+// `AnalyzeResponse` shape so the whole UI can be exercised offline.
+//
+// The scenario is picked from the uploaded file name (e.g. `professor-01.png`),
+// then from MOCK_SCENARIO, and otherwise derived from the image size so a batch
+// of files gets a mix of results.
+
+export const MOCK_SCENARIOS = [
+  "normal",
+  "pneumonia",
+  "disagreement",
+  "professor",
+  "warning",
+  "failure",
+] as const;
+export type MockScenario = (typeof MOCK_SCENARIOS)[number];
+
+const isMockScenario = (value: unknown): value is MockScenario =>
+  typeof value === "string" && (MOCK_SCENARIOS as readonly string[]).includes(value);
+
+const DEFAULT_LATENCY_MS = 800;
+const MODEL_NAME = "densenet121-res224-all (mock)";
+
+const getLatency = () => {
+  const latency = Number(process.env.MOCK_LATENCY_MS);
+  return Number.isFinite(latency) && latency >= 0 ? latency : DEFAULT_LATENCY_MS;
+};
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const pickScenario = (fileName: string, size: number): MockScenario => {
+  const fromName = MOCK_SCENARIOS.find((scenario) => fileName.toLowerCase().includes(scenario));
+  if (fromName) return fromName;
+  if (isMockScenario(process.env.MOCK_SCENARIO)) return process.env.MOCK_SCENARIO;
+  // Everything but "failure", so an unlabelled batch still mostly succeeds
+  return MOCK_SCENARIOS[size % (MOCK_SCENARIOS.length - 1)];
+};
+
+// Scores for the multi-label head; `boost` raises the findings that fit the scenario
+const labelScores = (boost: Record<string, number>): MultiLabel[] =>
+  Object.entries({
+    Pneumonia: 0.08,
+    Consolidation: 0.06,
+    Infiltration: 0.1,
+    Atelectasis: 0.07,
+    Effusion: 0.04,
+    Lung_Opacity: 0.12,
+    Cardiomegaly: 0.05,
+    Edema: 0.03,
+    Pneumothorax: 0.01,
+    Nodule: 0.02,
+    Mass: 0.01,
+    Fibrosis: 0.02,
+    Emphysema: 0.01,
+    Pleural_Thickening: 0.03,
+    ...boost,
+  })
+    .map(([label, score]) => ({ label, score }))
+    .sort((a, b) => b.score - a.score);
+
+type Fixture = {
+  pneumonia: number;
+  labels: Record<string, number>;
+  onnx: { diagnosis: string; confidence: number };
+  gpt4o: { diagnosis: string; confidence: number; findings: string[]; reasoning: string };
+  professor?: { diagnosis: string; confidence: number; risk: string };
+  final: { diagnosis: string; confidence: number; decision_maker: string; reasoning: string };
+  warnings?: string[];
+};
+
+const FIXTURES: Record<Exclude<MockScenario, "failure">, Fixture> = {
+  normal: {
+    pneumonia: 0.07,
+    labels: {},
+    onnx: { diagnosis: "Normal", confidence: 0.93 },
+    gpt4o: {
+      diagnosis: "Normal",
+      confidence: 0.88,
+      findings: ["Clear lung fields", "Normal cardiothoracic ratio"],
+      reasoning: "No focal consolidation, effusion or pneumothorax.",
+    },
+    final: {
+      diagnosis: "Normal",
+      confidence: 0.93,
+      decision_maker: "onnx_gpt4o_consensus",
+      reasoning: "Both models agree on a normal study.",
+    },
+  },
+  pneumonia: {
+    pneumonia: 0.89,
+    labels: { Pneumonia: 0.84, Consolidation: 0.71, Infiltration: 0.58, Lung_Opacity: 0.66 },
+    onnx: { diagnosis: "Pneumonia", confidence: 0.89 },
+    gpt4o: {
+      diagnosis: "Pneumonia",
+      confidence: 0.85,
+      findings: ["Right lower lobe consolidation", "Air bronchograms"],
+      reasoning: "Lobar consolidation consistent with bacterial pneumonia.",
+    },
+    final: {
+      diagnosis: "Pneumonia",
+      confidence: 0.89,
+      decision_maker: "onnx_gpt4o_consensus",
+      reasoning: "Both models agree on pneumonia.",
+    },
+  },
+  disagreement: {
+    pneumonia: 0.64,
+    labels: { Pneumonia: 0.55, Infiltration: 0.47, Lung_Opacity: 0.42 },
+    onnx: { diagnosis: "Pneumonia", confidence: 0.64 },
+    gpt4o: {
+      diagnosis: "Normal",
+      confidence: 0.72,
+      findings: ["Mild perihilar markings", "No definite consolidation"],
+      reasoning: "Findings may reflect viral bronchitis rather than pneumonia.",
+    },
+    final: {
+      diagnosis: "Pneumonia",
+      confidence: 0.64,
+      decision_maker: "onnx_safety_first",
+      reasoning: "Models disagree; the positive ONNX result is kept for patient safety.",
+    },
+    warnings: ["⚠️ AI models disagree. Consider ONNX diagnosis and clinical correlation."],
+  },
+  professor: {
+    pneumonia: 0.58,
+    labels: { Pneumonia: 0.51, Atelectasis: 0.44, Effusion: 0.31 },
+    onnx: { diagnosis: "Pneumonia", confidence: 0.58 },
+    gpt4o: {
+      diagnosis: "Normal",
+      confidence: 0.66,
+      findings: ["Left basal opacity, possibly atelectasis"],
+      reasoning: "Opacity is more in keeping with atelectasis.",
+    },
+    professor: {
+      diagnosis: "Pneumonia",
+      confidence: 0.81,
+      risk: "Moderate: early left lower lobe pneumonia with small effusion",
+    },
+    final: {
+      diagnosis: "Pneumonia",
+      confidence: 0.81,
+      decision_maker: "professor",
+      reasoning: "Expert review resolved the disagreement in favour of pneumonia.",
+    },
+    warnings: ["🩺 Professor AI review was triggered for safety."],
+  },
+  warning: {
+    pneumonia: 0.52,
+    labels: { Pneumonia: 0.49, Lung_Opacity: 0.45, Pneumothorax: 0.38 },
+    onnx: { diagnosis: "Pneumonia", confidence: 0.52 },
+    gpt4o: {
+      diagnosis: "Pneumonia",
+      confidence: 0.55,
+      findings: ["Rotated, underexposed film", "Possible apical lucency"],
+      reasoning: "Image quality limits interpretation.",
+    },
+    final: {
+      diagnosis: "Pneumonia",
+      confidence: 0.52,
+      decision_maker: "onnx_gpt4o_consensus",
+      reasoning: "Low-confidence agreement on a suboptimal image.",
+    },
+    warnings: [
+      "🚨 MEDICAL SAFETY ALERT: possible pneumothorax, urgent radiologist review required.",
+      "Low confidence result; image appears rotated and underexposed.",
+    ],
+  },
+};
+
+const buildAnalyzeResponse = (
+  scenario: Exclude<MockScenario, "failure">,
+  optimized: boolean,
+  clinicalInfo: ClinicalInfo | undefined
+): AnalyzeResponse => {
+  const fixture = FIXTURES[scenario];
+  const predictedClass = fixture.pneumonia >= 0.5 ? "Pneumonia" : "Normal";
+  const allMultiLabelScores = labelScores(fixture.labels);
+  const disagreement = fixture.onnx.diagnosis !== fixture.gpt4o.diagnosis;
+  const gpt4oCost = 0.0042;
+  const professorCost = fixture.professor ? 0.018 : 0;
+
+  return {
+    success: true,
+    stage: "completed",
+    message: `Mock analysis (${scenario})`,
+    data: {
+      clinical_info: clinicalInfo,
+      binaryProbabilities: { Normal: 1 - fixture.pneumonia, Pneumonia: fixture.pneumonia },
+      predictedClass,
+      confidence: Math.max(fixture.pneumonia, 1 - fixture.pneumonia),
+      classLabels: ["Normal", "Pneumonia"],
+      multiLabelTop: Object.fromEntries(
+        allMultiLabelScores.slice(0, 5).map((item, index) => [String(index + 1), item])
+      ),
+      allMultiLabelScores,
+      warnings: fixture.warnings,
+      cloudinaryId: `mock/${scenario}`,
+      modelName: MODEL_NAME,
+      enhanced_analysis: {
+        system_type: optimized ? "optimized_multi_ai" : "standard_multi_ai",
+        optimization_features: optimized ? ["parallel_execution", "response_cache"] : undefined,
+        models_used: ["ONNX DenseNet121", "GPT-4o", ...(fixture.professor ? ["Professor AI"] : [])],
+        onnx_analysis: { ...fixture.onnx, stage: "completed" },
+        gpt4o_analysis: {
+          ...fixture.gpt4o,
+          recommendations: ["Correlate with clinical findings"],
+        },
+        ai_agreement: {
+          disagreement_detected: disagreement,
+          agreement_level: disagreement ? "low" : "high",
+        },
+        professor_analysis: fixture.professor
+          ? {
+              triggered: true,
+              success: true,
+              expert_diagnosis: fixture.professor.diagnosis,
+              confidence: fixture.professor.confidence,
+              risk_assessment: fixture.professor.risk,
+            }
+          : { triggered: false },
+        final_decision: fixture.final,
+        performance_metrics: {
+          total_processing_time: optimized ? 4200 : 7800,
+          optimization_applied: optimized,
+          parallel_execution: optimized,
+          gpt4o_cost_usd: gpt4oCost,
+          professor_cost_usd: professorCost || undefined,
+          total_cost_usd: gpt4oCost + professorCost,
+          estimated_speedup: optimized ? "1.9x" : undefined,
+        },
+      },
+    },
+  };
+};
+
+const readClinicalInfo = (value: FormDataEntryValue | null): ClinicalInfo | undefined => {
+  if (typeof value !== "string") return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+const FAILURE_MESSAGE = "Mock failure: model inference crashed";
+
+// NDJSON progress stream (see ~/lib/analyze-stream.ts); the latency is spread over the stages
+const streamAnalyze = (
+  scenario: MockScenario,
+  buildResponse: (scenario: Exclude<MockScenario, "failure">) => AnalyzeResponse
+) => {
+  const encoder = new TextEncoder();
+  const stageDelay = getLatency() / 4;
+  const hasProfessor = scenario !== "failure" && Boolean(FIXTURES[scenario].professor);
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: object) => controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      const runStage = async (stage: string) => {
+        send({ type: "stage", stage, status: "started" });
+        await delay(stageDelay);
+        send({ type: "stage", stage, status: "completed" });
+      };
+
+      send({ type: "stage", stage: "onnx", status: "started" });
+      await delay(stageDelay);
+      if (scenario === "failure") {
+        send({ type: "error", stage: "onnx_inference", message: FAILURE_MESSAGE });
+        controller.close();
+        return;
+      }
+      send({ type: "stage", stage: "onnx", status: "completed" });
+      await runStage("gpt4o");
+      await runStage("agreement");
+      if (hasProfessor) await runStage("professor");
+      else send({ type: "stage", stage: "professor", status: "skipped" });
+      await runStage("final");
+      send({ type: "result", response: buildResponse(scenario) });
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { "Content-Type": `${STREAM_CONTENT_TYPE}; charset=utf-8` } });
+};
+
+// POST <mock>/analyze and <mock>/analyze-optimized; streams when Accept asks for NDJSON
+export const mockAnalyze = async (
+  formData: FormData,
+  endpoint: "analyze" | "analyze-optimized",
+  accept?: string | null
+) => {
+  const image = formData.get("image");
+  if (!(image instanceof File)) {
+    return Response.json({ success: false, message: "No image uploaded" }, { status: 400 });
+  }
+
+  const scenario = pickScenario(image.name, image.size);
+  console.log(`🧪 Mock ${endpoint}: ${image.name} → ${scenario}`);
+  const buildResponse = (fixture: Exclude<MockScenario, "failure">) =>
+    buildAnalyzeResponse(
+      fixture,
+      endpoint === "analyze-optimized",
+      readClinicalInfo(formData.get("clinical_info"))
+    );
+
+  if (accept?.includes(STREAM_CONTENT_TYPE)) return streamAnalyze(scenario, buildResponse);
+
+  await delay(getLatency());
+  if (scenario === "failure") {
+    return Response.json(
+      { success: false, stage: "onnx_inference", message: FAILURE_MESSAGE },
+      { status: 500 }
+    );
+  }
+  return Response.json(buildResponse(scenario));
+};
+
+// Heatmap-looking SVG, returned as a data URL so it needs no hosting or CORS
+const heatmapSvg = (scenario: string) => {
+  const hot = scenario === "normal" ? "0.25" : "0.85";
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">
+<defs><radialGradient id="h" cx="${scenario === "professor" ? "68%" : "32%"}" cy="62%" r="38%">
+<stop offset="0" stop-color="#ff0000" stop-opacity="${hot}"/><stop offset="0.5" stop-color="#ffff00" stop-opacity="0.5"/>
+<stop offset="1" stop-color="#0000ff" stop-opacity="0.35"/></radialGradient></defs>
+<rect width="512" height="512" fill="#00008b"/><rect width="512" height="512" fill="url(#h)"/>
+<text x="12" y="500" font-family="sans-serif" font-size="16" fill="#fff">mock eigencam: ${scenario}</text>
+</svg>`;
+};
+
+// POST <mock>/eigencam with `{ cloudinary_id, model_name }`
+export const mockEigencam = async (body: string) => {
+  let cloudinaryId: unknown;
+  try {
+    cloudinaryId = JSON.parse(body)?.cloudinary_id;
+  } catch {
+    // handled below
+  }
+  if (typeof cloudinaryId !== "string" || !cloudinaryId) {
+    return Response.json({ success: false, error: "cloudinary_id is required" }, { status: 400 });
+  }
+
+  await delay(getLatency());
+  const name = cloudinaryId.replace(/^mock\//, "");
+  const scenario = isMockScenario(name) ? name : "normal";
+  return Response.json({
+    success: true,
+    eigencam_url: `data:image/svg+xml;base64,${Buffer.from(heatmapSvg(scenario)).toString("base64")}`,
+  });
+};
@@ -0,0 +1,137 @@
+import { createHash, randomBytes } from "node:crypto";
+import { redirect } from "@remix-run/node";
+import { isRole, ROLES, type Role, type SessionUser } from "./auth";
+import {
+  commitSession,
+  createUserSession,
+  getSession,
+  safeRedirect,
+  type PendingOidcLogin,
+} from "./auth.server";
+import { getAuthConfig } from "./config.server";
+
+// Optional single sign-on with an OpenID Connect provider (authorization code
+// flow with PKCE). Enabled by OIDC_ISSUER, OIDC_CLIENT_ID and OIDC_CLIENT_SECRET;
+// the user's identity comes from the provider's userinfo endpoint and the role
+// from OIDC_ROLE_CLAIM.
+
+type OidcConfig = NonNullable<ReturnType<typeof getAuthConfig>["oidc"]>;
+
+type Discovery = {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+};
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OidcError";
+  }
+}
+
+export const isOidcEnabled = () => Boolean(getAuthConfig().oidc);
+
+const requireOidcConfig = () => {
+  const { oidc } = getAuthConfig();
+  if (!oidc) throw new Response("Not Found", { status: 404 });
+  return oidc;
+};
+
+const discoveryCache = new Map<string, Promise<Discovery>>();
+
+const discover = (issuer: string) => {
+  let discovery = discoveryCache.get(issuer);
+  if (!discovery) {
+    discovery = fetch(`${issuer}/.well-known/openid-configuration`).then(async (res) => {
+      if (!res.ok) throw new OidcError(`Discovery failed with HTTP ${res.status}`);
+      return (await res.json()) as Discovery;
+    });
+    // Try again on the next login rather than caching a failure
+    discovery.catch(() => discoveryCache.delete(issuer));
+    discoveryCache.set(issuer, discovery);
+  }
+  return discovery;
+};
+
+const base64Url = (buffer: Buffer) => buffer.toString("base64url");
+
+const callbackUrl = (request: Request, oidc: OidcConfig) =>
+  oidc.redirectUri ?? new URL("/auth/oidc/callback", request.url).toString();
+
+// The most privileged known role in the claim (a string or a list of strings)
+const roleFromClaim = (claim: unknown, fallback: string): Role => {
+  const values = (Array.isArray(claim) ? claim : [claim]).filter((value) => typeof value === "string");
+  const role = [...ROLES].reverse().find((candidate) => values.includes(candidate));
+  return role ?? (isRole(fallback) ? fallback : "clinician");
+};
+
+// Redirects to the provider; the state and PKCE verifier wait in the session
+export const startOidcLogin = async (request: Request) => {
+  const oidc = requireOidcConfig();
+  const { authorization_endpoint } = await discover(oidc.issuer);
+  const pending: PendingOidcLogin = {
+    state: base64Url(randomBytes(16)),
+    verifier: base64Url(randomBytes(32)),
+    redirectTo: safeRedirect(new URL(request.url).searchParams.get("redirectTo")),
+  };
+  const session = await getSession(request);
+  session.set("oidc", pending);
+
+  const url = new URL(authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: oidc.clientId,
+    redirect_uri: callbackUrl(request, oidc),
+    scope: "openid profile email",
+    state: pending.state,
+    code_challenge: base64Url(createHash("sha256").update(pending.verifier).digest()),
+    code_challenge_method: "S256",
+  }).toString();
+  return redirect(url.toString(), { headers: { "Set-Cookie": await commitSession(session) } });
+};
+
+// Handles the provider's redirect back: checks the state, trades the code for a
+// token, reads the user and signs them in
+export const finishOidcLogin = async (request: Request) => {
+  const oidc = requireOidcConfig();
+  const params = new URL(request.url).searchParams;
+  const pending = (await getSession(request)).get("oidc");
+  if (params.get("error")) throw new OidcError(`Provider returned ${params.get("error")}`);
+  const code = params.get("code");
+  if (!pending || !code || params.get("state") !== pending.state) {
+    throw new OidcError("Login state does not match; start again");
+  }
+
+  const { token_endpoint, userinfo_endpoint } = await discover(oidc.issuer);
+  const tokenRes = await fetch(token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: callbackUrl(request, oidc),
+      client_id: oidc.clientId,
+      client_secret: oidc.clientSecret,
+      code_verifier: pending.verifier,
+    }),
+  });
+  if (!tokenRes.ok) throw new OidcError(`Token exchange failed with HTTP ${tokenRes.status}`);
+  const { access_token } = (await tokenRes.json()) as { access_token?: string };
+  if (!access_token) throw new OidcError("Token response has no access_token");
+
+  const userinfoRes = await fetch(userinfo_endpoint, {
+    headers: { Authorization: `Bearer ${access_token}` },
+  });
+  if (!userinfoRes.ok) throw new OidcError(`Userinfo failed with HTTP ${userinfoRes.status}`);
+  const claims = (await userinfoRes.json()) as Record<string, unknown>;
+  if (typeof claims.sub !== "string") throw new OidcError("Userinfo has no subject");
+
+  const name = [claims.name, claims.preferred_username, claims.email].find((value) => typeof value === "string");
+  const user: SessionUser = {
+    id: `${oidc.issuer}|${claims.sub}`,
+    name: (name as string | undefined) ?? claims.sub,
+    role: roleFromClaim(claims[oidc.roleClaim], oidc.defaultRole),
+  };
+  return createUserSession(request, user, pending.redirectTo);
+};
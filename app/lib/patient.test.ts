@@ -0,0 +1,32 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { localDate, validatePatientContext } from "./patient";
+
+describe("validatePatientContext", () => {
+  const timeZone = process.env.TZ;
+
+  // UTC+7, where the UTC date lags the local one until 07:00
+  beforeAll(() => {
+    process.env.TZ = "Asia/Ho_Chi_Minh";
+  });
+
+  afterAll(() => {
+    process.env.TZ = timeZone;
+    if (timeZone === undefined) delete process.env.TZ;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("accepts a study taken today just after local midnight", () => {
+    vi.useFakeTimers();
+    // 00:30 on 19 October in Hanoi is still 18 October in UTC
+    vi.setSystemTime(new Date("2026-10-18T17:30:00Z"));
+
+    expect(localDate()).toBe("2026-10-19");
+    expect(validatePatientContext({ study_date: "2026-10-19" })).toEqual({});
+    expect(validatePatientContext({ study_date: "2026-10-20" })).toEqual({
+      study_date: "Outside the allowed date range",
+    });
+  });
+});
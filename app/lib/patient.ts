@@ -0,0 +1,144 @@
+import { z } from "zod";
+import type { DeidentificationReport } from "./deidentify";
+import type { Translator } from "./i18n";
+
+// Patient and study context entered with each analysis and sent as
+// `clinical_info.patient`. The patient ID is a pseudonym (never a name or the
+// hospital number), and is what the history uses to group studies of the same
+// patient over time.
+
+export const AGE_UNITS = ["months", "years"] as const;
+export const SEXES = ["M", "F", "O"] as const;
+export const VIEW_POSITIONS = ["PA", "AP", "LAT"] as const;
+
+export type AgeUnit = (typeof AGE_UNITS)[number];
+export type Sex = (typeof SEXES)[number];
+export type ViewPosition = (typeof VIEW_POSITIONS)[number];
+
+export type PatientAge = { value: number; unit: AgeUnit };
+
+export type PatientContext = {
+  patient_id?: string;
+  age?: PatientAge;
+  sex?: Sex;
+  weight_kg?: number;
+  // YYYY-MM-DD
+  study_date?: string;
+  view_position?: ViewPosition;
+  referring_department?: string;
+};
+
+export type PatientField = keyof PatientContext;
+
+// Paediatric hospital: patients are up to 18 years old
+export const MAX_AGE: Record<AgeUnit, number> = { months: 216, years: 18 };
+export const WEIGHT_RANGE = { min: 0.3, max: 150 };
+const FIRST_STUDY_DATE = "1990-01-01";
+
+// Letters, digits and . _ - only: no spaces, so a full name can't be typed in
+const PATIENT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+// YYYY-MM-DD in the browser's time zone; toISOString() would give the UTC date,
+// which in Vietnam is still yesterday until 07:00
+export const localDate = (date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const isCalendarDate = (value: string) => {
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+export const patientContextSchema = z
+  .object({
+    patient_id: z.string().regex(PATIENT_ID_PATTERN, "Letters, digits, '.', '_' or '-' only").optional(),
+    age: z
+      .object({ value: z.number().finite().min(0), unit: z.enum(AGE_UNITS) })
+      .refine((age) => age.value <= MAX_AGE[age.unit], "Above the paediatric age range")
+      .optional(),
+    sex: z.enum(SEXES).optional(),
+    weight_kg: z.number().finite().min(WEIGHT_RANGE.min).max(WEIGHT_RANGE.max).optional(),
+    study_date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD")
+      .refine(isCalendarDate, "Not a calendar date")
+      .refine((value) => value >= FIRST_STUDY_DATE && value <= localDate(), "Outside the allowed date range")
+      .optional(),
+    view_position: z.enum(VIEW_POSITIONS).optional(),
+    referring_department: z.string().max(80).optional(),
+  })
+  .strict();
+
+// Trims the text fields and drops empty ones; undefined when nothing is left
+export const compactPatientContext = (patient: PatientContext | undefined): PatientContext | undefined => {
+  if (!patient) return undefined;
+  const compact = Object.fromEntries(
+    Object.entries(patient)
+      .map(([key, value]) => [key, typeof value === "string" ? value.trim() : value])
+      .filter(([, value]) => value !== undefined && value !== "")
+  ) as PatientContext;
+  return Object.keys(compact).length ? compact : undefined;
+};
+
+// The first problem with each field, for inline messages in the form
+export const validatePatientContext = (patient: PatientContext | undefined) => {
+  const errors: Partial<Record<PatientField, string>> = {};
+  const result = patientContextSchema.safeParse(compactPatientContext(patient) ?? {});
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      const field = issue.path[0] as PatientField;
+      errors[field] ??= issue.message;
+    }
+  }
+  return errors;
+};
+
+export const formatAge = (age: PatientAge, { t }: Pick<Translator, "t">) =>
+  t(`patient.age.${age.unit}`, { value: age.value });
+
+// "Age 18 months", "Sex F", … in form order, for the result panel and the report
+export const describePatientContext = (patient: PatientContext | undefined, { t }: Pick<Translator, "t">) => {
+  if (!patient) return [];
+  const fields: [string, string | undefined][] = [
+    [t("patient.id"), patient.patient_id],
+    [t("patient.age"), patient.age && formatAge(patient.age, { t })],
+    [t("patient.sex"), patient.sex && t(`patient.sex.${patient.sex}`)],
+    [t("patient.weight"), patient.weight_kg !== undefined ? `${patient.weight_kg} kg` : undefined],
+    [t("patient.studyDate"), patient.study_date],
+    [t("patient.view"), patient.view_position && t(`patient.view.${patient.view_position}`)],
+    [t("patient.department"), patient.referring_department],
+  ];
+  return fields.filter((field): field is [string, string] => Boolean(field[1]));
+};
+
+// DICOM Age String: "018M", "005Y", "010W", "003D"
+const parseDicomAge = (value: string): PatientAge | undefined => {
+  const match = /^(\d{3})([DWMY])$/.exec(value);
+  if (!match) return undefined;
+  const amount = Number(match[1]);
+  switch (match[2]) {
+    case "Y":
+      return { value: amount, unit: "years" };
+    case "M":
+      return { value: amount, unit: "months" };
+    case "W":
+      return { value: Math.floor(amount / 4.345), unit: "months" };
+    default:
+      return { value: Math.floor(amount / 30.44), unit: "months" };
+  }
+};
+
+// Takes the ID, age and sex from a pseudonymized DICOM header; the header
+// describes this very image, so it wins over what was typed for the previous one
+export const fillFromDicom = (
+  patient: PatientContext | undefined,
+  report: DeidentificationReport
+): PatientContext | undefined => {
+  const sex = SEXES.find((value) => value === report.patientSex);
+  const fromDicom = compactPatientContext({
+    patient_id: report.pseudonym,
+    age: report.patientAge ? parseDicomAge(report.patientAge) : undefined,
+    sex,
+  });
+  if (!fromDicom) return patient;
+  return { ...patient, ...fromDicom };
+};
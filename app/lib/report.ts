@@ -0,0 +1,299 @@
+import type { jsPDF } from "jspdf";
+import regularFontUrl from "dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url";
+import boldFontUrl from "dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url";
+import type { AnalyzePipeline, AnalyzeResponse, ClinicalInfo } from "./analyze";
+import { describeVitals } from "./clinical";
+import { createTranslator, DEFAULT_LOCALE, type Locale } from "./i18n";
+import { describePatientContext } from "./patient";
+import {
+  DEFAULT_THRESHOLD_SETTINGS,
+  describeTriageReasons,
+  getThreshold,
+  triageResult,
+  type ThresholdSettings,
+} from "./thresholds";
+
+// Client-side PDF report for one analysis. jsPDF and the Unicode font (the
+// built-in PDF fonts have no Vietnamese glyphs) are only loaded on export.
+
+export type ReportInput = {
+  response: AnalyzeResponse;
+  clinicalInfo: ClinicalInfo;
+  pipeline: AnalyzePipeline;
+  fileName?: string;
+  // Anything an <img> can load: object URL, data URL or remote URL
+  imageUrl?: string | null;
+  eigencamUrl?: string | null;
+  analyzedAt?: number;
+  locale?: Locale;
+  thresholds?: ThresholdSettings;
+};
+
+const LOGO_URL = "/Logo_ND2.png";
+const PAGE_MARGIN = 15;
+const FONT = "DejaVuSans";
+
+// DejaVu has no colour emoji; the backend puts them at the start of warnings
+const stripEmoji = (text: string) =>
+  text.replace(/[\p{Extended_Pictographic}️‍]/gu, "").replace(/\s+/g, " ").trim();
+
+const percent = (value?: number) => (value === undefined ? "—" : `${(value * 100).toFixed(1)}%`);
+
+const fetchAsBase64 = async (url: string) => {
+  const buffer = await (await fetch(url)).arrayBuffer();
+  let binary = "";
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Draws the image into a canvas so any format ends up as a JPEG data URL.
+// Resolves to null when the image can't be loaded or the canvas is tainted.
+const loadImage = (url: string) =>
+  new Promise<{ dataUrl: string; width: number; height: number } | null>((resolve) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => {
+      try {
+        const canvas = document.createElement("canvas");
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return resolve(null);
+        ctx.fillStyle = "#fff";
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(img, 0, 0);
+        resolve({
+          dataUrl: canvas.toDataURL("image/jpeg", 0.9),
+          width: img.naturalWidth,
+          height: img.naturalHeight,
+        });
+      } catch (err) {
+        console.warn("Could not embed image in report:", err);
+        resolve(null);
+      }
+    };
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+
+class ReportWriter {
+  doc: jsPDF;
+  y = PAGE_MARGIN;
+  readonly width: number;
+  readonly height: number;
+
+  constructor(doc: jsPDF) {
+    this.doc = doc;
+    this.width = doc.internal.pageSize.getWidth();
+    this.height = doc.internal.pageSize.getHeight();
+  }
+
+  get contentWidth() {
+    return this.width - PAGE_MARGIN * 2;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > this.height - PAGE_MARGIN - 8) {
+      this.doc.addPage();
+      this.y = PAGE_MARGIN;
+    }
+  }
+
+  heading(text: string) {
+    this.ensureSpace(12);
+    this.y += 3;
+    this.doc.setFont(FONT, "bold").setFontSize(12).setTextColor(30, 64, 175);
+    this.doc.text(text, PAGE_MARGIN, this.y);
+    this.doc.setDrawColor(191, 219, 254).line(PAGE_MARGIN, this.y + 1.5, this.width - PAGE_MARGIN, this.y + 1.5);
+    this.y += 7;
+  }
+
+  paragraph(text: string, options: { bold?: boolean; size?: number; color?: [number, number, number]; indent?: number } = {}) {
+    const size = options.size ?? 10;
+    const indent = options.indent ?? 0;
+    this.doc
+      .setFont(FONT, options.bold ? "bold" : "normal")
+      .setFontSize(size)
+      .setTextColor(...(options.color ?? [31, 41, 55]));
+    const lines: string[] = this.doc.splitTextToSize(stripEmoji(text), this.contentWidth - indent);
+    const lineHeight = size * 0.45;
+    for (const line of lines) {
+      this.ensureSpace(lineHeight);
+      this.doc.text(line, PAGE_MARGIN + indent, this.y);
+      this.y += lineHeight;
+    }
+    this.y += 1;
+  }
+
+  field(label: string, value: string) {
+    this.paragraph(`${label}: ${value}`);
+  }
+
+  bullet(text: string, color?: [number, number, number]) {
+    this.paragraph(`•  ${stripEmoji(text)}`, { indent: 3, color });
+  }
+}
+
+export const exportAnalysisReport = async (input: ReportInput) => {
+  const { jsPDF } = await import("jspdf");
+  const { response, clinicalInfo } = input;
+  const { t, tOr, label, formatDateTime } = createTranslator(input.locale ?? DEFAULT_LOCALE);
+  const { data } = response;
+  const analyzedAt = new Date(input.analyzedAt ?? Date.now());
+  const generatedAt = new Date();
+
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const [regular, bold] = await Promise.all([fetchAsBase64(regularFontUrl), fetchAsBase64(boldFontUrl)]);
+  doc.addFileToVFS("DejaVuSans.ttf", regular);
+  doc.addFont("DejaVuSans.ttf", FONT, "normal");
+  doc.addFileToVFS("DejaVuSans-Bold.ttf", bold);
+  doc.addFont("DejaVuSans-Bold.ttf", FONT, "bold");
+
+  const [logo, original, eigencam] = await Promise.all([
+    loadImage(LOGO_URL),
+    input.imageUrl ? loadImage(input.imageUrl) : Promise.resolve(null),
+    input.eigencamUrl ? loadImage(input.eigencamUrl) : Promise.resolve(null),
+  ]);
+
+  const writer = new ReportWriter(doc);
+
+  // Header
+  if (logo) {
+    const logoHeight = 18;
+    doc.addImage(logo.dataUrl, "JPEG", PAGE_MARGIN, writer.y, (logo.width / logo.height) * logoHeight, logoHeight);
+  }
+  doc.setFont(FONT, "bold").setFontSize(14).setTextColor(31, 41, 55);
+  doc.text(t("app.hospitalName"), PAGE_MARGIN + 24, writer.y + 6);
+  doc.setFontSize(12).setTextColor(30, 64, 175);
+  doc.text(t("report.title"), PAGE_MARGIN + 24, writer.y + 12);
+  doc.setFont(FONT, "normal").setFontSize(9).setTextColor(107, 114, 128);
+  doc.text(t("report.analyzedAt", { date: formatDateTime(analyzedAt) }), PAGE_MARGIN + 24, writer.y + 17);
+  writer.y += 24;
+
+  // Images
+  const images = [
+    { label: t("report.originalImage"), image: original },
+    { label: t("report.eigencamImage"), image: eigencam },
+  ].filter((entry) => entry.image);
+  if (images.length > 0) {
+    writer.heading(t("report.images"));
+    const boxWidth = (writer.contentWidth - 6) / 2;
+    const boxHeight = 70;
+    writer.ensureSpace(boxHeight + 8);
+    images.forEach(({ label, image }, index) => {
+      if (!image) return;
+      const scale = Math.min(boxWidth / image.width, boxHeight / image.height);
+      const w = image.width * scale;
+      const h = image.height * scale;
+      const x = PAGE_MARGIN + index * (boxWidth + 6) + (boxWidth - w) / 2;
+      doc.addImage(image.dataUrl, "JPEG", x, writer.y, w, h);
+      doc.setFont(FONT, "normal").setFontSize(8).setTextColor(107, 114, 128);
+      doc.text(label, PAGE_MARGIN + index * (boxWidth + 6) + boxWidth / 2, writer.y + boxHeight + 4, { align: "center" });
+    });
+    writer.y += boxHeight + 8;
+    if (input.eigencamUrl && !eigencam) {
+      writer.paragraph(t("report.eigencamMissing"), { size: 8, color: [185, 28, 28] });
+    }
+  }
+
+  // Patient and study
+  const patient = describePatientContext(clinicalInfo.patient, { t });
+  if (patient.length > 0) {
+    writer.heading(t("report.patient"));
+    patient.forEach(([field, value]) => writer.field(field, value));
+  }
+
+  // Clinical info
+  writer.heading(t("report.clinicalInfo"));
+  if (input.fileName) writer.field(t("report.file"), input.fileName);
+  writer.field(
+    t("report.initialDiagnosis"),
+    clinicalInfo.initial_diagnosis
+      ? tOr(`diagnosis.${clinicalInfo.initial_diagnosis}.label`, clinicalInfo.initial_diagnosis)
+      : t("result.none")
+  );
+  writer.field(
+    t("report.symptoms"),
+    clinicalInfo.symptoms.length
+      ? clinicalInfo.symptoms.map((s) => tOr(`symptom.${s}.label`, s)).join(", ")
+      : t("result.none")
+  );
+  const vitals = describeVitals(clinicalInfo.vitals, { tOr });
+  if (vitals.length > 0) writer.field(t("report.vitals"), vitals.join(", "));
+
+  // AI result
+  writer.heading(t("report.aiResult"));
+  writer.paragraph(
+    `${t("report.mainDiagnosis")}: ${
+      data.predictedClass === "Pneumonia" ? t("report.headline.Pneumonia") : t("report.headline.Normal")
+    } (${data.predictedClass})`,
+    { bold: true, color: data.predictedClass === "Pneumonia" ? [185, 28, 28] : [21, 128, 61] }
+  );
+  writer.field(t("report.confidence"), percent(data.confidence));
+  const thresholds = input.thresholds ?? DEFAULT_THRESHOLD_SETTINGS;
+  const triage = triageResult(response, thresholds);
+  writer.field(
+    t("report.triage"),
+    `${t(`triage.${triage.level}`)}${
+      triage.reasons.length > 0 ? ` (${describeTriageReasons(triage.reasons, { t, label })})` : ""
+    }`
+  );
+  writer.field(
+    t("report.thresholds"),
+    t("report.thresholdsValue", {
+      mode: t(`thresholds.mode.${thresholds.mode}`),
+      value: percent(getThreshold(thresholds, "Pneumonia").alert),
+    })
+  );
+  writer.field(
+    t("report.probabilities"),
+    Object.entries(data.binaryProbabilities)
+      .map(([name, prob]) => `${label(name)} ${percent(prob)}`)
+      .join(", ")
+  );
+  writer.field(t("report.pipeline"), t(input.pipeline === "optimized" ? "mode.optimized" : "mode.standard"));
+  if (data.modelName) writer.field(t("report.model"), data.modelName);
+
+  const labels = [...data.allMultiLabelScores].sort((a, b) => b.score - a.score).slice(0, 8);
+  if (labels.length > 0) {
+    writer.paragraph(t("report.topLabels"), { bold: true });
+    labels.forEach((item) => writer.bullet(`${label(item.label)}: ${percent(item.score)}`));
+  }
+
+  // Final decision
+  const finalDecision = data.enhanced_analysis?.final_decision;
+  if (finalDecision) {
+    writer.heading(t("report.finalDecision"));
+    writer.field(t("report.diagnosis"), finalDecision.diagnosis);
+    writer.field(t("report.confidence"), percent(finalDecision.confidence));
+    writer.field(t("report.decisionMaker"), finalDecision.decision_maker);
+    if (finalDecision.reasoning) writer.field(t("report.reasoning"), finalDecision.reasoning);
+  }
+
+  // Safety warnings
+  if (data.warnings && data.warnings.length > 0) {
+    writer.heading(t("report.warnings"));
+    data.warnings.forEach((warning) =>
+      writer.bullet(warning, warning.includes("MEDICAL SAFETY ALERT") ? [185, 28, 28] : [194, 65, 12])
+    );
+  }
+
+  // Disclaimer
+  writer.heading(t("report.disclaimerTitle"));
+  writer.paragraph(t("report.disclaimer"), { size: 9, color: [75, 85, 99] });
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont(FONT, "normal").setFontSize(8).setTextColor(156, 163, 175);
+    doc.text(t("report.generatedAt", { date: formatDateTime(generatedAt) }), PAGE_MARGIN, writer.height - 8);
+    doc.text(t("report.page", { page, total: pageCount }), writer.width - PAGE_MARGIN, writer.height - 8, { align: "right" });
+  }
+
+  const stamp = generatedAt.toISOString().slice(0, 19).replace(/[:T]/g, "-");
+  doc.save(`${t("report.fileName")}-${stamp}.pdf`);
+};
@@ -0,0 +1,191 @@
+import type { AnalyzeResponse } from "./analyze";
+import type { Translator } from "./i18n";
+
+// Decision thresholds per finding. Two presets: "screening" (sensitivity first,
+// the paediatric default: lower cut-offs so fewer cases are missed) and
+// "specificity" (fewer false alarms, close to the old fixed 0.5 / 0.1). Any
+// label can be overridden per mode. The settings live in localStorage and a copy
+// is stored with every analysis in the history.
+
+export type ThresholdMode = "screening" | "specificity";
+
+export const THRESHOLD_MODES: ThresholdMode[] = ["screening", "specificity"];
+
+// `alert`: the finding is considered present (red); `watch`: worth a look (yellow)
+export type LabelThreshold = { alert: number; watch: number };
+
+export type ThresholdSettings = {
+  mode: ThresholdMode;
+  overrides: Partial<Record<ThresholdMode, Record<string, LabelThreshold>>>;
+};
+
+export type FindingLevel = "alert" | "watch" | "clear";
+
+export type TriageLevel = "urgent" | "review" | "routine";
+
+// Most pressing first
+export const TRIAGE_LEVELS: TriageLevel[] = ["urgent", "review", "routine"];
+
+const PRESETS: Record<ThresholdMode, { default: LabelThreshold; labels: Record<string, LabelThreshold> }> = {
+  screening: {
+    default: { alert: 0.35, watch: 0.08 },
+    labels: {
+      Pneumonia: { alert: 0.3, watch: 0.1 },
+      Consolidation: { alert: 0.3, watch: 0.1 },
+      Pneumothorax: { alert: 0.2, watch: 0.05 },
+      Effusion: { alert: 0.3, watch: 0.08 },
+    },
+  },
+  specificity: {
+    default: { alert: 0.5, watch: 0.1 },
+    labels: {
+      Pneumonia: { alert: 0.6, watch: 0.25 },
+      Consolidation: { alert: 0.6, watch: 0.2 },
+      Pneumothorax: { alert: 0.4, watch: 0.1 },
+    },
+  },
+};
+
+// Findings that make a case urgent when they reach their alert threshold
+export const URGENT_LABELS = ["Pneumonia", "Pneumothorax", "Consolidation", "Effusion", "Edema"];
+
+// Shown in the settings table before any result lists its own labels
+export const DEFAULT_FINDING_LABELS = [
+  "Pneumonia",
+  "Consolidation",
+  "Infiltration",
+  "Atelectasis",
+  "Effusion",
+  "Lung_Opacity",
+  "Cardiomegaly",
+  "Edema",
+  "Pneumothorax",
+  "Nodule",
+  "Mass",
+  "Fibrosis",
+  "Emphysema",
+  "Pleural_Thickening",
+];
+
+export const DEFAULT_THRESHOLD_SETTINGS: ThresholdSettings = { mode: "screening", overrides: {} };
+
+const STORAGE_KEY = "xray-ui.thresholds";
+
+const isThreshold = (value: unknown): value is LabelThreshold => {
+  const threshold = value as LabelThreshold;
+  return (
+    typeof threshold?.alert === "number" &&
+    typeof threshold?.watch === "number" &&
+    threshold.watch >= 0 &&
+    threshold.watch <= threshold.alert &&
+    threshold.alert <= 1
+  );
+};
+
+// Invalid or missing pieces fall back to the defaults
+export const normalizeThresholdSettings = (value: unknown): ThresholdSettings => {
+  const settings = value as Partial<ThresholdSettings> | null;
+  const mode = THRESHOLD_MODES.includes(settings?.mode as ThresholdMode)
+    ? (settings?.mode as ThresholdMode)
+    : DEFAULT_THRESHOLD_SETTINGS.mode;
+  const overrides: ThresholdSettings["overrides"] = {};
+  for (const key of THRESHOLD_MODES) {
+    const entries = Object.entries(settings?.overrides?.[key] ?? {}).filter(([, threshold]) =>
+      isThreshold(threshold)
+    );
+    if (entries.length > 0) overrides[key] = Object.fromEntries(entries);
+  }
+  return { mode, overrides };
+};
+
+export const loadThresholdSettings = (): ThresholdSettings => {
+  if (typeof localStorage === "undefined") return DEFAULT_THRESHOLD_SETTINGS;
+  try {
+    return normalizeThresholdSettings(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null"));
+  } catch {
+    return DEFAULT_THRESHOLD_SETTINGS;
+  }
+};
+
+export const saveThresholdSettings = (settings: ThresholdSettings) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+
+export const presetThreshold = (mode: ThresholdMode, label: string) =>
+  PRESETS[mode].labels[label] ?? PRESETS[mode].default;
+
+export const getThreshold = (settings: ThresholdSettings, label: string): LabelThreshold =>
+  settings.overrides[settings.mode]?.[label] ?? presetThreshold(settings.mode, label);
+
+export const findingLevel = (score: number, threshold: LabelThreshold): FindingLevel =>
+  score >= threshold.alert ? "alert" : score >= threshold.watch ? "watch" : "clear";
+
+const LEVEL_RANK: Record<FindingLevel, number> = { alert: 0, watch: 1, clear: 2 };
+
+// Alerts first, then watches, each by score
+export const sortByLevel = <T extends { label: string; score: number }>(
+  items: T[],
+  settings: ThresholdSettings
+) =>
+  [...items].sort(
+    (a, b) =>
+      LEVEL_RANK[findingLevel(a.score, getThreshold(settings, a.label))] -
+        LEVEL_RANK[findingLevel(b.score, getThreshold(settings, b.label))] || b.score - a.score
+  );
+
+export type Triage = {
+  level: TriageLevel;
+  // Findings (or "warning" / "disagreement") that set the level
+  reasons: string[];
+  // Pneumonia call from the binary probability and the current threshold
+  thresholdClass: "Pneumonia" | "Normal";
+};
+
+// urgent: an urgent finding (or the binary Pneumonia probability) at its alert
+//   threshold, or a backend safety alert
+// review: any other finding at alert, an urgent finding (or Pneumonia) at watch,
+//   or AI disagreement
+// routine: everything else
+export const triageResult = (response: AnalyzeResponse, settings: ThresholdSettings): Triage => {
+  const { data } = response;
+  const pneumonia = data.binaryProbabilities.Pneumonia;
+  const pneumoniaThreshold = getThreshold(settings, "Pneumonia");
+  const thresholdClass =
+    pneumonia !== undefined
+      ? pneumonia >= pneumoniaThreshold.alert
+        ? "Pneumonia"
+        : "Normal"
+      : data.predictedClass === "Pneumonia"
+        ? "Pneumonia"
+        : "Normal";
+
+  const urgent: string[] = [];
+  const review: string[] = [];
+  if (thresholdClass === "Pneumonia") urgent.push("Pneumonia");
+  else if (pneumonia !== undefined && pneumonia >= pneumoniaThreshold.watch) review.push("Pneumonia");
+  if (data.warnings?.some((warning) => warning.includes("🚨"))) urgent.push("warning");
+  if (data.enhanced_analysis?.ai_agreement?.disagreement_detected) review.push("disagreement");
+
+  for (const item of data.allMultiLabelScores) {
+    const level = findingLevel(item.score, getThreshold(settings, item.label));
+    const isUrgentLabel = URGENT_LABELS.includes(item.label);
+    if (level === "alert" && isUrgentLabel) urgent.push(item.label);
+    else if (level === "alert" || (level === "watch" && isUrgentLabel)) review.push(item.label);
+  }
+
+  const unique = (labels: string[]) => [...new Set(labels)];
+  if (urgent.length > 0) return { level: "urgent", reasons: unique(urgent), thresholdClass };
+  if (review.length > 0) return { level: "review", reasons: unique(review), thresholdClass };
+  return { level: "routine", reasons: [], thresholdClass };
+};
+
+// Comma-separated, localized list of the triage reasons
+export const describeTriageReasons = (reasons: string[], { t, label }: Pick<Translator, "t" | "label">) =>
+  reasons
+    .map((reason) =>
+      reason === "warning"
+        ? t("triage.reason.warning")
+        : reason === "disagreement"
+          ? t("triage.reason.disagreement")
+          : label(reason)
+    )
+    .join(", ");
@@ -0,0 +1,62 @@
+import { listHistoryEntries, patientIdOf, studyTimeOf, type HistoryEntry } from "./history";
+
+// Serial X-rays of one patient, oldest first, for the /patients/<id> timeline:
+// how the Pneumonia probability and the main findings move between studies.
+
+export type TimelinePoint = {
+  entry: HistoryEntry;
+  // Study date, else when it was analysed
+  time: number;
+  pneumonia?: number;
+  // allMultiLabelScores by label
+  labels: Record<string, number>;
+};
+
+export type Trend = "improving" | "worsening" | "stable";
+
+// A change in Pneumonia probability smaller than this is reported as stable
+export const TREND_DELTA = 0.1;
+// Findings charted by default, by highest score across the studies
+export const DEFAULT_TREND_LABEL_COUNT = 4;
+
+export const toTimelinePoint = (entry: HistoryEntry): TimelinePoint => {
+  const { data } = entry.response;
+  return {
+    entry,
+    time: studyTimeOf(entry),
+    pneumonia: data.binaryProbabilities.Pneumonia,
+    labels: Object.fromEntries(data.allMultiLabelScores.map((item) => [item.label, item.score])),
+  };
+};
+
+export const loadPatientTimeline = async (patientId: string) => {
+  const entries = await listHistoryEntries();
+  return entries
+    .filter((entry) => patientIdOf(entry) === patientId)
+    .map(toTimelinePoint)
+    .sort((a, b) => a.time - b.time || a.entry.createdAt - b.entry.createdAt);
+};
+
+// Every finding seen in the studies, highest peak score first
+export const timelineLabels = (points: TimelinePoint[]) => {
+  const peaks = new Map<string, number>();
+  for (const point of points) {
+    for (const [label, score] of Object.entries(point.labels)) {
+      peaks.set(label, Math.max(peaks.get(label) ?? 0, score));
+    }
+  }
+  return [...peaks.entries()].sort((a, b) => b[1] - a[1]).map(([label]) => label);
+};
+
+// From one study to a later one, by the Pneumonia probability
+export const trendBetween = (from: TimelinePoint, to: TimelinePoint): Trend | undefined => {
+  if (from.pneumonia === undefined || to.pneumonia === undefined) return undefined;
+  const delta = to.pneumonia - from.pneumonia;
+  if (delta <= -TREND_DELTA) return "improving";
+  if (delta >= TREND_DELTA) return "worsening";
+  return "stable";
+};
+
+// Latest study against the one before it
+export const latestTrend = (points: TimelinePoint[]) =>
+  points.length < 2 ? undefined : trendBetween(points[points.length - 2], points[points.length - 1]);
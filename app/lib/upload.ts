@@ -0,0 +1,275 @@
+import {
+  DEFAULT_DEIDENTIFY_SETTINGS,
+  deidentifyDicom,
+  findImageMetadata,
+  scrubImage,
+  type DeidentificationReport,
+  type DeidentifySettings,
+} from "./deidentify";
+import { convertDicomToImage, DicomError, hasDicomMagic } from "./dicom";
+import type { Translator } from "./i18n";
+
+// Turns whatever the user picked into the image we post to the analyze endpoint.
+// Shared by the single-image form and the batch queue.
+//
+// Pipeline: size → MIME / magic bytes → DICOM rendering → decode (with timeout)
+// → minimum resolution → quality heuristics → de-identification → optional downscale.
+
+export const ACCEPTED_UPLOAD_TYPES = ".dcm,.dicom,image/png,image/jpeg";
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+// Below this the model input (224px) would be upscaled
+export const MIN_IMAGE_SIDE = 256;
+const DECODE_TIMEOUT_MS = 15_000;
+const COMPRESS_THRESHOLD_BYTES = 1024 * 1024;
+
+const ACCEPTED_MIME_TYPES = ["image/png", "image/jpeg", "application/dicom"];
+
+export const isSupportedUpload = (file: File) =>
+  /\.(dcm|dicom|png|jpe?g)$/i.test(file.name) || ACCEPTED_MIME_TYPES.includes(file.type);
+
+export type DicomInfo = {
+  rows: number;
+  columns: number;
+  windowCenter?: number;
+  windowWidth?: number;
+};
+
+// "lossy": JPEG at 80%, max 800px (smallest upload).
+// "lossless": PNG, max 1600px, for when diagnostic detail matters.
+export type DownscaleMode = "lossy" | "lossless";
+
+// Non-blocking hints that the image may not be a chest X-ray
+export type UploadWarning = "color" | "lowContrast";
+
+export type PreparedUpload = {
+  file: File;
+  originalSize: number;
+  width: number;
+  height: number;
+  warnings: UploadWarning[];
+  dicom?: DicomInfo;
+  deidentification: DeidentificationReport;
+};
+
+export type UploadErrorCode =
+  | "tooLarge"
+  | "unsupportedType"
+  | "badSignature"
+  | "decodeFailed"
+  | "decodeTimeout"
+  | "tooSmall"
+  | "deidentifyFailed"
+  | "encodeFailed";
+
+export class UploadError extends Error {
+  code: UploadErrorCode;
+  params: Record<string, string | number>;
+
+  constructor(code: UploadErrorCode, message: string, params: Record<string, string | number> = {}) {
+    super(message);
+    this.name = "UploadError";
+    this.code = code;
+    this.params = params;
+  }
+}
+
+type SniffedFormat = "png" | "jpeg" | "dicom";
+
+const sniffFormat = async (file: File): Promise<SniffedFormat | null> => {
+  const buffer = await file.slice(0, 132).arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return "png";
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "jpeg";
+  if (hasDicomMagic(buffer)) return "dicom";
+  return null;
+};
+
+// Size, declared type and actual content. Returns the format the bytes say it is.
+export const validateUpload = async (file: File): Promise<SniffedFormat> => {
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new UploadError("tooLarge", `File is larger than ${MAX_UPLOAD_BYTES} bytes`, {
+      size: (file.size / 1024 / 1024).toFixed(1),
+      max: MAX_UPLOAD_BYTES / 1024 / 1024,
+    });
+  }
+  if (file.type && !ACCEPTED_MIME_TYPES.includes(file.type) && !isSupportedUpload(file)) {
+    throw new UploadError("unsupportedType", `Unsupported type ${file.type}`, { type: file.type });
+  }
+
+  const format = await sniffFormat(file);
+  if (format) return format;
+  // Bare DICOM data sets have no "DICM" preamble; the parser reports if it isn't one
+  if (/\.(dcm|dicom)$/i.test(file.name) || file.type === "application/dicom") return "dicom";
+  throw new UploadError("badSignature", "File content is not PNG, JPEG or DICOM", { name: file.name });
+};
+
+// Decodes an image file, rejecting on decode errors instead of hanging forever
+export const decodeImage = (file: Blob, timeoutMs = DECODE_TIMEOUT_MS) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(file);
+    const finish = (error?: UploadError) => {
+      clearTimeout(timer);
+      URL.revokeObjectURL(url);
+      img.onload = img.onerror = null;
+      if (error) reject(error);
+      else resolve(img);
+    };
+    const timer = setTimeout(
+      () => finish(new UploadError("decodeTimeout", `Image did not decode within ${timeoutMs}ms`)),
+      timeoutMs
+    );
+    img.onload = () => finish();
+    img.onerror = () => finish(new UploadError("decodeFailed", "Image could not be decoded"));
+    img.src = url;
+  });
+
+// Colourfulness and contrast on a small thumbnail; X-rays are grey and use most of the range
+export const checkImageQuality = (img: HTMLImageElement): UploadWarning[] => {
+  const size = 128;
+  const scale = Math.min(1, size / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return [];
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  let chroma = 0;
+  let sum = 0;
+  let sumSquares = 0;
+  const pixels = data.length / 4;
+  for (let i = 0; i < data.length; i += 4) {
+    const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+    chroma += Math.max(r, g, b) - Math.min(r, g, b);
+    const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+    sum += luminance;
+    sumSquares += luminance * luminance;
+  }
+  const mean = sum / pixels;
+  const stdDev = Math.sqrt(Math.max(0, sumSquares / pixels - mean * mean));
+
+  const warnings: UploadWarning[] = [];
+  if (chroma / pixels > 12) warnings.push("color");
+  if (stdDev < 25) warnings.push("lowContrast");
+  return warnings;
+};
+
+const DOWNSCALE = {
+  lossy: { maxSize: 800, type: "image/jpeg", quality: 0.8, extension: "jpg" },
+  lossless: { maxSize: 1600, type: "image/png", quality: undefined, extension: "png" },
+} as const;
+
+// Compress image before upload to reduce memory usage.
+// Throws when the canvas can't encode.
+export const compressImage = async (
+  file: File,
+  mode: DownscaleMode = "lossy",
+  decoded?: HTMLImageElement
+): Promise<File> => {
+  const img = decoded ?? (await decodeImage(file));
+  const { maxSize, type, quality, extension } = DOWNSCALE[mode];
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.round(img.naturalWidth * scale);
+  const height = Math.round(img.naturalHeight * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(img, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+  if (!blob) throw new Error("Could not encode the image");
+  return new File([blob], file.name.replace(/\.[^.]+$/, "") + `.${extension}`, {
+    type,
+    lastModified: Date.now(),
+  });
+};
+
+// Upload file names often hold the accession number or the patient's name
+// (`NguyenVanA_0123.png`), so none of them is sent as is
+const neutralFileName = (prefix: string, extension: string) =>
+  `${prefix}-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-")}.${extension}`;
+
+// Runs the whole pipeline. Validation, decode, de-identification and compression
+// problems throw UploadError (or DicomError): nothing is sent that didn't make it
+// through the canvas.
+export const prepareUpload = async (
+  originalFile: File,
+  mode: DownscaleMode = "lossy",
+  deidentify: DeidentifySettings = DEFAULT_DEIDENTIFY_SETTINGS
+): Promise<PreparedUpload> => {
+  const format = await validateUpload(originalFile);
+  let file = originalFile;
+  let dicom: DicomInfo | undefined;
+  let deidentification: DeidentificationReport;
+
+  // DICOM can't be drawn by the browser: render it to PNG first
+  if (format === "dicom") {
+    const { file: renderedFile, image, dataSet } = await convertDicomToImage(originalFile);
+    dicom = {
+      rows: image.rows,
+      columns: image.columns,
+      windowCenter: image.windowCenter,
+      windowWidth: image.windowWidth,
+    };
+    const tags = await deidentifyDicom(dataSet, deidentify.dicomProfile);
+    file = new File([renderedFile], neutralFileName(tags.pseudonym ?? "dicom", "png"), { type: renderedFile.type });
+    deidentification = { ...tags, metadata: [], blackedOutEdges: false, renamed: true };
+  } else {
+    const metadata = await findImageMetadata(file);
+    file = new File([originalFile], neutralFileName("xray", format === "jpeg" ? "jpg" : "png"), {
+      type: format === "jpeg" ? "image/jpeg" : "image/png",
+      lastModified: originalFile.lastModified,
+    });
+    deidentification = { metadata, dicomTags: [], burnedInAnnotation: false, blackedOutEdges: false, renamed: true };
+  }
+
+  let img = await decodeImage(file);
+  const { naturalWidth: width, naturalHeight: height } = img;
+  if (Math.min(width, height) < MIN_IMAGE_SIDE) {
+    throw new UploadError("tooSmall", `Image is ${width}x${height}`, {
+      width,
+      height,
+      min: MIN_IMAGE_SIDE,
+    });
+  }
+  const warnings = checkImageQuality(img);
+
+  // Re-encoding drops the metadata, including blocks findImageMetadata doesn't know
+  // (other APPn segments, private PNG chunks), so PNG/JPEG always go through it.
+  // A rendered DICOM is already a fresh canvas PNG.
+  if (format !== "dicom" || deidentify.blackoutEdges) {
+    try {
+      file = await scrubImage(file, img, format === "jpeg" ? "image/jpeg" : "image/png", deidentify.blackoutEdges);
+    } catch (error) {
+      throw new UploadError("deidentifyFailed", `De-identification failed: ${error}`);
+    }
+    deidentification.blackedOutEdges = deidentify.blackoutEdges;
+    img = await decodeImage(file);
+  }
+
+  // Lossy mode only kicks in above 1MB; lossless always caps the dimensions
+  if (file.size > COMPRESS_THRESHOLD_BYTES || (mode === "lossless" && Math.max(width, height) > DOWNSCALE.lossless.maxSize)) {
+    try {
+      file = await compressImage(file, mode, img);
+    } catch (error) {
+      throw new UploadError("encodeFailed", `Compression failed: ${error}`);
+    }
+  }
+
+  return { file, originalSize: originalFile.size, width, height, warnings, dicom, deidentification };
+};
+
+// Localized message for anything prepareUpload can throw
+export const describeUploadError = (error: unknown, { t }: Pick<Translator, "t">) => {
+  if (error instanceof UploadError) return t(`upload.error.${error.code}`, error.params);
+  const detail = error instanceof Error ? error.message : String(error);
+  if (error instanceof DicomError) return t("error.dicom", { detail });
+  return t("upload.error.decodeFailed", { detail });
+};
@@ -0,0 +1,61 @@
+import { scrypt, timingSafeEqual } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { promisify } from "node:util";
+import { isRole, type SessionUser } from "./auth";
+import { getAuthConfig } from "./config.server";
+
+// Local credentials store: a JSON file (AUTH_USERS_FILE) listing the accounts,
+//   [{ "username": "lan", "name": "BS. Lan", "role": "radiologist", "password": "scrypt:<salt>:<hash>" }]
+// `npm run user:add` hashes a password and adds the account (scripts/add-user.mjs). The file is read on every login, so
+// accounts can be edited without a restart.
+
+type StoredUser = {
+  username: string;
+  name?: string;
+  role: string;
+  password: string;
+};
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// With demo accounts enabled (see getAuthConfig) and no users file, these sign in with DEMO_PASSWORD
+const DEMO_USERS: SessionUser[] = [
+  { id: "clinician", name: "Demo clinician", role: "clinician" },
+  { id: "radiologist", name: "Demo radiologist", role: "radiologist" },
+  { id: "admin", name: "Demo admin", role: "admin" },
+];
+const DEMO_PASSWORD = "demo";
+
+const verifyPassword = async (password: string, stored: string) => {
+  const [scheme, salt, hash] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scryptAsync(password, Buffer.from(salt, "base64"), expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+// null when the file doesn't exist
+const loadUsers = async (): Promise<StoredUser[] | null> => {
+  const { usersFile } = getAuthConfig();
+  try {
+    const users = JSON.parse(await readFile(usersFile, "utf8"));
+    if (!Array.isArray(users)) throw new Error("expected an array of users");
+    return users;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    console.error(`❌ Could not read ${usersFile}:`, error);
+    return [];
+  }
+};
+
+// The account for these credentials, or null
+export const verifyLogin = async (username: string, password: string): Promise<SessionUser | null> => {
+  const users = await loadUsers();
+  if (!users) {
+    if (!getAuthConfig().demoAccounts || password !== DEMO_PASSWORD) return null;
+    return DEMO_USERS.find((user) => user.id === username) ?? null;
+  }
+  const user = users.find((candidate) => candidate.username === username);
+  if (!user || !isRole(user.role) || !(await verifyPassword(password, user.password))) return null;
+  return { id: user.username, name: user.name || user.username, role: user.role };
+};
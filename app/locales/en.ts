@@ -0,0 +1,543 @@
+import type { MessageKey } from "./vi";
+
+export const en: Record<MessageKey, string> = {
+  "app.title": "Chest X-ray analysis",
+  "app.description": "Upload an X-ray and clinical findings to screen the lungs",
+  "app.subtitle": "Upload a chest X-ray and enter clinical information for automatic AI analysis",
+  "app.logoAlt": "Children's Hospital 2 logo",
+  "app.hospitalName": "Children's Hospital 2",
+  "app.language": "Language",
+  "app.mockBackend": "🧪 Mock backend",
+  "app.mockBackendHint": "Using fixture data (MOCK_BACKEND); the real AI models are not called",
+
+  "nav.batch": "📚 Batch analysis",
+  "nav.history": "🗂️ Analysis history",
+  "nav.dashboard": "📈 Model performance",
+  "nav.newAnalysis": "← New analysis",
+  "nav.singleAnalysis": "← Single image",
+  "nav.audit": "🧾 Audit log",
+
+  "login.title": "Sign in",
+  "login.subtitle": "Sign in to analyse X-rays",
+  "login.username": "Username",
+  "login.password": "Password",
+  "login.submit": "Sign in",
+  "login.submitting": "Signing in...",
+  "login.invalid": "Wrong username or password.",
+  "login.oidc": "🔑 Sign in with the hospital account",
+  "login.oidcError": "Signing in with the hospital account failed. Please try again.",
+  "login.oidcUnavailable": "Could not reach the hospital sign-in server.",
+  "login.demoHint": "Mock backend: without a users.json, use clinician / radiologist / admin with the password demo.",
+  "login.logout": "Sign out",
+  "role.clinician": "Clinician",
+  "role.radiologist": "Radiologist",
+  "role.admin": "Admin",
+
+  "audit.title": "Audit log",
+  "audit.heading": "🧾 Audit log",
+  "audit.hint": "Every analysis, Eigencam generation and reopened result is recorded on the server, append-only.",
+  "audit.exportCsv": "⬇️ Export CSV",
+  "audit.exportJson": "⬇️ Export JSON",
+  "audit.user": "User",
+  "audit.endpoint": "Action",
+  "audit.predictedClass": "Verdict",
+  "audit.from": "From",
+  "audit.to": "To",
+  "audit.all": "All",
+  "audit.filter": "Filter",
+  "audit.clear": "Clear filters",
+  "audit.count": "{total} records",
+  "audit.countLimited": "Showing the latest {shown} of {total} records; the export has all of them.",
+  "audit.empty": "No records.",
+  "audit.time": "Time",
+  "audit.result": "Result",
+  "audit.model": "Model",
+  "audit.image": "Image (SHA-256)",
+  "audit.warnings": "Warnings",
+
+  "error.title": "Something went wrong!",
+  "error.body": "Please try again or contact an administrator if the problem persists.",
+  "error.noFile": "Please choose an X-ray image file!",
+  "error.dicom": "Could not read the DICOM file: {detail}",
+  "error.analyze": "Something went wrong while uploading the file or calling the API.",
+  "error.analyzeFailed": "Analysis was not successful",
+  "error.analyzeFailedDetail": "Analysis was not successful: {detail}",
+  "error.invalidResponse": "The server returned an invalid response: {detail}",
+  "error.clinicalInfo": "Invalid clinical information: {detail}",
+  "error.historyNotFound": "This analysis could not be found in the history.",
+  "error.report": "Could not export the PDF report.",
+  "error.forbidden": "Access denied",
+  "error.forbiddenBody": "Your role cannot open this page.",
+  "error.eigencamMissingIds": "The analysis result has no Cloudinary ID or model name to generate Eigencam from.",
+  "error.eigencamFailed": "Eigencam generation was not successful",
+  "error.eigencam": "Something went wrong while generating Eigencam.",
+  "error.api.network": "Could not reach the server. Please check the connection and try again.",
+  "error.api.timeout": "The server did not respond in time. Please try again in a few minutes.",
+  "error.api.validation": "The server rejected the request (HTTP {status}): {detail}",
+  "error.api.server": "The server reported an error (HTTP {status}): {detail}",
+  "error.api.requestId": "(Request ID: {id})",
+  "error.api.auth": "Your session has expired. Please reload the page and sign in again.",
+  "error.api.forbidden": "Your role is not allowed to do this.",
+
+  "upload.title": "Upload chest X-ray",
+  "upload.hint": "DICOM, PNG, JPEG supported (max 10MB)",
+  "upload.preparing": "⏳ Checking image...",
+  "upload.lossless": "Keep diagnostic quality (lossless PNG)",
+  "upload.losslessHint": "Downscale to at most 1600px and keep PNG instead of an 800px JPEG",
+  "upload.warning.color": "⚠️ Colour image, may not be a chest X-ray",
+  "upload.warning.lowContrast": "⚠️ Very low contrast, results may be less accurate",
+  "upload.error.tooLarge": "The file is {size}MB, above the {max}MB limit.",
+  "upload.error.unsupportedType": "{type} is not supported. Only DICOM, PNG or JPEG files are accepted.",
+  "upload.error.badSignature": "The content of \"{name}\" is not DICOM, PNG or JPEG.",
+  "upload.error.decodeFailed": "The image could not be read; the file may be corrupt.",
+  "upload.error.decodeTimeout": "Reading the image took too long; please try another file.",
+  "upload.error.tooSmall": "The {width}×{height} image is too small (at least {min}px per side).",
+  "upload.error.deidentifyFailed": "The image could not be de-identified, so it was not sent. Please try again or use another file.",
+  "upload.error.encodeFailed": "The image could not be resized for upload, so it was not sent. Please try again or use another file.",
+
+  "deidentify.title": "🛡️ De-identified before sending:",
+  "deidentify.clean": "🛡️ No identifying data found in the file.",
+  "deidentify.metadata.exif": "EXIF",
+  "deidentify.metadata.xmp": "XMP",
+  "deidentify.metadata.iptc": "IPTC",
+  "deidentify.metadata.comment": "comments",
+  "deidentify.metadata.text": "PNG text chunks",
+  "deidentify.removed.metadata": "Removed image metadata: {kinds}",
+  "deidentify.removed.dicomTags": "{count} identifying DICOM tags not sent: {tags}",
+  "deidentify.removed.pseudonym": "Patient ID replaced with pseudonym {pseudonym}",
+  "deidentify.kept": "Kept age {age}, sex {sex}",
+  "deidentify.removed.fileName": "Original file name not sent",
+  "deidentify.removed.edges": "Image edges blacked out ({percent}% per side)",
+  "deidentify.burnedIn": "⚠️ The DICOM header reports burned-in text; consider blacking out the edges.",
+  "deidentify.blackout": "🛡️ Black out edges",
+  "deidentify.blackoutHint": "Fill bands along the image edges with black to hide burned-in names, birth dates and patient numbers",
+  "deidentify.profile": "DICOM:",
+  "deidentify.profileHint": "How DICOM patient tags are handled (the uploaded image never carries tags)",
+  "deidentify.profile.strip": "Strip patient tags",
+  "deidentify.profile.pseudonymize": "Pseudonymize, keep age/sex",
+  "upload.selected": "✅ File selected",
+  "upload.click": "Click to choose a file",
+  "upload.drag": "or drag and drop it here",
+  "upload.dropHere": "📥 Drop the file here",
+  "upload.unsupported": "\"{name}\" is not supported. Only DICOM, PNG or JPEG files are accepted.",
+  "upload.camera": "📷 Photograph a film",
+  "upload.paste": "📋 Or paste an image from the clipboard (Ctrl+V)",
+  "upload.previewAlt": "X-ray preview",
+  "upload.ready": "Ready to analyse",
+  "upload.remove": "Remove file",
+
+  "diagnosis.title": "Initial diagnosis",
+  "diagnosis.hint": "Choose a provisional diagnosis based on observation",
+  "diagnosis.selected": "🎯 Initial diagnosis selected",
+  "diagnosis.Normal.label": "Normal lungs",
+  "diagnosis.Normal.description": "No signs of abnormality",
+  "diagnosis.Pneumonia.label": "Pneumonia",
+  "diagnosis.Pneumonia.description": "Signs of inflammation or infection",
+  "diagnosis.Bronchiolitis.label": "Bronchiolitis",
+  "diagnosis.Bronchiolitis.description": "Fast breathing and wheeze in an infant",
+  "diagnosis.Asthma.label": "Asthma",
+  "diagnosis.Asthma.description": "Bronchospasm, recurrent wheeze",
+  "diagnosis.PleuralEffusion.label": "Pleural effusion",
+  "diagnosis.PleuralEffusion.description": "Suspected fluid in the pleural space",
+  "diagnosis.Tuberculosis.label": "Pulmonary tuberculosis",
+  "diagnosis.Tuberculosis.description": "Suspected TB, prolonged cough",
+  "diagnosis.other.description": "Other diagnosis",
+
+  "symptoms.title": "Clinical symptoms",
+  "symptoms.hint": "Select the symptoms the patient presents with",
+  "symptoms.selected": "✅ {count} symptom(s) selected",
+  "symptom.fever.label": "Fever",
+  "symptom.fever.description": "High body temperature",
+  "symptom.dyspnea.label": "Dyspnoea",
+  "symptom.dyspnea.description": "Difficulty breathing",
+  "symptom.cough.label": "Cough",
+  "symptom.cough.description": "Dry or productive cough",
+  "symptom.wheezing.label": "Wheezing",
+  "symptom.wheezing.description": "Whistling sound when breathing",
+  "symptom.chest_pain.label": "Chest pain",
+  "symptom.chest_pain.description": "Pain or tightness in the chest",
+  "symptom.tachypnea.label": "Tachypnoea",
+  "symptom.tachypnea.description": "Breathing fast for age",
+  "symptom.chest_indrawing.label": "Chest indrawing",
+  "symptom.chest_indrawing.description": "Lower chest wall pulls in on inspiration",
+  "symptom.hypoxemia.label": "Low SpO2",
+  "symptom.hypoxemia.description": "Oxygen saturation below 92%",
+  "symptoms.triggered": "Selected automatically from vitals",
+
+  "patient.title": "Patient & study",
+  "patient.hint": "Use a pseudonymous ID; never enter the name or the hospital record number",
+  "patient.id": "Patient ID (pseudonymous)",
+  "patient.idPlaceholder": "e.g. PT-0231",
+  "patient.age": "Age",
+  "patient.ageUnit": "Age unit",
+  "patient.ageUnit.months": "months",
+  "patient.ageUnit.years": "years",
+  "patient.age.months": "{value} months",
+  "patient.age.years": "{value} years",
+  "patient.sex": "Sex",
+  "patient.sex.M": "Male",
+  "patient.sex.F": "Female",
+  "patient.sex.O": "Other",
+  "patient.weight": "Weight",
+  "patient.studyDate": "Study date",
+  "patient.view": "View position",
+  "patient.view.PA": "Posteroanterior (PA)",
+  "patient.view.AP": "Anteroposterior (AP)",
+  "patient.view.LAT": "Lateral",
+  "patient.department": "Referring department",
+  "patient.invalid.patient_id": "Letters, digits and . _ - only (no spaces)",
+  "patient.invalid.age": "Age must be between 0 and {max}",
+  "patient.invalid.sex": "Invalid sex",
+  "patient.invalid.weight_kg": "Weight must be between {min} and {max} kg",
+  "patient.invalid.study_date": "The study date is invalid or in the future",
+  "patient.invalid.view_position": "Invalid view position",
+  "patient.invalid.referring_department": "At most 80 characters",
+  "department.emergency": "Emergency",
+  "department.respiratory": "Respiratory",
+  "department.neonatal": "Neonatal",
+  "department.icu": "Intensive care",
+  "department.outpatient": "Outpatient clinic",
+  "department.infectious": "Infectious diseases",
+
+  "vitals.title": "Vital signs",
+  "vitals.hint": "Fill in if available; leave blank if not measured",
+  "vitals.outOfRange": "Value must be between {min} and {max}",
+  "vital.temperature.label": "Temperature",
+  "vital.respiratory_rate.label": "Respiratory rate",
+  "vital.respiratory_rate.unit": "breaths/min",
+  "vital.spo2.label": "SpO2",
+
+  "mode.title": "🚀 Analysis mode",
+  "mode.hint": "Choose the processing pipeline",
+  "mode.optimized": "⚡ Optimized",
+  "mode.optimized.description": "30-50% faster",
+  "mode.standard": "🔄 Standard",
+  "mode.standard.description": "Original pipeline",
+  "mode.compare": "⚖️ Compare",
+  "mode.compare.description": "Run both side by side",
+
+  "submit.idle": "Analyse",
+  "submit.loading": "Analysing...",
+  "submit.compare": "Compare Standard and Optimized",
+  "progress.title": "⏱️ Analysis progress",
+  "progress.elapsed": "{seconds}s",
+  "progress.stage.upload": "Uploading to the server",
+  "progress.stage.onnx": "ONNX model",
+  "progress.stage.gpt4o": "GPT-4o",
+  "progress.stage.agreement": "Agreement check",
+  "progress.stage.professor": "Professor AI",
+  "progress.stage.final": "Final decision",
+  "progress.skipped": "skipped",
+  "progress.waiting": "The server doesn't report detailed progress; the result appears when it is done.",
+  "progress.waking": "🌙 Waking up the server, the first request can take up to a minute...",
+  "progress.cancel": "Cancel analysis",
+  "progress.cancelled": "Analysis cancelled.",
+  "compare.title": "⚖️ Standard vs Optimized",
+  "compare.classSame": "✅ Both pipelines agree: {label}",
+  "compare.classChanged": "⚠️ The pipelines disagree: Standard {standard}, Optimized {optimized}",
+  "compare.metric": "Metric",
+  "compare.delta": "Difference",
+  "compare.confidence": "Confidence",
+  "compare.processingTime": "Processing time",
+  "compare.cost": "Cost",
+  "compare.warnings": "Warnings",
+  "compare.labels": "Score difference per label",
+  "compare.labelsHint": "Highlighted when the difference is {threshold} points or more (Optimized − Standard)",
+
+  "result.title": "Analysis result:",
+  "result.reopened": "🗂️ Reopened from history • {date}",
+  "result.clinicalInfo": "Clinical information:",
+  "result.initialDiagnosis": "Initial diagnosis:",
+  "result.symptoms": "Symptoms:",
+  "result.vitals": "Vital signs:",
+  "result.patient": "Patient:",
+  "result.none": "None",
+  "result.mainDiagnosis": "Main diagnosis:",
+  "result.headline.Pneumonia": "The patient shows signs of pneumonia.",
+  "result.headline.Normal": "Normal lungs.",
+  "result.confidence": "({value}% confidence)",
+  "result.probabilities": "Probabilities",
+  "result.details": "Diagnostic details",
+  "result.droppedSections": "⚠️ Some parts of the result were invalid and have been hidden:",
+  "result.warnings": "System notices:",
+  "result.thresholdDiffers": "The model concluded {model}; the verdict above uses a pneumonia threshold of {threshold}%.",
+  "result.thresholdTitle": "Thresholds: alert ≥ {alert}%, watch ≥ {watch}%",
+
+  "enhanced.title": "🚀 AI system information",
+  "enhanced.show": "Show details",
+  "enhanced.hide": "Hide details",
+  "enhanced.system": "System:",
+  "enhanced.models": "AI Models:",
+  "enhanced.processingTime": "Processing time:",
+  "enhanced.agreement": "AI Agreement:",
+  "enhanced.disagreement": "⚠️ Disagreement detected",
+  "enhanced.agree": "✅ AIs agree",
+  "enhanced.professor": "Professor AI:",
+  "enhanced.professorActivated": "🩺 Activated ({diagnosis})",
+  "enhanced.professorNotNeeded": "Not needed",
+  "enhanced.cost": "Cost:",
+  "enhanced.optimizations": "Optimizations:",
+  "decision.title": "🧠 Model opinions and final decision",
+  "decision.flow": "How the decision was reached",
+  "decision.onnx": "ONNX DenseNet121",
+  "decision.gpt4o": "GPT-4o",
+  "decision.professor": "Professor AI",
+  "decision.agreement": "Agreement check",
+  "decision.final": "Final decision",
+  "decision.confidence": "{value}% confidence",
+  "decision.stage": "Stage: {stage}",
+  "decision.findings": "Findings:",
+  "decision.reasoning": "Reasoning:",
+  "decision.recommendations": "Recommendations:",
+  "decision.risk": "Risk assessment:",
+  "decision.notTriggered": "Not triggered",
+  "decision.failed": "Triggered but returned no result",
+  "decision.decidedBy": "Decided by: {maker}",
+  "decision.maker.onnx_gpt4o_consensus": "ONNX and GPT-4o consensus",
+  "decision.maker.onnx_safety_first": "ONNX result kept for safety",
+  "decision.maker.professor": "Professor AI",
+
+  "eigencam.generate": "AI explanation",
+  "eigencam.loading": "Generating explanation...",
+  "eigencam.waking": "Waking up the Eigencam server...",
+  "eigencam.result": "Eigencam result:",
+  "eigencam.image": "X-ray image:",
+
+  "report.export": "📄 Export PDF report",
+  "report.exporting": "Building report...",
+  "feedback.title": "📝 Clinician review",
+  "feedback.hint": "Was this result right? Reviews are used to measure and retrain the model.",
+  "feedback.agree": "👍 Agree",
+  "feedback.disagree": "👎 Disagree",
+  "feedback.correct": "✏️ Correct to...",
+  "feedback.correctLabel": "Correct diagnosis:",
+  "feedback.chooseLabel": "-- Choose --",
+  "feedback.labels": "Correct individual findings (optional, {count} corrected)",
+  "feedback.labelUnset": "—",
+  "feedback.labelPresent": "Present",
+  "feedback.labelAbsent": "Absent",
+  "feedback.note": "Note",
+  "feedback.notePlaceholder": "e.g. confirmed by CT, lab results...",
+  "feedback.reviewer": "Reviewer",
+  "feedback.save": "Save review",
+  "feedback.saving": "Saving...",
+  "feedback.saved": "✅ Reviewed by {reviewer} at {date}.",
+  "feedback.synced": "☁️ Sent to the server.",
+  "feedback.syncFailed": "Saved on this device but not sent: {error}",
+  "feedback.signInRequired": "Please sign in to save a review.",
+  "feedback.correctLabelRequired": "Please choose the correct diagnosis.",
+  "feedback.saveError": "Could not save the review in this browser.",
+  "report.title": "CHEST X-RAY AI ANALYSIS REPORT",
+  "report.analyzedAt": "Analysed at: {date}",
+  "report.images": "Images",
+  "report.originalImage": "Original X-ray",
+  "report.eigencamImage": "Eigencam map",
+  "report.eigencamMissing": "The Eigencam image could not be embedded in the report.",
+  "report.clinicalInfo": "Clinical information",
+  "report.file": "Image file",
+  "report.initialDiagnosis": "Initial diagnosis",
+  "report.symptoms": "Symptoms",
+  "report.vitals": "Vital signs",
+  "report.patient": "Patient & study",
+  "report.aiResult": "AI analysis result",
+  "report.mainDiagnosis": "Main diagnosis",
+  "report.headline.Pneumonia": "Signs of pneumonia",
+  "report.headline.Normal": "Normal lungs",
+  "report.confidence": "Confidence",
+  "report.triage": "Triage",
+  "report.thresholds": "Decision thresholds",
+  "report.thresholdsValue": "{mode}, pneumonia ≥ {value}",
+  "report.probabilities": "Probabilities",
+  "report.pipeline": "Pipeline",
+  "report.model": "Model",
+  "report.topLabels": "Diagnostic details (highest scoring labels):",
+  "report.finalDecision": "Final decision",
+  "report.diagnosis": "Diagnosis",
+  "report.decisionMaker": "Decided by",
+  "report.reasoning": "Reasoning",
+  "report.warnings": "Safety warnings",
+  "report.disclaimerTitle": "Disclaimer",
+  "report.disclaimer":
+    "This result was produced automatically by an artificial intelligence system and is for reference only. It does not replace the diagnosis of a qualified physician. Clinical decisions must be based on direct examination, the original images and relevant investigations.",
+  "report.generatedAt": "Exported {date}",
+  "report.page": "Page {page}/{total}",
+  "report.fileName": "xray-report",
+
+  "viewer.side": "Side by side",
+  "viewer.overlay": "Overlay",
+  "viewer.opacity": "Heatmap opacity",
+  "viewer.brightness": "Brightness",
+  "viewer.contrast": "Contrast",
+  "viewer.zoomOut": "Zoom out",
+  "viewer.zoomIn": "Zoom in",
+  "viewer.reset": "Reset",
+  "viewer.fullscreen": "⛶ Full screen",
+  "viewer.exitFullscreen": "Exit full screen",
+  "viewer.original": "Original",
+  "viewer.originalAlt": "Original X-ray",
+  "viewer.heatmap": "Eigencam",
+  "viewer.heatmapAlt": "Eigencam explanation",
+  "viewer.combined": "Original + Eigencam",
+
+  "history.title": "Analysis history",
+  "history.heading": "🗂️ Analysis history",
+  "history.description": "X-ray cases analysed on this device",
+  "history.search": "Search by file name, diagnosis, symptom, label...",
+  "history.searchLabel": "Search history",
+  "history.readError": "Could not read the analysis history in this browser.",
+  "history.deleteError": "Could not delete the analysis.",
+  "history.deleteConfirm": "Delete \"{name}\" from the history?",
+  "history.loading": "Loading...",
+  "history.empty": "No analyses yet.",
+  "history.noMatch": "No matching analyses.",
+  "history.reopen": "Reopen",
+  "history.delete": "Delete",
+  "history.groupByPatient": "🧒 Group by patient",
+  "history.noPatient": "No patient ID",
+  "history.patientStudies": "{count} studies",
+  "history.exportFeedback": "⬇️ Export feedback (JSONL)",
+  "history.syncFeedback": "☁️ Send unsynced feedback",
+  "history.feedbackExported": "Exported {count} feedback records.",
+  "history.feedbackSynced": "Sent {count} feedback records.",
+  "history.feedbackError": "Could not process the feedback data.",
+
+  "timeline.title": "Patient timeline",
+  "timeline.description": "A patient's X-ray studies over time",
+  "timeline.heading": "📈 Patient {id} timeline",
+  "timeline.hint": "Analyses stored in this browser with the same patient ID, in study date order.",
+  "timeline.empty": "No analyses with this patient ID on this device yet.",
+  "timeline.latestTrend": "Latest study:",
+  "timeline.trend.improving": "📉 Improving",
+  "timeline.trend.worsening": "📈 Worsening",
+  "timeline.trend.stable": "➖ Stable",
+  "timeline.trendDetail": "Pneumonia probability {from} → {to} since the study of {date}",
+  "timeline.singleStudy": "Only one study so far; another is needed for a comparison.",
+  "timeline.chartTitle": "Trend over time",
+  "timeline.time": "Study date",
+  "timeline.probability": "Probability",
+  "timeline.labels": "Findings:",
+  "timeline.pneumonia": "Pneumonia probability",
+  "timeline.studies": "{count} studies",
+  "timeline.column.date": "Study date",
+  "timeline.column.context": "View / age / weight",
+  "timeline.column.result": "Result",
+  "timeline.column.change": "Change (% points)",
+  "timeline.column.compare": "Compare A / B",
+  "timeline.column.finding": "Finding",
+  "timeline.studyA": "Use as study A",
+  "timeline.studyB": "Use as study B",
+  "timeline.compareTitle": "🔍 Two studies side by side",
+  "timeline.earlier": "Earlier",
+  "timeline.later": "Later",
+  "timeline.pickTwo": "Pick two different studies to compare.",
+  "history.timeline": "📈 Timeline",
+  "dashboard.title": "Model performance",
+  "dashboard.description": "Model evaluation metrics from clinician reviews",
+  "dashboard.heading": "📈 Model performance",
+  "dashboard.hint": "Computed from the clinician reviews stored on this device. Only cases whose correct diagnosis is Normal or Pneumonia count towards the confusion matrix.",
+  "dashboard.readError": "Could not read the history or reviews in this browser.",
+  "dashboard.empty": "No reviews in this period yet.",
+  "dashboard.month": "Month",
+  "dashboard.allMonths": "All months",
+  "dashboard.analyses": "Analyses",
+  "dashboard.reviewed": "Reviewed",
+  "dashboard.agreement": "Agreement rate",
+  "dashboard.labelled": "Binary ground truth",
+  "dashboard.confusion": "Confusion matrix",
+  "dashboard.predicted": "Predicted: {label}",
+  "dashboard.actual": "Actual: {label}",
+  "dashboard.sensitivity": "Sensitivity",
+  "dashboard.specificity": "Specificity",
+  "dashboard.ppv": "Positive predictive value",
+  "dashboard.npv": "Negative predictive value",
+  "dashboard.accuracy": "Accuracy",
+  "dashboard.calibration": "Calibration curve",
+  "dashboard.ece": "Expected calibration error (ECE): {value}",
+  "dashboard.confidence": "Confidence",
+  "dashboard.observedAccuracy": "Observed accuracy",
+  "dashboard.perLabel": "ROC / PR per finding",
+  "dashboard.noLabels": "No findings have been confirmed by a clinician yet.",
+  "dashboard.needBothClasses": "Needs at least one positive and one negative case.",
+  "dashboard.label": "Finding",
+  "dashboard.positives": "Positive",
+  "dashboard.negatives": "Negative",
+  "dashboard.fpr": "False positive rate",
+  "dashboard.tpr": "True positive rate",
+  "dashboard.recall": "Recall",
+  "dashboard.precision": "Precision",
+  "dashboard.byPipeline": "By pipeline",
+  "dashboard.byModel": "By model",
+  "dashboard.group": "Group",
+  "dashboard.unknownModel": "Unknown",
+
+  "batch.title": "Batch analysis",
+  "batch.heading": "📚 Batch analysis",
+  "batch.description": "Upload many X-rays and analyse them in a queue",
+  "batch.history": "🗂️ History",
+  "batch.pickFiles": "📄 Choose files",
+  "batch.pickFolder": "📁 Choose folder",
+  "batch.mode": "Mode:",
+  "batch.concurrency": "Concurrent analyses:",
+  "batch.progress": "{done}/{total} images processed",
+  "batch.cancelAll": "Cancel all",
+  "batch.clearFinished": "Clear finished",
+  "batch.column.file": "File",
+  "batch.column.status": "Status",
+  "batch.column.triage": "Triage",
+  "batch.column.diagnosis": "Diagnosis",
+  "batch.column.confidence": "Confidence",
+  "batch.column.labels": "Top labels",
+  "batch.details": "Details",
+  "batch.cancel": "Cancel",
+  "batch.retry": "Retry",
+  "batch.status.queued": "Queued",
+  "batch.status.preparing": "Preparing",
+  "batch.status.analyzing": "Analysing",
+  "batch.status.done": "Done",
+  "batch.status.error": "Error",
+  "batch.status.cancelled": "Cancelled",
+
+  "thresholds.title": "🎚️ Decision thresholds • {mode}",
+  "thresholds.hint": "Scores at or above the alert threshold count as present (red); at or above the watch threshold they need a look (yellow). Settings are kept in this browser and recorded with every result.",
+  "thresholds.mode.screening": "Screening (sensitive)",
+  "thresholds.mode.screening.description": "Lower thresholds, fewer misses - recommended for paediatric screening",
+  "thresholds.mode.specificity": "Specificity",
+  "thresholds.mode.specificity.description": "Higher thresholds, fewer false alarms",
+  "thresholds.label": "Finding",
+  "thresholds.alert": "Alert",
+  "thresholds.watch": "Watch",
+  "thresholds.reset": "Restore defaults ({count} edited)",
+  "triage.title": "Triage:",
+  "triage.urgent": "Urgent",
+  "triage.review": "Review",
+  "triage.routine": "Routine",
+  "triage.reason.warning": "safety alert",
+  "triage.reason.disagreement": "models disagree",
+  "triage.mode": "({mode} mode)",
+
+  "label.No Finding": "No finding",
+  "label.Normal": "Normal",
+  "label.Pneumonia": "Pneumonia",
+  "label.Atelectasis": "Atelectasis",
+  "label.Cardiomegaly": "Cardiomegaly",
+  "label.Consolidation": "Consolidation",
+  "label.Edema": "Oedema",
+  "label.Effusion": "Pleural effusion",
+  "label.Pleural Effusion": "Pleural effusion",
+  "label.Emphysema": "Emphysema",
+  "label.Fibrosis": "Fibrosis",
+  "label.Hernia": "Hernia",
+  "label.Infiltration": "Infiltration",
+  "label.Lung Opacity": "Lung opacity",
+  "label.Mass": "Mass",
+  "label.Nodule": "Nodule",
+  "label.Pleural_Thickening": "Pleural thickening",
+  "label.Pleural Thickening": "Pleural thickening",
+  "label.Pneumothorax": "Pneumothorax",
+  "label.Fracture": "Fracture",
+  "label.Support Devices": "Support devices",
+  "label.Enlarged Cardiomediastinum": "Enlarged cardiomediastinum",
+  "label.Lung Lesion": "Lung lesion",
+  "label.Bronchiolitis": "Bronchiolitis",
+  "label.Tuberculosis": "Tuberculosis",
+};
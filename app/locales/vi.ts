@@ -0,0 +1,553 @@
+// Vietnamese is the source catalogue: every other locale must define the same keys.
+// Placeholders use {name} and are filled in by `t(key, { name })`.
+
+export const vi = {
+  "app.title": "Phân tích hình ảnh phổi",
+  "app.description": "Upload X-ray và chẩn đoán lâm sàng để kiểm tra phổi",
+  "app.subtitle": "Tải lên ảnh X-quang và nhập thông tin lâm sàng để phân tích tự động bằng AI",
+  "app.logoAlt": "Logo Bệnh viện Nhi Đồng 2",
+  "app.hospitalName": "Bệnh viện Nhi Đồng 2",
+  "app.language": "Ngôn ngữ",
+  "app.mockBackend": "🧪 Backend giả lập",
+  "app.mockBackendHint": "Đang dùng dữ liệu mẫu (MOCK_BACKEND), không gọi mô hình AI thật",
+
+  "nav.batch": "📚 Phân tích hàng loạt",
+  "nav.history": "🗂️ Lịch sử phân tích",
+  "nav.dashboard": "📈 Hiệu năng mô hình",
+  "nav.newAnalysis": "← Phân tích mới",
+  "nav.singleAnalysis": "← Phân tích một ảnh",
+  "nav.audit": "🧾 Nhật ký truy vết",
+
+  // Sign-in and roles
+  "login.title": "Đăng nhập",
+  "login.subtitle": "Đăng nhập để phân tích ảnh X-quang",
+  "login.username": "Tên đăng nhập",
+  "login.password": "Mật khẩu",
+  "login.submit": "Đăng nhập",
+  "login.submitting": "Đang đăng nhập...",
+  "login.invalid": "Sai tên đăng nhập hoặc mật khẩu.",
+  "login.oidc": "🔑 Đăng nhập bằng tài khoản bệnh viện",
+  "login.oidcError": "Đăng nhập bằng tài khoản bệnh viện không thành công. Vui lòng thử lại.",
+  "login.oidcUnavailable": "Không kết nối được tới máy chủ đăng nhập của bệnh viện.",
+  "login.demoHint": "Backend giả lập: nếu chưa có users.json, dùng clinician / radiologist / admin với mật khẩu demo.",
+  "login.logout": "Đăng xuất",
+  "role.clinician": "Bác sĩ lâm sàng",
+  "role.radiologist": "Bác sĩ chẩn đoán hình ảnh",
+  "role.admin": "Quản trị",
+
+  // Audit log (admins)
+  "audit.title": "Nhật ký truy vết",
+  "audit.heading": "🧾 Nhật ký truy vết",
+  "audit.hint": "Mọi lần phân tích, tạo Eigencam và mở lại kết quả đều được ghi lại trên máy chủ, chỉ thêm, không sửa.",
+  "audit.exportCsv": "⬇️ Xuất CSV",
+  "audit.exportJson": "⬇️ Xuất JSON",
+  "audit.user": "Người dùng",
+  "audit.endpoint": "Thao tác",
+  "audit.predictedClass": "Kết luận",
+  "audit.from": "Từ ngày",
+  "audit.to": "Đến ngày",
+  "audit.all": "Tất cả",
+  "audit.filter": "Lọc",
+  "audit.clear": "Xóa bộ lọc",
+  "audit.count": "{total} bản ghi",
+  "audit.countLimited": "Hiển thị {shown} / {total} bản ghi mới nhất; bản xuất có đầy đủ.",
+  "audit.empty": "Không có bản ghi nào.",
+  "audit.time": "Thời điểm",
+  "audit.result": "Kết quả",
+  "audit.model": "Mô hình",
+  "audit.image": "Ảnh (SHA-256)",
+  "audit.warnings": "Cảnh báo",
+
+  "error.title": "Đã xảy ra lỗi!",
+  "error.body": "Vui lòng thử lại hoặc liên hệ quản trị viên nếu lỗi tiếp tục xảy ra.",
+  "error.noFile": "Vui lòng chọn file ảnh X-quang!",
+  "error.dicom": "Không đọc được file DICOM: {detail}",
+  "error.analyze": "Có lỗi xảy ra khi gửi file hoặc gọi API.",
+  "error.analyzeFailed": "Phân tích không thành công",
+  "error.analyzeFailedDetail": "Phân tích không thành công: {detail}",
+  "error.invalidResponse": "Phản hồi từ máy chủ không hợp lệ: {detail}",
+  "error.clinicalInfo": "Thông tin lâm sàng không hợp lệ: {detail}",
+  "error.historyNotFound": "Không tìm thấy ca phân tích trong lịch sử.",
+  "error.report": "Không thể xuất báo cáo PDF.",
+  "error.forbidden": "Không có quyền truy cập",
+  "error.forbiddenBody": "Vai trò của bạn không được mở trang này.",
+  "error.eigencamMissingIds": "Không có ID Cloudinary hoặc tên model từ kết quả phân tích để tạo Eigencam.",
+  "error.eigencamFailed": "Tạo Eigencam không thành công",
+  "error.eigencam": "Có lỗi xảy ra khi tạo Eigencam.",
+  "error.api.network": "Không kết nối được tới máy chủ. Vui lòng kiểm tra mạng và thử lại.",
+  "error.api.timeout": "Máy chủ không phản hồi kịp. Vui lòng thử lại sau ít phút.",
+  "error.api.validation": "Máy chủ từ chối yêu cầu (HTTP {status}): {detail}",
+  "error.api.server": "Máy chủ gặp lỗi (HTTP {status}): {detail}",
+  "error.api.requestId": "(Mã yêu cầu: {id})",
+  "error.api.auth": "Phiên đăng nhập đã hết hạn. Vui lòng tải lại trang và đăng nhập lại.",
+  "error.api.forbidden": "Vai trò của bạn không được thực hiện thao tác này.",
+
+  "upload.title": "Tải lên ảnh X-quang",
+  "upload.hint": "Hỗ trợ DICOM, PNG, JPEG (tối đa 10MB)",
+  "upload.preparing": "⏳ Đang kiểm tra ảnh...",
+  "upload.lossless": "Giữ chất lượng chẩn đoán (PNG, không nén mất dữ liệu)",
+  "upload.losslessHint": "Thu nhỏ tối đa 1600px và lưu PNG thay vì JPEG 800px",
+  "upload.warning.color": "⚠️ Ảnh có màu, có thể không phải phim X-quang ngực",
+  "upload.warning.lowContrast": "⚠️ Độ tương phản rất thấp, kết quả có thể kém chính xác",
+  "upload.error.tooLarge": "File {size}MB vượt quá giới hạn {max}MB.",
+  "upload.error.unsupportedType": "Không hỗ trợ định dạng {type}. Chỉ nhận DICOM, PNG hoặc JPEG.",
+  "upload.error.badSignature": "Nội dung file \"{name}\" không phải DICOM, PNG hoặc JPEG.",
+  "upload.error.decodeFailed": "Không đọc được ảnh, file có thể bị hỏng.",
+  "upload.error.decodeTimeout": "Đọc ảnh quá lâu, vui lòng thử lại với file khác.",
+  "upload.error.tooSmall": "Ảnh {width}×{height} quá nhỏ (tối thiểu {min}px mỗi cạnh).",
+  "upload.error.deidentifyFailed": "Không ẩn danh được ảnh nên chưa gửi đi. Vui lòng thử lại hoặc dùng file khác.",
+  "upload.error.encodeFailed": "Không thu nhỏ được ảnh để tải lên nên chưa gửi đi. Vui lòng thử lại hoặc dùng file khác.",
+
+  // De-identification before upload
+  "deidentify.title": "🛡️ Đã ẩn danh trước khi gửi:",
+  "deidentify.clean": "🛡️ Không tìm thấy thông tin định danh trong file.",
+  "deidentify.metadata.exif": "EXIF",
+  "deidentify.metadata.xmp": "XMP",
+  "deidentify.metadata.iptc": "IPTC",
+  "deidentify.metadata.comment": "chú thích",
+  "deidentify.metadata.text": "đoạn văn bản PNG",
+  "deidentify.removed.metadata": "Đã xóa siêu dữ liệu ảnh: {kinds}",
+  "deidentify.removed.dicomTags": "Không gửi {count} thẻ DICOM định danh: {tags}",
+  "deidentify.removed.pseudonym": "Mã bệnh nhân được thay bằng bí danh {pseudonym}",
+  "deidentify.kept": "Giữ lại tuổi {age}, giới {sex}",
+  "deidentify.removed.fileName": "Không gửi tên file gốc",
+  "deidentify.removed.edges": "Đã che đen viền ảnh ({percent}% mỗi cạnh)",
+  "deidentify.burnedIn": "⚠️ DICOM ghi nhận có chữ in trên ảnh; nên bật che viền.",
+  "deidentify.blackout": "🛡️ Che viền ảnh",
+  "deidentify.blackoutHint": "Tô đen các dải sát mép ảnh để che tên, ngày sinh, mã bệnh nhân in sẵn",
+  "deidentify.profile": "DICOM:",
+  "deidentify.profileHint": "Cách xử lý thẻ bệnh nhân của file DICOM (ảnh gửi đi không bao giờ kèm thẻ)",
+  "deidentify.profile.strip": "Xóa hết thẻ bệnh nhân",
+  "deidentify.profile.pseudonymize": "Dùng bí danh, giữ tuổi/giới",
+  "upload.selected": "✅ Đã chọn file thành công",
+  "upload.click": "Nhấn để chọn file",
+  "upload.drag": "hoặc kéo thả file vào đây",
+  "upload.dropHere": "📥 Thả file vào đây",
+  "upload.unsupported": "Không hỗ trợ file \"{name}\". Chỉ nhận DICOM, PNG hoặc JPEG.",
+  "upload.camera": "📷 Chụp ảnh phim",
+  "upload.paste": "📋 Hoặc dán ảnh từ clipboard (Ctrl+V)",
+  "upload.previewAlt": "Xem trước ảnh X-quang",
+  "upload.ready": "Sẵn sàng phân tích",
+  "upload.remove": "Xóa file",
+
+  "diagnosis.title": "Chẩn đoán ban đầu",
+  "diagnosis.hint": "Chọn chẩn đoán sơ bộ dựa trên quan sát",
+  "diagnosis.selected": "🎯 Đã chọn chẩn đoán ban đầu",
+  "diagnosis.Normal.label": "Phổi bình thường",
+  "diagnosis.Normal.description": "Không có dấu hiệu bất thường",
+  "diagnosis.Pneumonia.label": "Viêm phổi",
+  "diagnosis.Pneumonia.description": "Có dấu hiệu viêm hoặc nhiễm trùng",
+  "diagnosis.Bronchiolitis.label": "Viêm tiểu phế quản",
+  "diagnosis.Bronchiolitis.description": "Thở nhanh, khò khè ở trẻ nhỏ",
+  "diagnosis.Asthma.label": "Hen phế quản",
+  "diagnosis.Asthma.description": "Co thắt phế quản, khò khè tái diễn",
+  "diagnosis.PleuralEffusion.label": "Tràn dịch màng phổi",
+  "diagnosis.PleuralEffusion.description": "Nghi có dịch trong khoang màng phổi",
+  "diagnosis.Tuberculosis.label": "Lao phổi",
+  "diagnosis.Tuberculosis.description": "Nghi nhiễm lao, ho kéo dài",
+  "diagnosis.other.description": "Chẩn đoán khác",
+
+  "symptoms.title": "Triệu chứng lâm sàng",
+  "symptoms.hint": "Chọn các triệu chứng mà bệnh nhân đang gặp phải",
+  "symptoms.selected": "✅ Đã chọn {count} triệu chứng",
+  "symptom.fever.label": "Sốt",
+  "symptom.fever.description": "Nhiệt độ cơ thể cao",
+  "symptom.dyspnea.label": "Khó thở",
+  "symptom.dyspnea.description": "Khó khăn trong hô hấp",
+  "symptom.cough.label": "Ho",
+  "symptom.cough.description": "Ho khan hoặc có đờm",
+  "symptom.wheezing.label": "Thở khò khè",
+  "symptom.wheezing.description": "Tiếng rít khi thở",
+  "symptom.chest_pain.label": "Đau ngực",
+  "symptom.chest_pain.description": "Đau hoặc tức ngực",
+  "symptom.tachypnea.label": "Thở nhanh",
+  "symptom.tachypnea.description": "Nhịp thở nhanh so với tuổi",
+  "symptom.chest_indrawing.label": "Rút lõm lồng ngực",
+  "symptom.chest_indrawing.description": "Lồng ngực rút lõm khi hít vào",
+  "symptom.hypoxemia.label": "SpO2 thấp",
+  "symptom.hypoxemia.description": "Độ bão hòa oxy dưới 92%",
+  "symptoms.triggered": "Tự động chọn theo sinh hiệu",
+
+  // Patient and study context
+  "patient.title": "Bệnh nhân & lần chụp",
+  "patient.hint": "Dùng mã ẩn danh, không nhập họ tên hay mã hồ sơ bệnh viện",
+  "patient.id": "Mã bệnh nhân (ẩn danh)",
+  "patient.idPlaceholder": "VD: BN-0231",
+  "patient.age": "Tuổi",
+  "patient.ageUnit": "Đơn vị tuổi",
+  "patient.ageUnit.months": "tháng",
+  "patient.ageUnit.years": "năm",
+  "patient.age.months": "{value} tháng",
+  "patient.age.years": "{value} tuổi",
+  "patient.sex": "Giới tính",
+  "patient.sex.M": "Nam",
+  "patient.sex.F": "Nữ",
+  "patient.sex.O": "Khác",
+  "patient.weight": "Cân nặng",
+  "patient.studyDate": "Ngày chụp",
+  "patient.view": "Tư thế chụp",
+  "patient.view.PA": "Thẳng sau-trước (PA)",
+  "patient.view.AP": "Thẳng trước-sau (AP)",
+  "patient.view.LAT": "Nghiêng",
+  "patient.department": "Khoa chỉ định",
+  "patient.invalid.patient_id": "Chỉ dùng chữ, số và . _ - (không dấu cách)",
+  "patient.invalid.age": "Tuổi phải từ 0 đến {max}",
+  "patient.invalid.sex": "Giới tính không hợp lệ",
+  "patient.invalid.weight_kg": "Cân nặng phải từ {min} đến {max} kg",
+  "patient.invalid.study_date": "Ngày chụp không hợp lệ hoặc ở tương lai",
+  "patient.invalid.view_position": "Tư thế chụp không hợp lệ",
+  "patient.invalid.referring_department": "Tên khoa tối đa 80 ký tự",
+  "department.emergency": "Cấp cứu",
+  "department.respiratory": "Hô hấp",
+  "department.neonatal": "Sơ sinh",
+  "department.icu": "Hồi sức tích cực",
+  "department.outpatient": "Khám bệnh",
+  "department.infectious": "Nhiễm",
+
+  "vitals.title": "Sinh hiệu",
+  "vitals.hint": "Nhập nếu có; để trống nếu chưa đo",
+  "vitals.outOfRange": "Giá trị phải từ {min} đến {max}",
+  "vital.temperature.label": "Nhiệt độ",
+  "vital.respiratory_rate.label": "Nhịp thở",
+  "vital.respiratory_rate.unit": "lần/phút",
+  "vital.spo2.label": "SpO2",
+
+  "mode.title": "🚀 Chế độ phân tích",
+  "mode.hint": "Chọn phương thức xử lý phù hợp",
+  "mode.optimized": "⚡ Optimized",
+  "mode.optimized.description": "Nhanh hơn 30-50%",
+  "mode.standard": "🔄 Standard",
+  "mode.standard.description": "Truyền thống",
+  "mode.compare": "⚖️ So sánh",
+  "mode.compare.description": "Chạy cả hai và so sánh",
+
+  "submit.idle": "Phân tích",
+  "submit.loading": "Đang phân tích...",
+  "submit.compare": "So sánh Standard và Optimized",
+  "progress.title": "⏱️ Tiến trình phân tích",
+  "progress.elapsed": "{seconds}s",
+  "progress.stage.upload": "Tải ảnh lên máy chủ",
+  "progress.stage.onnx": "Mô hình ONNX",
+  "progress.stage.gpt4o": "GPT-4o",
+  "progress.stage.agreement": "Kiểm tra đồng thuận",
+  "progress.stage.professor": "Professor AI",
+  "progress.stage.final": "Quyết định cuối cùng",
+  "progress.skipped": "bỏ qua",
+  "progress.waiting": "Máy chủ không gửi tiến trình chi tiết, kết quả sẽ hiển thị khi hoàn tất.",
+  "progress.waking": "🌙 Đang đánh thức máy chủ, lần đầu có thể mất tới 1 phút...",
+  "progress.cancel": "Hủy phân tích",
+  "progress.cancelled": "Đã hủy phân tích.",
+  "compare.title": "⚖️ So sánh Standard và Optimized",
+  "compare.classSame": "✅ Hai pipeline cùng kết luận: {label}",
+  "compare.classChanged": "⚠️ Hai pipeline cho kết luận khác nhau: Standard {standard}, Optimized {optimized}",
+  "compare.metric": "Chỉ số",
+  "compare.delta": "Chênh lệch",
+  "compare.confidence": "Độ tin cậy",
+  "compare.processingTime": "Thời gian xử lý",
+  "compare.cost": "Chi phí",
+  "compare.warnings": "Số cảnh báo",
+  "compare.labels": "Chênh lệch điểm theo nhãn",
+  "compare.labelsHint": "Tô vàng khi chênh lệch từ {threshold} điểm % trở lên (Optimized − Standard)",
+
+  "result.title": "Kết quả phân tích:",
+  "result.reopened": "🗂️ Mở lại từ lịch sử • {date}",
+  "result.clinicalInfo": "Thông tin lâm sàng:",
+  "result.initialDiagnosis": "Chẩn đoán ban đầu:",
+  "result.symptoms": "Triệu chứng:",
+  "result.vitals": "Sinh hiệu:",
+  "result.patient": "Bệnh nhân:",
+  "result.none": "Không có",
+  "result.mainDiagnosis": "Chẩn đoán chính:",
+  "result.headline.Pneumonia": "Bệnh nhân có dấu hiệu viêm phổi.",
+  "result.headline.Normal": "Phổi bình thường.",
+  "result.confidence": "({value}% tin cậy)",
+  "result.probabilities": "Xác suất phân tích",
+  "result.details": "Chi tiết chẩn đoán",
+  "result.droppedSections": "⚠️ Một số phần của kết quả không hợp lệ và đã bị ẩn:",
+  "result.warnings": "Thông báo hệ thống:",
+  "result.thresholdDiffers": "Mô hình kết luận {model}; kết luận trên dùng ngưỡng viêm phổi {threshold}%.",
+  "result.thresholdTitle": "Ngưỡng: cảnh báo ≥ {alert}%, theo dõi ≥ {watch}%",
+
+  "enhanced.title": "🚀 Thông tin hệ thống AI",
+  "enhanced.show": "Hiện chi tiết",
+  "enhanced.hide": "Ẩn chi tiết",
+  "enhanced.system": "Hệ thống:",
+  "enhanced.models": "AI Models:",
+  "enhanced.processingTime": "Thời gian xử lý:",
+  "enhanced.agreement": "Đồng thuận AI:",
+  "enhanced.disagreement": "⚠️ Các AI không đồng thuận",
+  "enhanced.agree": "✅ Các AI đồng thuận",
+  "enhanced.professor": "Professor AI:",
+  "enhanced.professorActivated": "🩺 Đã kích hoạt ({diagnosis})",
+  "enhanced.professorNotNeeded": "Không cần thiết",
+  "enhanced.cost": "Chi phí:",
+  "enhanced.optimizations": "Tối ưu hóa:",
+  "decision.title": "🧠 Ý kiến từng mô hình và quyết định cuối",
+  "decision.flow": "Quá trình ra quyết định",
+  "decision.onnx": "ONNX DenseNet121",
+  "decision.gpt4o": "GPT-4o",
+  "decision.professor": "Professor AI",
+  "decision.agreement": "Kiểm tra đồng thuận",
+  "decision.final": "Quyết định cuối cùng",
+  "decision.confidence": "{value}% tin cậy",
+  "decision.stage": "Giai đoạn: {stage}",
+  "decision.findings": "Phát hiện:",
+  "decision.reasoning": "Lập luận:",
+  "decision.recommendations": "Khuyến nghị:",
+  "decision.risk": "Đánh giá nguy cơ:",
+  "decision.notTriggered": "Không kích hoạt",
+  "decision.failed": "Đã kích hoạt nhưng không trả về kết quả",
+  "decision.decidedBy": "Quyết định bởi: {maker}",
+  "decision.maker.onnx_gpt4o_consensus": "ONNX và GPT-4o đồng thuận",
+  "decision.maker.onnx_safety_first": "Ưu tiên kết quả ONNX vì an toàn",
+  "decision.maker.professor": "Professor AI",
+
+  "eigencam.generate": "Kết quả giải thích AI",
+  "eigencam.loading": "Đang giải thích...",
+  "eigencam.waking": "Đang đánh thức máy chủ Eigencam...",
+  "eigencam.result": "Kết quả Eigencam:",
+  "eigencam.image": "Ảnh X-quang:",
+
+  "report.export": "📄 Xuất báo cáo PDF",
+  "report.exporting": "Đang tạo báo cáo...",
+  "feedback.title": "📝 Đánh giá của bác sĩ",
+  "feedback.hint": "Kết quả này có đúng không? Đánh giá được dùng để đo lường và huấn luyện lại mô hình.",
+  "feedback.agree": "👍 Đồng ý",
+  "feedback.disagree": "👎 Không đồng ý",
+  "feedback.correct": "✏️ Sửa thành...",
+  "feedback.correctLabel": "Chẩn đoán đúng:",
+  "feedback.chooseLabel": "-- Chọn --",
+  "feedback.labels": "Sửa từng phát hiện (tùy chọn, đã sửa {count})",
+  "feedback.labelUnset": "—",
+  "feedback.labelPresent": "Có",
+  "feedback.labelAbsent": "Không",
+  "feedback.note": "Ghi chú",
+  "feedback.notePlaceholder": "Ví dụ: xác nhận bằng CT, kết quả xét nghiệm...",
+  "feedback.reviewer": "Người đánh giá",
+  "feedback.save": "Lưu đánh giá",
+  "feedback.saving": "Đang lưu...",
+  "feedback.saved": "✅ {reviewer} đã đánh giá lúc {date}.",
+  "feedback.synced": "☁️ Đã gửi lên máy chủ.",
+  "feedback.syncFailed": "Đã lưu trên máy này nhưng chưa gửi được: {error}",
+  "feedback.signInRequired": "Vui lòng đăng nhập để lưu đánh giá.",
+  "feedback.correctLabelRequired": "Vui lòng chọn chẩn đoán đúng.",
+  "feedback.saveError": "Không lưu được đánh giá trên trình duyệt này.",
+  "report.title": "BÁO CÁO PHÂN TÍCH X-QUANG PHỔI (AI)",
+  "report.analyzedAt": "Thời gian phân tích: {date}",
+  "report.images": "Hình ảnh",
+  "report.originalImage": "Ảnh X-quang gốc",
+  "report.eigencamImage": "Bản đồ Eigencam",
+  "report.eigencamMissing": "Không thể nhúng ảnh Eigencam vào báo cáo.",
+  "report.clinicalInfo": "Thông tin lâm sàng",
+  "report.file": "Tệp ảnh",
+  "report.initialDiagnosis": "Chẩn đoán ban đầu",
+  "report.symptoms": "Triệu chứng",
+  "report.vitals": "Sinh hiệu",
+  "report.patient": "Bệnh nhân & lần chụp",
+  "report.aiResult": "Kết quả phân tích AI",
+  "report.mainDiagnosis": "Chẩn đoán chính",
+  "report.headline.Pneumonia": "Có dấu hiệu viêm phổi",
+  "report.headline.Normal": "Phổi bình thường",
+  "report.confidence": "Độ tin cậy",
+  "report.triage": "Phân loại ưu tiên",
+  "report.thresholds": "Ngưỡng quyết định",
+  "report.thresholdsValue": "{mode}, viêm phổi ≥ {value}",
+  "report.probabilities": "Xác suất",
+  "report.pipeline": "Chế độ phân tích",
+  "report.model": "Model",
+  "report.topLabels": "Chi tiết chẩn đoán (nhãn có điểm cao nhất):",
+  "report.finalDecision": "Quyết định cuối cùng",
+  "report.diagnosis": "Chẩn đoán",
+  "report.decisionMaker": "Quyết định bởi",
+  "report.reasoning": "Lý do",
+  "report.warnings": "Cảnh báo an toàn",
+  "report.disclaimerTitle": "Lưu ý",
+  "report.disclaimer":
+    "Kết quả được tạo tự động bởi hệ thống trí tuệ nhân tạo và chỉ mang tính chất tham khảo. Báo cáo này không thay thế chẩn đoán của bác sĩ chuyên khoa. Quyết định lâm sàng phải dựa trên thăm khám trực tiếp, hình ảnh gốc và các xét nghiệm liên quan.",
+  "report.generatedAt": "Xuất lúc {date}",
+  "report.page": "Trang {page}/{total}",
+  "report.fileName": "bao-cao-xquang",
+
+  "viewer.side": "Song song",
+  "viewer.overlay": "Chồng lớp",
+  "viewer.opacity": "Độ mờ heatmap",
+  "viewer.brightness": "Độ sáng",
+  "viewer.contrast": "Tương phản",
+  "viewer.zoomOut": "Thu nhỏ",
+  "viewer.zoomIn": "Phóng to",
+  "viewer.reset": "Đặt lại",
+  "viewer.fullscreen": "⛶ Toàn màn hình",
+  "viewer.exitFullscreen": "Thoát toàn màn hình",
+  "viewer.original": "Ảnh gốc",
+  "viewer.originalAlt": "Ảnh X-quang gốc",
+  "viewer.heatmap": "Eigencam",
+  "viewer.heatmapAlt": "Giải thích Eigencam",
+  "viewer.combined": "Ảnh gốc + Eigencam",
+
+  "history.title": "Lịch sử phân tích",
+  "history.heading": "🗂️ Lịch sử phân tích",
+  "history.description": "Các ca X-quang đã phân tích trên thiết bị này",
+  "history.search": "Tìm theo tên file, chẩn đoán, triệu chứng, nhãn...",
+  "history.searchLabel": "Tìm kiếm lịch sử",
+  "history.readError": "Không thể đọc lịch sử phân tích trên trình duyệt này.",
+  "history.deleteError": "Không thể xóa ca phân tích.",
+  "history.deleteConfirm": "Xóa ca \"{name}\" khỏi lịch sử?",
+  "history.loading": "Đang tải...",
+  "history.empty": "Chưa có ca phân tích nào.",
+  "history.noMatch": "Không có kết quả phù hợp.",
+  "history.reopen": "Mở lại",
+  "history.delete": "Xóa",
+  "history.groupByPatient": "🧒 Nhóm theo bệnh nhân",
+  "history.noPatient": "Chưa có mã bệnh nhân",
+  "history.patientStudies": "{count} lần chụp",
+  "history.exportFeedback": "⬇️ Xuất đánh giá (JSONL)",
+  "history.syncFeedback": "☁️ Gửi đánh giá chưa đồng bộ",
+  "history.feedbackExported": "Đã xuất {count} đánh giá.",
+  "history.feedbackSynced": "Đã gửi {count} đánh giá.",
+  "history.feedbackError": "Không thể xử lý dữ liệu đánh giá.",
+
+  // Patient timeline
+  "timeline.title": "Diễn tiến bệnh nhân",
+  "timeline.description": "Các lần chụp X-quang của một bệnh nhân theo thời gian",
+  "timeline.heading": "📈 Diễn tiến bệnh nhân {id}",
+  "timeline.hint": "Các lần phân tích lưu trên trình duyệt này có cùng mã bệnh nhân, xếp theo ngày chụp.",
+  "timeline.empty": "Chưa có lần phân tích nào với mã bệnh nhân này trên thiết bị.",
+  "timeline.latestTrend": "Lần chụp gần nhất:",
+  "timeline.trend.improving": "📉 Cải thiện",
+  "timeline.trend.worsening": "📈 Xấu đi",
+  "timeline.trend.stable": "➖ Ổn định",
+  "timeline.trendDetail": "Khả năng viêm phổi {from} → {to} so với lần chụp {date}",
+  "timeline.singleStudy": "Mới có một lần chụp; cần thêm lần chụp để so sánh.",
+  "timeline.chartTitle": "Xu hướng theo thời gian",
+  "timeline.time": "Ngày chụp",
+  "timeline.probability": "Xác suất",
+  "timeline.labels": "Dấu hiệu:",
+  "timeline.pneumonia": "Khả năng viêm phổi",
+  "timeline.studies": "{count} lần chụp",
+  "timeline.column.date": "Ngày chụp",
+  "timeline.column.context": "Tư thế / tuổi / cân nặng",
+  "timeline.column.result": "Kết quả",
+  "timeline.column.change": "Thay đổi (điểm %)",
+  "timeline.column.compare": "So sánh A / B",
+  "timeline.column.finding": "Dấu hiệu",
+  "timeline.studyA": "Chọn làm lần chụp A",
+  "timeline.studyB": "Chọn làm lần chụp B",
+  "timeline.compareTitle": "🔍 So sánh hai lần chụp",
+  "timeline.earlier": "Lần trước",
+  "timeline.later": "Lần sau",
+  "timeline.pickTwo": "Chọn hai lần chụp khác nhau để so sánh.",
+  "history.timeline": "📈 Diễn tiến",
+  "dashboard.title": "Hiệu năng mô hình",
+  "dashboard.description": "Chỉ số đánh giá mô hình từ đánh giá của bác sĩ",
+  "dashboard.heading": "📈 Hiệu năng mô hình",
+  "dashboard.hint": "Tính từ các đánh giá của bác sĩ lưu trên thiết bị này. Chỉ ca có chẩn đoán đúng là Bình thường hoặc Viêm phổi được tính vào ma trận nhầm lẫn.",
+  "dashboard.readError": "Không thể đọc lịch sử hoặc đánh giá trên trình duyệt này.",
+  "dashboard.empty": "Chưa có đánh giá nào trong khoảng thời gian này.",
+  "dashboard.month": "Tháng",
+  "dashboard.allMonths": "Tất cả các tháng",
+  "dashboard.analyses": "Ca đã phân tích",
+  "dashboard.reviewed": "Ca đã đánh giá",
+  "dashboard.agreement": "Tỷ lệ đồng ý",
+  "dashboard.labelled": "Ca có nhãn nhị phân",
+  "dashboard.confusion": "Ma trận nhầm lẫn",
+  "dashboard.predicted": "Dự đoán: {label}",
+  "dashboard.actual": "Thực tế: {label}",
+  "dashboard.sensitivity": "Độ nhạy",
+  "dashboard.specificity": "Độ đặc hiệu",
+  "dashboard.ppv": "Giá trị dự đoán dương",
+  "dashboard.npv": "Giá trị dự đoán âm",
+  "dashboard.accuracy": "Độ chính xác",
+  "dashboard.calibration": "Đường cong hiệu chuẩn",
+  "dashboard.ece": "Sai số hiệu chuẩn kỳ vọng (ECE): {value}",
+  "dashboard.confidence": "Độ tin cậy",
+  "dashboard.observedAccuracy": "Tỷ lệ đúng thực tế",
+  "dashboard.perLabel": "ROC / PR theo từng phát hiện",
+  "dashboard.noLabels": "Chưa có phát hiện nào được bác sĩ xác nhận.",
+  "dashboard.needBothClasses": "Cần ít nhất một ca dương tính và một ca âm tính.",
+  "dashboard.label": "Phát hiện",
+  "dashboard.positives": "Dương",
+  "dashboard.negatives": "Âm",
+  "dashboard.fpr": "Tỷ lệ dương tính giả",
+  "dashboard.tpr": "Tỷ lệ dương tính thật",
+  "dashboard.recall": "Độ phủ",
+  "dashboard.precision": "Độ chính xác dương",
+  "dashboard.byPipeline": "Theo chế độ phân tích",
+  "dashboard.byModel": "Theo mô hình",
+  "dashboard.group": "Nhóm",
+  "dashboard.unknownModel": "Không rõ",
+
+  "batch.title": "Phân tích hàng loạt",
+  "batch.heading": "📚 Phân tích hàng loạt",
+  "batch.description": "Tải lên nhiều ảnh X-quang và phân tích theo hàng đợi",
+  "batch.history": "🗂️ Lịch sử",
+  "batch.pickFiles": "📄 Chọn nhiều file",
+  "batch.pickFolder": "📁 Chọn thư mục",
+  "batch.mode": "Chế độ:",
+  "batch.concurrency": "Số ảnh xử lý đồng thời:",
+  "batch.progress": "{done}/{total} ảnh đã xử lý",
+  "batch.cancelAll": "Hủy tất cả",
+  "batch.clearFinished": "Xóa mục đã xong",
+  "batch.column.file": "File",
+  "batch.column.status": "Trạng thái",
+  "batch.column.triage": "Ưu tiên",
+  "batch.column.diagnosis": "Chẩn đoán",
+  "batch.column.confidence": "Tin cậy",
+  "batch.column.labels": "Nhãn nổi bật",
+  "batch.details": "Chi tiết",
+  "batch.cancel": "Hủy",
+  "batch.retry": "Thử lại",
+  "batch.status.queued": "Đang chờ",
+  "batch.status.preparing": "Đang chuẩn bị",
+  "batch.status.analyzing": "Đang phân tích",
+  "batch.status.done": "Hoàn tất",
+  "batch.status.error": "Lỗi",
+  "batch.status.cancelled": "Đã hủy",
+
+  // Decision thresholds and triage
+  "thresholds.title": "🎚️ Ngưỡng quyết định • {mode}",
+  "thresholds.hint": "Điểm ≥ ngưỡng cảnh báo được coi là có dấu hiệu (đỏ), ≥ ngưỡng theo dõi cần xem lại (vàng). Cài đặt được lưu trên trình duyệt này và ghi kèm mỗi kết quả.",
+  "thresholds.mode.screening": "Sàng lọc (nhạy)",
+  "thresholds.mode.screening.description": "Ngưỡng thấp, ít bỏ sót - khuyến nghị cho sàng lọc nhi khoa",
+  "thresholds.mode.specificity": "Đặc hiệu",
+  "thresholds.mode.specificity.description": "Ngưỡng cao, ít báo động nhầm",
+  "thresholds.label": "Dấu hiệu",
+  "thresholds.alert": "Cảnh báo",
+  "thresholds.watch": "Theo dõi",
+  "thresholds.reset": "Khôi phục mặc định ({count} đã chỉnh)",
+  "triage.title": "Ưu tiên:",
+  "triage.urgent": "Khẩn",
+  "triage.review": "Cần xem lại",
+  "triage.routine": "Thường quy",
+  "triage.reason.warning": "cảnh báo an toàn",
+  "triage.reason.disagreement": "các mô hình bất đồng",
+  "triage.mode": "(chế độ {mode})",
+
+  // Multi-label finding names returned in allMultiLabelScores
+  "label.No Finding": "Không phát hiện bất thường",
+  "label.Normal": "Bình thường",
+  "label.Pneumonia": "Viêm phổi",
+  "label.Atelectasis": "Xẹp phổi",
+  "label.Cardiomegaly": "Tim to",
+  "label.Consolidation": "Đông đặc phổi",
+  "label.Edema": "Phù phổi",
+  "label.Effusion": "Tràn dịch màng phổi",
+  "label.Pleural Effusion": "Tràn dịch màng phổi",
+  "label.Emphysema": "Khí phế thũng",
+  "label.Fibrosis": "Xơ phổi",
+  "label.Hernia": "Thoát vị",
+  "label.Infiltration": "Thâm nhiễm",
+  "label.Lung Opacity": "Mờ phổi",
+  "label.Mass": "Khối u",
+  "label.Nodule": "Nốt phổi",
+  "label.Pleural_Thickening": "Dày màng phổi",
+  "label.Pleural Thickening": "Dày màng phổi",
+  "label.Pneumothorax": "Tràn khí màng phổi",
+  "label.Fracture": "Gãy xương",
+  "label.Support Devices": "Thiết bị hỗ trợ",
+  "label.Enlarged Cardiomediastinum": "Trung thất giãn rộng",
+  "label.Lung Lesion": "Tổn thương phổi",
+  "label.Bronchiolitis": "Viêm tiểu phế quản",
+  "label.Tuberculosis": "Lao phổi",
+};
+
+export type MessageKey = keyof typeof vi;
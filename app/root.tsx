@@ -1,12 +1,22 @@
 import {
+  Form,
+  isRouteErrorResponse,
+  Link,
   Links,
   Meta,
   Outlet,
   Scripts,
   ScrollRestoration,
+  useRouteError,
+  useRouteLoaderData,
 } from "@remix-run/react";
-import type { LinksFunction } from "@remix-run/node";
+import type { LinksFunction, LoaderFunctionArgs } from "@remix-run/node";
 import { Analytics } from "@vercel/analytics/remix";
+import { LanguageSwitcher } from "~/components/LanguageSwitcher";
+import { getUser } from "~/lib/auth.server";
+import { getBackendConfig } from "~/lib/config.server";
+import { DEFAULT_LOCALE, useI18n } from "~/lib/i18n";
+import { getLocale } from "~/lib/locale.server";
 
 import "./tailwind.css";
 
@@ -23,9 +33,23 @@ export const links: LinksFunction = () => [
   },
 ];
 
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const config = getBackendConfig();
+  return {
+    locale: await getLocale(request),
+    user: await getUser(request),
+    mockBackend: config.mockBackend,
+    // Whether /api/feedback has somewhere to send feedback (the mock accepts it)
+    feedbackSync: Boolean(config.feedbackApiUrl) || config.mockBackend,
+  };
+};
+
 export function Layout({ children }: { children: React.ReactNode }) {
+  // Layout also wraps error boundaries, where the loader data may be missing
+  const data = useRouteLoaderData<typeof loader>("root");
+
   return (
-    <html lang="en">
+    <html lang={data?.locale ?? DEFAULT_LOCALE}>
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
@@ -42,6 +66,54 @@ export function Layout({ children }: { children: React.ReactNode }) {
   );
 }
 
+// Mostly the 403 from a page the user's role can't open
+export function ErrorBoundary() {
+  const error = useRouteError();
+  const { t } = useI18n();
+  const forbidden = isRouteErrorResponse(error) && error.status === 403;
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[60vh] px-4">
+      <h2 className="text-xl font-bold text-red-600 mb-2">{forbidden ? t("error.forbidden") : t("error.title")}</h2>
+      <p className="text-gray-500 mb-4">{forbidden ? t("error.forbiddenBody") : t("error.body")}</p>
+      <Link to="/" className="text-sm text-blue-600 hover:text-blue-800 underline">
+        {t("nav.newAnalysis")}
+      </Link>
+    </div>
+  );
+}
+
 export default function App() {
-  return <Outlet />;
+  const data = useRouteLoaderData<typeof loader>("root");
+  const { t } = useI18n();
+
+  return (
+    <>
+      <div className="fixed top-3 right-3 z-50 flex items-center gap-2">
+        {data?.mockBackend && (
+          <span
+            className="text-xs font-semibold px-2 py-1 rounded bg-yellow-300 text-yellow-900 shadow"
+            title={t("app.mockBackendHint")}
+          >
+            {t("app.mockBackend")}
+          </span>
+        )}
+        {data?.user && (
+          <Form method="post" action="/logout" className="flex items-center gap-2 text-xs">
+            <span className="px-2 py-1 rounded bg-white border border-gray-300 text-gray-700" title={data.user.id}>
+              👤 {data.user.name} • {t(`role.${data.user.role}`)}
+            </span>
+            <button
+              type="submit"
+              className="px-2 py-1 rounded border bg-white border-gray-300 text-gray-600 hover:border-red-400"
+            >
+              {t("login.logout")}
+            </button>
+          </Form>
+        )}
+        <LanguageSwitcher />
+      </div>
+      <Outlet />
+    </>
+  );
 }
@@ -0,0 +1,22 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { auditFilterFromUrl, readAuditLog, toCsv } from "~/lib/audit.server";
+import { requireUser } from "~/lib/auth.server";
+
+// GET /admin/audit/export?format=csv|json&user=&endpoint=&predictedClass=&from=&to=
+// Downloads the filtered audit log. Admins only.
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  await requireUser(request, ["admin"]);
+  const url = new URL(request.url);
+  const records = await readAuditLog(auditFilterFromUrl(url));
+  const csv = url.searchParams.get("format") === "csv";
+  const fileName = `audit-log-${new Date().toISOString().slice(0, 10)}.${csv ? "csv" : "json"}`;
+
+  return new Response(csv ? `\uFEFF${toCsv(records)}` : JSON.stringify(records, null, 2), {
+    headers: {
+      // The BOM lets spreadsheet apps read the Vietnamese text as UTF-8
+      "Content-Type": csv ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+};
@@ -0,0 +1,160 @@
+import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { Form, Link, useLoaderData, useSearchParams } from "@remix-run/react";
+import { AUDIT_ENDPOINTS, auditFilterFromUrl, readAuditLog } from "~/lib/audit.server";
+import { isRole } from "~/lib/auth";
+import { requireUser } from "~/lib/auth.server";
+import { getMetaTranslator, useI18n } from "~/lib/i18n";
+
+export const meta: MetaFunction = ({ matches }) => {
+  const { t } = getMetaTranslator(matches);
+  return [{ title: t("audit.title") }];
+};
+
+// Rows shown on the page; the export has everything that matches
+const PAGE_LIMIT = 500;
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  await requireUser(request, ["admin"]);
+  const records = await readAuditLog(auditFilterFromUrl(new URL(request.url)));
+  return { records: records.slice(0, PAGE_LIMIT), total: records.length };
+};
+
+const FILTER_FIELDS = ["user", "endpoint", "predictedClass", "from", "to"] as const;
+
+export default function AuditLog() {
+  const { t, label: translateLabel, formatDateTime } = useI18n();
+  const { records, total } = useLoaderData<typeof loader>();
+  const [searchParams] = useSearchParams();
+  const filters = Object.fromEntries(FILTER_FIELDS.map((key) => [key, searchParams.get(key) ?? ""]));
+  const exportUrl = (format: "csv" | "json") =>
+    `/admin/audit/export?${new URLSearchParams({ ...filters, format })}`;
+
+  return (
+    <div className="flex flex-col items-center min-h-screen px-4 py-6 bg-slate-50">
+      <div className="w-full max-w-7xl space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h1 className="text-2xl font-bold text-gray-800">{t("audit.heading")}</h1>
+          <div className="flex items-center gap-4">
+            <a href={exportUrl("csv")} className="text-sm text-blue-600 hover:text-blue-800 underline">
+              {t("audit.exportCsv")}
+            </a>
+            <a href={exportUrl("json")} className="text-sm text-blue-600 hover:text-blue-800 underline">
+              {t("audit.exportJson")}
+            </a>
+            <Link to="/" className="text-sm text-blue-600 hover:text-blue-800 underline">
+              {t("nav.newAnalysis")}
+            </Link>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">{t("audit.hint")}</p>
+
+        <Form method="get" className="flex flex-wrap items-end gap-3 p-4 bg-white rounded-lg border border-gray-200 text-sm">
+          <label className="flex flex-col">
+            <span className="text-xs text-gray-500">{t("audit.user")}</span>
+            <input name="user" defaultValue={filters.user} className="px-2 py-1 border rounded" />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-xs text-gray-500">{t("audit.endpoint")}</span>
+            <select name="endpoint" defaultValue={filters.endpoint} className="px-2 py-1 border rounded">
+              <option value="">{t("audit.all")}</option>
+              {AUDIT_ENDPOINTS.map((endpoint) => (
+                <option key={endpoint} value={endpoint}>
+                  {endpoint}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col">
+            <span className="text-xs text-gray-500">{t("audit.predictedClass")}</span>
+            <select name="predictedClass" defaultValue={filters.predictedClass} className="px-2 py-1 border rounded">
+              <option value="">{t("audit.all")}</option>
+              <option value="Pneumonia">{translateLabel("Pneumonia")}</option>
+              <option value="Normal">{translateLabel("Normal")}</option>
+            </select>
+          </label>
+          <label className="flex flex-col">
+            <span className="text-xs text-gray-500">{t("audit.from")}</span>
+            <input type="date" name="from" defaultValue={filters.from} className="px-2 py-1 border rounded" />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-xs text-gray-500">{t("audit.to")}</span>
+            <input type="date" name="to" defaultValue={filters.to} className="px-2 py-1 border rounded" />
+          </label>
+          <button type="submit" className="px-3 py-1.5 bg-blue-600 text-white rounded hover:bg-blue-700">
+            {t("audit.filter")}
+          </button>
+          <Link to="/admin/audit" className="px-3 py-1.5 text-gray-600 hover:text-gray-800 underline">
+            {t("audit.clear")}
+          </Link>
+        </Form>
+
+        <p className="text-sm text-gray-600">
+          {total > records.length
+            ? t("audit.countLimited", { shown: records.length, total })
+            : t("audit.count", { total })}
+        </p>
+
+        {records.length === 0 ? (
+          <p className="text-gray-500 text-center">{t("audit.empty")}</p>
+        ) : (
+          <div className="overflow-x-auto bg-white rounded-lg border border-gray-200 shadow-sm">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 text-gray-700 text-left">
+                <tr>
+                  <th className="px-2 py-2">{t("audit.time")}</th>
+                  <th className="px-2 py-2">{t("audit.user")}</th>
+                  <th className="px-2 py-2">{t("audit.endpoint")}</th>
+                  <th className="px-2 py-2">{t("audit.result")}</th>
+                  <th className="px-2 py-2">{t("audit.model")}</th>
+                  <th className="px-2 py-2">{t("audit.image")}</th>
+                  <th className="px-2 py-2">{t("audit.warnings")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {records.map((record) => (
+                  <tr key={record.id} className="border-t border-gray-100 align-top">
+                    <td className="px-2 py-1 whitespace-nowrap" title={record.requestId}>
+                      {formatDateTime(new Date(record.timestamp))}
+                    </td>
+                    <td className="px-2 py-1" title={record.userId}>
+                      {record.userName}{" "}
+                      <span className="text-gray-400">({isRole(record.role) ? t(`role.${record.role}`) : record.role})</span>
+                    </td>
+                    <td className="px-2 py-1 whitespace-nowrap">
+                      {record.endpoint}
+                      {record.status !== undefined && <span className="text-gray-400"> • {record.status}</span>}
+                    </td>
+                    <td className="px-2 py-1">
+                      {record.error ? (
+                        <span className="text-red-600">{record.error}</span>
+                      ) : record.predictedClass ? (
+                        <>
+                          {translateLabel(record.predictedClass)}
+                          {record.confidence !== undefined && ` (${(record.confidence * 100).toFixed(1)}%)`}
+                        </>
+                      ) : record.eigencamUrl ? (
+                        <a href={record.eigencamUrl} className="text-blue-600 underline" target="_blank" rel="noreferrer">
+                          Eigencam
+                        </a>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                    <td className="px-2 py-1">
+                      {record.modelName ?? "—"}
+                      {record.cloudinaryId && <div className="text-gray-400">{record.cloudinaryId}</div>}
+                    </td>
+                    <td className="px-2 py-1 font-mono" title={record.imageSha256}>
+                      {record.imageSha256 ? record.imageSha256.slice(0, 12) : record.historyId ?? "—"}
+                    </td>
+                    <td className="px-2 py-1 max-w-xs">{record.warnings?.length ? record.warnings.join(" • ") : ""}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { REQUEST_ID_HEADER } from "~/lib/api-client";
+import { appendAuditRecord, sha256, summarizeAnalyzeResult, tapResponse } from "~/lib/audit.server";
+import { requireApiUser } from "~/lib/auth.server";
+import { forwardToBackend, getRequestId, methodNotAllowed } from "~/lib/backend.server";
+import { getBackendConfig } from "~/lib/config.server";
+import { mockAnalyze } from "~/lib/mock-backend.server";
+
+const parseClinicalInfo = (value: FormDataEntryValue | null) => {
+  if (typeof value !== "string") return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// POST /api/analyze?pipeline=optimized|standard
+// Forwards the multipart `image` + `clinical_info` form to the analyze backend.
+// The Accept header is passed on so the backend can answer with the NDJSON
+// progress stream (see ~/lib/analyze-stream.ts). Requires a signed-in user.
+// Every call is written to the audit log with the image hash and the result.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") return methodNotAllowed();
+  const user = await requireApiUser(request);
+
+  const pipeline = new URL(request.url).searchParams.get("pipeline");
+  const endpoint = pipeline === "standard" ? "analyze" : "analyze-optimized";
+  const formData = await request.formData();
+  const config = getBackendConfig();
+  const accept = request.headers.get("Accept");
+  const image = formData.get("image");
+  const audit = {
+    endpoint,
+    imageSha256: image instanceof Blob ? await sha256(image) : undefined,
+    clinicalInfo: parseClinicalInfo(formData.get("clinical_info")),
+  } as const;
+
+  const res = config.mockBackend
+    ? await mockAnalyze(formData, endpoint, accept)
+    : await forwardToBackend(`${config.analyzeApiUrl}/${endpoint}`, {
+        body: formData,
+        headers: accept ? { Accept: accept } : undefined,
+        signal: request.signal,
+        requestId: getRequestId(request),
+        user,
+      });
+
+  return tapResponse(res, (body, status) =>
+    appendAuditRecord(user, {
+      ...audit,
+      requestId: res.headers.get(REQUEST_ID_HEADER) ?? getRequestId(request),
+      status,
+      ...summarizeAnalyzeResult(body),
+    })
+  );
+};
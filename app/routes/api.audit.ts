@@ -0,0 +1,36 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { appendAuditRecord } from "~/lib/audit.server";
+import { requireApiUser } from "~/lib/auth.server";
+import { getRequestId, methodNotAllowed } from "~/lib/backend.server";
+
+const optionalString = (value: unknown) => (typeof value === "string" ? value.slice(0, 200) : undefined);
+
+// POST /api/audit with `{ historyId, cloudinaryId?, predictedClass?, modelName? }`
+// Records that the signed-in user opened a stored result. Results live in the
+// browser's history, so the browser reports the view; analyses and Eigencam
+// runs are logged by their own routes.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") return methodNotAllowed();
+  const user = await requireApiUser(request);
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ success: false, message: "Body must be JSON" }, { status: 400 });
+  }
+  const historyId = optionalString(body?.historyId);
+  if (!historyId) {
+    return Response.json({ success: false, message: "historyId is required" }, { status: 400 });
+  }
+
+  await appendAuditRecord(user, {
+    endpoint: "view",
+    requestId: getRequestId(request),
+    historyId,
+    cloudinaryId: optionalString(body.cloudinaryId),
+    predictedClass: optionalString(body.predictedClass),
+    modelName: optionalString(body.modelName),
+  });
+  return Response.json({ success: true });
+};
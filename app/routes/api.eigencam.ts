@@ -0,0 +1,53 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { REQUEST_ID_HEADER } from "~/lib/api-client";
+import { appendAuditRecord, tapResponse } from "~/lib/audit.server";
+import { requireApiUser } from "~/lib/auth.server";
+import { forwardToBackend, getRequestId, methodNotAllowed } from "~/lib/backend.server";
+import { getBackendConfig } from "~/lib/config.server";
+import { mockEigencam } from "~/lib/mock-backend.server";
+
+const readIds = (body: string) => {
+  try {
+    const { cloudinary_id, model_name } = JSON.parse(body) ?? {};
+    return {
+      cloudinaryId: typeof cloudinary_id === "string" ? cloudinary_id : undefined,
+      modelName: typeof model_name === "string" ? model_name : undefined,
+    };
+  } catch {
+    return {};
+  }
+};
+
+// POST /api/eigencam
+// Forwards `{ cloudinary_id, model_name }` to the Eigencam backend. Requires a signed-in user.
+// Each generation is written to the audit log.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") return methodNotAllowed();
+  const user = await requireApiUser(request);
+
+  const body = await request.text();
+  const config = getBackendConfig();
+  const res = config.mockBackend
+    ? await mockEigencam(body)
+    : await forwardToBackend(`${config.eigencamApiUrl}/eigencam`, {
+        headers: { "Content-Type": "application/json" },
+        body,
+        signal: request.signal,
+        requestId: getRequestId(request),
+        user,
+      });
+
+  return tapResponse(res, async (result, status) => {
+    const payload = result as { success?: boolean; eigencam_url?: unknown; error?: unknown; message?: unknown } | null;
+    const url = typeof payload?.eigencam_url === "string" ? payload.eigencam_url : undefined;
+    const error = payload?.error ?? payload?.message;
+    await appendAuditRecord(user, {
+      endpoint: "eigencam",
+      requestId: res.headers.get(REQUEST_ID_HEADER) ?? getRequestId(request),
+      status,
+      ...readIds(body),
+      eigencamUrl: url && !url.startsWith("data:") ? url : undefined,
+      error: payload?.success ? undefined : typeof error === "string" ? error : "unsuccessful response",
+    });
+  });
+};
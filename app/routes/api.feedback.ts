@@ -0,0 +1,43 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { requireApiUser } from "~/lib/auth.server";
+import { forwardToBackend, getRequestId, methodNotAllowed } from "~/lib/backend.server";
+import { getBackendConfig } from "~/lib/config.server";
+
+// POST /api/feedback
+// Relays one clinician feedback record (see ~/lib/feedback.ts) to FEEDBACK_API_URL.
+// Requires a signed-in user, who is recorded as the reviewer whatever the body says.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") return methodNotAllowed();
+  const user = await requireApiUser(request);
+
+  let record: unknown;
+  try {
+    record = JSON.parse(await request.text());
+  } catch {
+    return Response.json({ success: false, message: "Body must be JSON" }, { status: 400 });
+  }
+  if (typeof record !== "object" || record === null || Array.isArray(record)) {
+    return Response.json({ success: false, message: "Body must be a feedback record" }, { status: 400 });
+  }
+  const body = JSON.stringify({ ...record, reviewer: user.name, reviewerId: user.id });
+
+  const config = getBackendConfig();
+  if (!config.feedbackApiUrl) {
+    if (config.mockBackend) {
+      console.log(`🧪 Mock feedback received (${body.length} bytes)`);
+      return Response.json({ success: true });
+    }
+    return Response.json(
+      { success: false, message: "Feedback endpoint is not configured" },
+      { status: 404 }
+    );
+  }
+
+  return forwardToBackend(config.feedbackApiUrl, {
+    headers: { "Content-Type": "application/json" },
+    body,
+    signal: request.signal,
+    requestId: getRequestId(request),
+    user,
+  });
+};
@@ -0,0 +1,14 @@
+import { redirect, type LoaderFunctionArgs } from "@remix-run/node";
+import { finishOidcLogin, OidcError } from "~/lib/oidc.server";
+
+// GET /auth/oidc/callback?code=...&state=...
+// Where the OIDC provider sends the browser back after sign-in.
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  try {
+    return await finishOidcLogin(request);
+  } catch (error) {
+    if (error instanceof Response) throw error;
+    console.error("❌ OIDC login failed:", error);
+    return redirect(`/login?error=${error instanceof OidcError ? "oidc" : "oidcUnavailable"}`);
+  }
+};
@@ -0,0 +1,14 @@
+import { redirect, type LoaderFunctionArgs } from "@remix-run/node";
+import { startOidcLogin } from "~/lib/oidc.server";
+
+// GET /auth/oidc?redirectTo=/path
+// Starts single sign-on; 404 when no OIDC provider is configured.
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  try {
+    return await startOidcLogin(request);
+  } catch (error) {
+    if (error instanceof Response) throw error;
+    console.error("❌ OIDC discovery failed:", error);
+    return redirect("/login?error=oidcUnavailable");
+  }
+};
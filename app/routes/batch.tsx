@@ -0,0 +1,474 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { Link } from "@remix-run/react";
+import { TriageBadge } from "~/components/TriageBadge";
+import { describeAnalyzeError } from "~/hooks/useAnalyze";
+import { useCurrentUser } from "~/hooks/useCurrentUser";
+import {
+  requestAnalysis,
+  type AnalyzePipeline,
+  type AnalyzeResponse,
+  type ClinicalInfo,
+} from "~/lib/analyze";
+import { requireUser } from "~/lib/auth.server";
+import { EMPTY_CLINICAL_INFO } from "~/lib/clinical";
+import {
+  describeDeidentification,
+  loadDeidentifySettings,
+  type DeidentificationReport,
+} from "~/lib/deidentify";
+import { DicomError } from "~/lib/dicom";
+import { recordAnalysis } from "~/lib/history";
+import { getMetaTranslator, useI18n, type MessageKey } from "~/lib/i18n";
+import { fillFromDicom } from "~/lib/patient";
+import { loadThresholdSettings, TRIAGE_LEVELS, triageResult, type Triage } from "~/lib/thresholds";
+import {
+  ACCEPTED_UPLOAD_TYPES,
+  describeUploadError,
+  isSupportedUpload,
+  prepareUpload,
+  UploadError,
+} from "~/lib/upload";
+
+export const meta: MetaFunction = ({ matches }) => {
+  const { t } = getMetaTranslator(matches);
+  return [
+    { title: t("batch.title") },
+    {
+      name: "description",
+      content: t("batch.description"),
+    },
+  ];
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  await requireUser(request);
+  return null;
+};
+
+type BatchStatus = "queued" | "preparing" | "analyzing" | "done" | "error" | "cancelled";
+
+type BatchItem = {
+  id: string;
+  source: File;
+  pipeline: AnalyzePipeline;
+  status: BatchStatus;
+  error?: string;
+  response?: AnalyzeResponse;
+  historyId?: string;
+  triage?: Triage;
+  deidentification?: DeidentificationReport;
+};
+
+type SortKey = "fileName" | "status" | "triage" | "predictedClass" | "confidence";
+
+const STATUS_CONFIG: Record<BatchStatus, { label: MessageKey; progress: number; className: string }> = {
+  queued: { label: "batch.status.queued", progress: 0, className: "text-gray-500" },
+  preparing: { label: "batch.status.preparing", progress: 25, className: "text-blue-600" },
+  analyzing: { label: "batch.status.analyzing", progress: 60, className: "text-blue-600" },
+  done: { label: "batch.status.done", progress: 100, className: "text-green-600" },
+  error: { label: "batch.status.error", progress: 100, className: "text-red-600" },
+  cancelled: { label: "batch.status.cancelled", progress: 0, className: "text-gray-400" },
+};
+
+const isRunning = (item: BatchItem) => item.status === "preparing" || item.status === "analyzing";
+
+const topLabels = (response: AnalyzeResponse, count = 3) =>
+  Object.values(response.data.multiLabelTop)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count);
+
+const compareItems = (a: BatchItem, b: BatchItem, key: SortKey) => {
+  switch (key) {
+    case "fileName":
+      return a.source.name.localeCompare(b.source.name);
+    case "status":
+      return a.status.localeCompare(b.status);
+    // Urgent first; unfinished items last
+    case "triage":
+      return (
+        (a.triage ? TRIAGE_LEVELS.indexOf(a.triage.level) : TRIAGE_LEVELS.length) -
+        (b.triage ? TRIAGE_LEVELS.indexOf(b.triage.level) : TRIAGE_LEVELS.length)
+      );
+    case "predictedClass":
+      return (a.response?.data.predictedClass ?? "").localeCompare(b.response?.data.predictedClass ?? "");
+    case "confidence":
+      return (a.response?.data.confidence ?? -1) - (b.response?.data.confidence ?? -1);
+  }
+};
+
+let nextItemId = 0;
+
+export default function Batch() {
+  const { t, label: translateLabel } = useI18n();
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [pipeline, setPipeline] = useState<AnalyzePipeline>("optimized");
+  const [concurrency, setConcurrency] = useState(2);
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+    key: "fileName",
+    descending: false,
+  });
+  const controllers = useRef(new Map<string, AbortController>());
+  const user = useCurrentUser();
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const runItem = useCallback(
+    async (item: BatchItem) => {
+      const controller = new AbortController();
+      controllers.current.set(item.id, controller);
+
+      try {
+        // Same de-identification settings as the single-image form
+        const prepared = await prepareUpload(item.source, "lossy", loadDeidentifySettings());
+        if (controller.signal.aborted) return;
+        updateItem(item.id, { status: "analyzing", deidentification: prepared.deidentification });
+
+        // Batch screening has no per-image clinical form; a pseudonymized DICOM
+        // header still gives the patient ID, age and sex
+        const clinicalInfo: ClinicalInfo = {
+          ...EMPTY_CLINICAL_INFO,
+          patient: fillFromDicom(undefined, prepared.deidentification),
+        };
+        const { response } = await requestAnalysis(
+          prepared.file,
+          clinicalInfo,
+          item.pipeline,
+          controller.signal
+        );
+        // Cancelled while the answer was being read
+        if (controller.signal.aborted) return;
+        const historyId = await recordAnalysis(
+          {
+            fileName: prepared.file.name,
+            pipeline: item.pipeline,
+            clinicalInfo,
+            response,
+            analyzedBy: user ?? undefined,
+          },
+          prepared.file
+        ).catch((err) => {
+          console.warn("Could not save analysis to history:", err);
+          return undefined;
+        });
+        updateItem(item.id, {
+          status: "done",
+          response,
+          historyId,
+          triage: triageResult(response, loadThresholdSettings()),
+        });
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        updateItem(item.id, {
+          status: "error",
+          error:
+            err instanceof UploadError || err instanceof DicomError
+              ? describeUploadError(err, { t })
+              : describeAnalyzeError(err, { t }),
+        });
+      } finally {
+        // A retry may already have registered a new controller for this item
+        if (controllers.current.get(item.id) === controller) controllers.current.delete(item.id);
+      }
+    },
+    [updateItem, t, user]
+  );
+
+  // Start queued items while fewer than `concurrency` are in flight
+  useEffect(() => {
+    const running = items.filter(isRunning).length;
+    const next = items.filter((item) => item.status === "queued").slice(0, Math.max(0, concurrency - running));
+    if (next.length === 0) return;
+
+    const ids = new Set(next.map((item) => item.id));
+    setItems((prev) =>
+      prev.map((item) => (ids.has(item.id) ? { ...item, status: "preparing" } : item))
+    );
+    next.forEach((item) => runItem(item));
+  }, [items, concurrency, runItem]);
+
+  // Abort whatever is still in flight when leaving the page
+  useEffect(() => {
+    const active = controllers.current;
+    return () => active.forEach((controller) => controller.abort());
+  }, []);
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).filter(isSupportedUpload);
+    e.target.value = "";
+    setItems((prev) => [
+      ...prev,
+      ...files.map((source) => ({
+        id: `batch-${nextItemId++}`,
+        source,
+        pipeline,
+        status: "queued" as const,
+      })),
+    ]);
+  };
+
+  const handleCancel = (item: BatchItem) => {
+    controllers.current.get(item.id)?.abort();
+    updateItem(item.id, { status: "cancelled" });
+  };
+
+  const handleRetry = (item: BatchItem) => {
+    updateItem(item.id, {
+      status: "queued",
+      error: undefined,
+      response: undefined,
+      historyId: undefined,
+      triage: undefined,
+    });
+  };
+
+  const handleCancelAll = () => {
+    items.filter((item) => item.status === "queued" || isRunning(item)).forEach(handleCancel);
+  };
+
+  const handleClearFinished = () => {
+    setItems((prev) => prev.filter((item) => item.status === "queued" || isRunning(item)));
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort((prev) => ({ key, descending: prev.key === key ? !prev.descending : false }));
+  };
+
+  const sorted = [...items].sort((a, b) => {
+    const order = compareItems(a, b, sort.key);
+    return sort.descending ? -order : order;
+  });
+  const finished = items.filter((item) => ["done", "error", "cancelled"].includes(item.status)).length;
+
+  const sortHeader = (key: SortKey, label: string) => (
+    <th className="px-3 py-2 text-left">
+      <button type="button" onClick={() => toggleSort(key)} className="font-semibold hover:text-blue-700">
+        {label}
+        {sort.key === key && (sort.descending ? " ▼" : " ▲")}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="flex flex-col items-center min-h-screen px-4 py-6 bg-slate-50">
+      <div className="w-full max-w-6xl">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-gray-800">{t("batch.heading")}</h1>
+          <div className="flex gap-4">
+            <Link to="/" className="text-sm text-blue-600 hover:text-blue-800 underline">
+              {t("nav.singleAnalysis")}
+            </Link>
+            <Link to="/history" className="text-sm text-blue-600 hover:text-blue-800 underline">
+              {t("batch.history")}
+            </Link>
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-br from-blue-50 to-indigo-50 rounded-2xl p-6 border border-blue-100 shadow-sm mb-6">
+          <div className="flex flex-col sm:flex-row gap-3 justify-center">
+            <label className="px-4 py-2 bg-blue-600 text-white rounded cursor-pointer hover:bg-blue-700 text-center">
+              {t("batch.pickFiles")}
+              <input
+                type="file"
+                multiple
+                accept={ACCEPTED_UPLOAD_TYPES}
+                onChange={handleFiles}
+                className="sr-only"
+              />
+            </label>
+            <label className="px-4 py-2 bg-indigo-600 text-white rounded cursor-pointer hover:bg-indigo-700 text-center">
+              {t("batch.pickFolder")}
+              <input
+                type="file"
+                multiple
+                // React doesn't know the directory picker attribute
+                ref={(el) => el?.setAttribute("webkitdirectory", "")}
+                onChange={handleFiles}
+                className="sr-only"
+              />
+            </label>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-4 justify-center mt-4 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              {t("batch.mode")}
+              <select
+                value={pipeline}
+                onChange={(e) => setPipeline(e.target.value as AnalyzePipeline)}
+                className="border border-gray-300 rounded px-2 py-1"
+              >
+                <option value="optimized">{t("mode.optimized")}</option>
+                <option value="standard">{t("mode.standard")}</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              {t("batch.concurrency")}
+              <select
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                className="border border-gray-300 rounded px-2 py-1"
+              >
+                {[1, 2, 3, 4].map((n) => (
+                  <option key={n} value={n}>
+                    {n}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+
+        {items.length > 0 && (
+          <>
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex-1 mr-4">
+                <div className="text-sm text-gray-600 mb-1">
+                  {t("batch.progress", { done: finished, total: items.length })}
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="h-2 rounded-full bg-blue-500 transition-all"
+                    style={{ width: `${(finished / items.length) * 100}%` }}
+                  ></div>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={handleCancelAll}
+                  className="text-xs px-3 py-1 text-red-600 border border-red-200 rounded hover:bg-red-50"
+                >
+                  {t("batch.cancelAll")}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleClearFinished}
+                  className="text-xs px-3 py-1 text-gray-600 border border-gray-300 rounded hover:bg-gray-100"
+                >
+                  {t("batch.clearFinished")}
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto bg-white rounded-lg border border-gray-200 shadow-sm">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-gray-700">
+                  <tr>
+                    {sortHeader("fileName", t("batch.column.file"))}
+                    {sortHeader("status", t("batch.column.status"))}
+                    {sortHeader("triage", t("batch.column.triage"))}
+                    {sortHeader("predictedClass", t("batch.column.diagnosis"))}
+                    {sortHeader("confidence", t("batch.column.confidence"))}
+                    <th className="px-3 py-2 text-left font-semibold">{t("batch.column.labels")}</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sorted.map((item) => {
+                    const status = STATUS_CONFIG[item.status];
+                    const data = item.response?.data;
+                    return (
+                      <tr key={item.id} className="border-t border-gray-100">
+                        <td className="px-3 py-2 max-w-[16rem] truncate" title={item.source.name}>
+                          {item.deidentification && (
+                            <span
+                              className="mr-1 cursor-help"
+                              title={
+                                describeDeidentification(item.deidentification, { t }).join("\n") ||
+                                t("deidentify.clean")
+                              }
+                            >
+                              🛡️
+                            </span>
+                          )}
+                          {item.source.name}
+                        </td>
+                        <td className="px-3 py-2">
+                          <div className={`text-xs font-medium ${status.className}`}>{t(status.label)}</div>
+                          {isRunning(item) && (
+                            <div className="w-24 bg-gray-200 rounded-full h-1.5 mt-1">
+                              <div
+                                className="h-1.5 rounded-full bg-blue-500 transition-all"
+                                style={{ width: `${status.progress}%` }}
+                              ></div>
+                            </div>
+                          )}
+                          {item.status === "error" && (
+                            <div className="text-xs text-red-500 max-w-[14rem]">
+                              {item.error || t("error.analyze")}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-3 py-2">
+                          {item.triage && <TriageBadge level={item.triage.level} />}
+                        </td>
+                        <td className="px-3 py-2">
+                          {data && (
+                            <span
+                              className={
+                                data.predictedClass === "Pneumonia"
+                                  ? "text-red-600 font-bold"
+                                  : "text-green-600 font-bold"
+                              }
+                            >
+                              {translateLabel(data.predictedClass)}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2">
+                          {data?.confidence !== undefined && `${(data.confidence * 100).toFixed(1)}%`}
+                        </td>
+                        <td className="px-3 py-2">
+                          <div className="flex flex-wrap gap-1">
+                            {item.response &&
+                              topLabels(item.response).map((label) => (
+                                <span
+                                  key={label.label}
+                                  className="text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded"
+                                >
+                                  {translateLabel(label.label)} {(label.score * 100).toFixed(0)}%
+                                </span>
+                              ))}
+                          </div>
+                        </td>
+                        <td className="px-3 py-2 text-right whitespace-nowrap">
+                          {item.historyId && (
+                            <Link
+                              to={`/?history=${encodeURIComponent(item.historyId)}`}
+                              className="text-xs px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+                            >
+                              {t("batch.details")}
+                            </Link>
+                          )}
+                          {(item.status === "queued" || isRunning(item)) && (
+                            <button
+                              type="button"
+                              onClick={() => handleCancel(item)}
+                              className="text-xs px-3 py-1 text-red-600 border border-red-200 rounded hover:bg-red-50"
+                            >
+                              {t("batch.cancel")}
+                            </button>
+                          )}
+                          {(item.status === "error" || item.status === "cancelled") && (
+                            <button
+                              type="button"
+                              onClick={() => handleRetry(item)}
+                              className="text-xs px-3 py-1 text-blue-600 border border-blue-200 rounded hover:bg-blue-50"
+                            >
+                              {t("batch.retry")}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+import { useEffect, useState } from "react";
+import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { Link } from "@remix-run/react";
+import { CalibrationChart, CurveChart } from "~/components/MetricCharts";
+import { requireUser } from "~/lib/auth.server";
+import { listFeedback, type Feedback } from "~/lib/feedback";
+import { listHistoryEntries, type HistoryEntry } from "~/lib/history";
+import { getMetaTranslator, useI18n, type MessageKey } from "~/lib/i18n";
+import {
+  calibrationBins,
+  confusionMatrix,
+  evaluatedLabels,
+  expectedCalibrationError,
+  groupMetrics,
+  labelCurves,
+  monthOf,
+  type MetricsGroup,
+} from "~/lib/metrics";
+
+export const meta: MetaFunction = ({ matches }) => {
+  const { t } = getMetaTranslator(matches);
+  return [
+    { title: t("dashboard.title") },
+    {
+      name: "description",
+      content: t("dashboard.description"),
+    },
+  ];
+};
+
+// Model performance is for radiologists (and admins)
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  await requireUser(request, ["radiologist"]);
+  return null;
+};
+
+const percent = (value?: number) => (value === undefined ? "—" : `${(value * 100).toFixed(1)}%`);
+const decimal = (value?: number) => (value === undefined ? "—" : value.toFixed(3));
+
+function StatCard({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="p-3 bg-white rounded-lg border border-gray-200 shadow-sm">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-xl font-bold text-gray-800">{value}</div>
+    </div>
+  );
+}
+
+function GroupTable({ title, groups }: { title: string; groups: MetricsGroup[] }) {
+  const { t } = useI18n();
+  return (
+    <div className="p-4 bg-white rounded-lg border border-gray-200 shadow-sm overflow-x-auto">
+      <h2 className="font-semibold text-gray-800 mb-2">{title}</h2>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-500 text-right">
+            <th className="text-left font-normal">{t("dashboard.group")}</th>
+            <th className="font-normal px-2">{t("dashboard.reviewed")}</th>
+            <th className="font-normal px-2">{t("dashboard.agreement")}</th>
+            <th className="font-normal px-2">{t("dashboard.labelled")}</th>
+            <th className="font-normal px-2">{t("dashboard.sensitivity")}</th>
+            <th className="font-normal px-2">{t("dashboard.specificity")}</th>
+            <th className="font-normal">{t("dashboard.accuracy")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map((group) => (
+            <tr key={group.key} className="border-t text-right">
+              <td className="py-1 text-left text-gray-800">{group.key}</td>
+              <td className="px-2">{group.reviewed}</td>
+              <td className="px-2">{percent(group.agreed / group.reviewed)}</td>
+              <td className="px-2">{group.matrix.total}</td>
+              <td className="px-2">{percent(group.matrix.sensitivity)}</td>
+              <td className="px-2">{percent(group.matrix.specificity)}</td>
+              <td>{percent(group.matrix.accuracy)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function Dashboard() {
+  const { t, label: translateLabel } = useI18n();
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [feedback, setFeedback] = useState<Feedback[]>([]);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [month, setMonth] = useState("all");
+  const [selectedLabel, setSelectedLabel] = useState<string | null>(null);
+
+  // Both stores live in IndexedDB, so everything is computed after hydration
+  useEffect(() => {
+    Promise.all([listHistoryEntries(), listFeedback()])
+      .then(([history, records]) => {
+        setEntries(history);
+        setFeedback(records);
+      })
+      .catch((err) => {
+        console.warn("Could not read history or feedback:", err);
+        setError("dashboard.readError");
+        setEntries([]);
+      });
+  }, []);
+
+  const months = [...new Set(feedback.map((record) => monthOf(record.createdAt)))].sort().reverse();
+  const records = month === "all" ? feedback : feedback.filter((record) => monthOf(record.createdAt) === month);
+  const analyses =
+    entries === null
+      ? 0
+      : month === "all"
+        ? entries.length
+        : entries.filter((entry) => monthOf(entry.createdAt) === month).length;
+
+  const matrix = confusionMatrix(records);
+  const bins = calibrationBins(records);
+  const labels = evaluatedLabels(records);
+  const curves = labels.map((name) => labelCurves(records, name));
+  const activeLabel = selectedLabel && labels.includes(selectedLabel) ? selectedLabel : labels[0];
+  const activeCurves = curves.find((curve) => curve.label === activeLabel);
+  const agreed = records.filter((record) => record.verdict === "agree").length;
+
+  return (
+    <div className="flex flex-col items-center min-h-screen px-4 py-6 bg-slate-50">
+      <div className="w-full max-w-6xl space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h1 className="text-2xl font-bold text-gray-800">{t("dashboard.heading")}</h1>
+          <div className="flex items-center gap-4">
+            <select
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              aria-label={t("dashboard.month")}
+              className="px-2 py-1 border rounded text-sm"
+            >
+              <option value="all">{t("dashboard.allMonths")}</option>
+              {months.map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+            <Link to="/history" className="text-sm text-blue-600 hover:text-blue-800 underline">
+              {t("nav.history")}
+            </Link>
+            <Link to="/" className="text-sm text-blue-600 hover:text-blue-800 underline">
+              {t("nav.newAnalysis")}
+            </Link>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">{t("dashboard.hint")}</p>
+
+        {error && <div className="text-red-500">{t(error)}</div>}
+
+        {entries === null ? (
+          <p className="text-gray-500 text-center">{t("history.loading")}</p>
+        ) : records.length === 0 ? (
+          <p className="text-gray-500 text-center">{t("dashboard.empty")}</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <StatCard label={t("dashboard.analyses")} value={analyses} />
+              <StatCard label={t("dashboard.reviewed")} value={records.length} />
+              <StatCard label={t("dashboard.agreement")} value={percent(agreed / records.length)} />
+              <StatCard label={t("dashboard.labelled")} value={matrix.total} />
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              {/* Normal / Pneumonia confusion matrix */}
+              <div className="p-4 bg-white rounded-lg border border-gray-200 shadow-sm">
+                <h2 className="font-semibold text-gray-800 mb-2">{t("dashboard.confusion")}</h2>
+                <table className="text-sm mb-3">
+                  <thead>
+                    <tr>
+                      <th />
+                      <th className="px-3 text-xs font-normal text-gray-500">
+                        {t("dashboard.predicted", { label: translateLabel("Pneumonia") })}
+                      </th>
+                      <th className="px-3 text-xs font-normal text-gray-500">
+                        {t("dashboard.predicted", { label: translateLabel("Normal") })}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-center">
+                    <tr>
+                      <th className="pr-3 text-xs font-normal text-gray-500 text-right">
+                        {t("dashboard.actual", { label: translateLabel("Pneumonia") })}
+                      </th>
+                      <td className="p-3 bg-green-100 font-bold">{matrix.tp}</td>
+                      <td className="p-3 bg-red-100 font-bold">{matrix.fn}</td>
+                    </tr>
+                    <tr>
+                      <th className="pr-3 text-xs font-normal text-gray-500 text-right">
+                        {t("dashboard.actual", { label: translateLabel("Normal") })}
+                      </th>
+                      <td className="p-3 bg-orange-100 font-bold">{matrix.fp}</td>
+                      <td className="p-3 bg-green-100 font-bold">{matrix.tn}</td>
+                    </tr>
+                  </tbody>
+                </table>
+                <dl className="grid grid-cols-2 gap-x-4 text-sm">
+                  <dt className="text-gray-600">{t("dashboard.sensitivity")}</dt>
+                  <dd className="font-semibold">{percent(matrix.sensitivity)}</dd>
+                  <dt className="text-gray-600">{t("dashboard.specificity")}</dt>
+                  <dd className="font-semibold">{percent(matrix.specificity)}</dd>
+                  <dt className="text-gray-600">{t("dashboard.ppv")}</dt>
+                  <dd className="font-semibold">{percent(matrix.ppv)}</dd>
+                  <dt className="text-gray-600">{t("dashboard.npv")}</dt>
+                  <dd className="font-semibold">{percent(matrix.npv)}</dd>
+                  <dt className="text-gray-600">{t("dashboard.accuracy")}</dt>
+                  <dd className="font-semibold">{percent(matrix.accuracy)}</dd>
+                </dl>
+              </div>
+
+              <div className="p-4 bg-white rounded-lg border border-gray-200 shadow-sm">
+                <h2 className="font-semibold text-gray-800 mb-1">{t("dashboard.calibration")}</h2>
+                <p className="text-xs text-gray-500 mb-2">
+                  {t("dashboard.ece", { value: decimal(expectedCalibrationError(bins)) })}
+                </p>
+                <CalibrationChart
+                  bins={bins}
+                  xLabel={t("dashboard.confidence")}
+                  yLabel={t("dashboard.observedAccuracy")}
+                />
+              </div>
+            </div>
+
+            {/* Per-finding ROC / PR */}
+            <div className="p-4 bg-white rounded-lg border border-gray-200 shadow-sm">
+              <h2 className="font-semibold text-gray-800 mb-2">{t("dashboard.perLabel")}</h2>
+              {labels.length === 0 ? (
+                <p className="text-sm text-gray-500">{t("dashboard.noLabels")}</p>
+              ) : (
+                <div className="grid md:grid-cols-2 gap-4">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-xs text-gray-500 text-right">
+                        <th className="text-left font-normal">{t("dashboard.label")}</th>
+                        <th className="font-normal px-2">{t("dashboard.positives")}</th>
+                        <th className="font-normal px-2">{t("dashboard.negatives")}</th>
+                        <th className="font-normal px-2">AUC</th>
+                        <th className="font-normal">AP</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {curves.map((curve) => (
+                        <tr
+                          key={curve.label}
+                          onClick={() => setSelectedLabel(curve.label)}
+                          className={`border-t text-right cursor-pointer hover:bg-slate-50 ${
+                            curve.label === activeLabel ? "bg-indigo-50 font-semibold" : ""
+                          }`}
+                        >
+                          <td className="py-1 text-left">{translateLabel(curve.label)}</td>
+                          <td className="px-2">{curve.positives}</td>
+                          <td className="px-2">{curve.negatives}</td>
+                          <td className="px-2">{decimal(curve.auc)}</td>
+                          <td>{decimal(curve.averagePrecision)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {activeCurves && (
+                    <div>
+                      <h3 className="text-sm font-semibold text-gray-700">{translateLabel(activeCurves.label)}</h3>
+                      {activeCurves.roc.length === 0 ? (
+                        <p className="text-sm text-gray-500">{t("dashboard.needBothClasses")}</p>
+                      ) : (
+                        <div className="grid grid-cols-2 gap-2">
+                          <CurveChart
+                            points={activeCurves.roc}
+                            xLabel={t("dashboard.fpr")}
+                            yLabel={t("dashboard.tpr")}
+                            diagonal
+                          />
+                          <CurveChart
+                            points={activeCurves.pr}
+                            xLabel={t("dashboard.recall")}
+                            yLabel={t("dashboard.precision")}
+                            color="#7c3aed"
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <GroupTable
+                title={t("dashboard.byPipeline")}
+                groups={groupMetrics(records, (record) =>
+                  record.prediction.pipeline === "optimized" ? t("mode.optimized") : t("mode.standard")
+                )}
+              />
+              <GroupTable
+                title={t("dashboard.byModel")}
+                groups={groupMetrics(records, (record) => record.prediction.modelName ?? t("dashboard.unknownModel"))}
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
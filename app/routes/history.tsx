@@ -0,0 +1,257 @@
+import { useEffect, useState } from "react";
+import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { Link, useRouteLoaderData } from "@remix-run/react";
+import { TriageBadge } from "~/components/TriageBadge";
+import { useCurrentUser } from "~/hooks/useCurrentUser";
+import { ApiError, describeApiError } from "~/lib/api-client";
+import { hasRole } from "~/lib/auth";
+import { requireUser } from "~/lib/auth.server";
+import { downloadFeedbackJsonl, syncPendingFeedback } from "~/lib/feedback";
+import {
+  deleteHistoryEntry,
+  groupHistoryByPatient,
+  listHistoryEntries,
+  matchesHistorySearch,
+  patientIdOf,
+  type HistoryEntry,
+} from "~/lib/history";
+import { getMetaTranslator, useI18n, type MessageKey } from "~/lib/i18n";
+import { describePatientContext } from "~/lib/patient";
+
+export const meta: MetaFunction = ({ matches }) => {
+  const { t } = getMetaTranslator(matches);
+  return [
+    { title: t("history.title") },
+    {
+      name: "description",
+      content: t("history.description"),
+    },
+  ];
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  await requireUser(request);
+  return null;
+};
+
+export default function History() {
+  const { t } = useI18n();
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [query, setQuery] = useState("");
+  const [grouped, setGrouped] = useState(false);
+  const [feedbackStatus, setFeedbackStatus] = useState<string | null>(null);
+  const rootData = useRouteLoaderData<{ feedbackSync?: boolean }>("root");
+  const user = useCurrentUser();
+
+  // IndexedDB only exists in the browser, so the list is loaded after hydration
+  useEffect(() => {
+    listHistoryEntries()
+      .then(setEntries)
+      .catch((err) => {
+        console.warn("Could not read history:", err);
+        setError("history.readError");
+        setEntries([]);
+      });
+  }, []);
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (!window.confirm(t("history.deleteConfirm", { name: entry.fileName }))) return;
+    try {
+      await deleteHistoryEntry(entry.id);
+      setEntries((prev) => prev?.filter((e) => e.id !== entry.id) ?? null);
+    } catch (err) {
+      console.warn("Could not delete history entry:", err);
+      setError("history.deleteError");
+    }
+  };
+
+  const handleExportFeedback = async () => {
+    try {
+      const count = await downloadFeedbackJsonl();
+      setFeedbackStatus(t("history.feedbackExported", { count }));
+    } catch (err) {
+      console.warn("Could not export feedback:", err);
+      setFeedbackStatus(t("history.feedbackError"));
+    }
+  };
+
+  const handleSyncFeedback = async () => {
+    try {
+      const count = await syncPendingFeedback();
+      setFeedbackStatus(t("history.feedbackSynced", { count }));
+    } catch (err) {
+      console.warn("Could not send feedback:", err);
+      setFeedbackStatus(err instanceof ApiError ? describeApiError(err, { t }) : t("history.feedbackError"));
+    }
+  };
+
+  const visible = entries?.filter((entry) => matchesHistorySearch(entry, query)) ?? [];
+
+  return (
+    <div className="flex flex-col items-center min-h-screen px-4 py-6 bg-slate-50">
+      <div className="w-full max-w-4xl">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-gray-800">{t("history.heading")}</h1>
+          <div className="flex gap-4">
+            {user && hasRole(user, ["radiologist"]) && (
+              <Link to="/dashboard" className="text-sm text-blue-600 hover:text-blue-800 underline">
+                {t("nav.dashboard")}
+              </Link>
+            )}
+            <Link to="/" className="text-sm text-blue-600 hover:text-blue-800 underline">
+              {t("nav.newAnalysis")}
+            </Link>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+          <button
+            type="button"
+            onClick={handleExportFeedback}
+            className="px-3 py-1 border border-amber-300 text-amber-700 rounded hover:bg-amber-50"
+          >
+            {t("history.exportFeedback")}
+          </button>
+          {rootData?.feedbackSync && (
+            <button
+              type="button"
+              onClick={handleSyncFeedback}
+              className="px-3 py-1 border border-amber-300 text-amber-700 rounded hover:bg-amber-50"
+            >
+              {t("history.syncFeedback")}
+            </button>
+          )}
+          {feedbackStatus && <span className="text-gray-600">{feedbackStatus}</span>}
+        </div>
+
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t("history.search")}
+          aria-label={t("history.searchLabel")}
+          className="w-full mb-2 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-300"
+        />
+        <label className="flex items-center gap-2 mb-4 text-sm text-gray-700 cursor-pointer">
+          <input type="checkbox" checked={grouped} onChange={(e) => setGrouped(e.target.checked)} />
+          {t("history.groupByPatient")}
+        </label>
+
+        {error && <div className="text-red-500 mb-4">{t(error)}</div>}
+
+        {entries === null ? (
+          <p className="text-gray-500 text-center">{t("history.loading")}</p>
+        ) : visible.length === 0 ? (
+          <p className="text-gray-500 text-center">
+            {entries.length === 0 ? t("history.empty") : t("history.noMatch")}
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {grouped
+              ? groupHistoryByPatient(visible).map((group) => (
+                  <li key={group.patientId ?? ""}>
+                    <h2 className="text-sm font-semibold text-indigo-700 mb-2">
+                      🧒 {group.patientId ?? t("history.noPatient")}
+                      <span className="ml-2 font-normal text-gray-500">
+                        {t("history.patientStudies", { count: group.entries.length })}
+                      </span>
+                      {group.patientId && (
+                        <Link
+                          to={`/patients/${encodeURIComponent(group.patientId)}`}
+                          className="ml-3 font-normal text-blue-600 hover:text-blue-800 underline"
+                        >
+                          {t("history.timeline")}
+                        </Link>
+                      )}
+                    </h2>
+                    <ul className="space-y-3 pl-3 border-l-2 border-indigo-100">
+                      {group.entries.map((entry) => (
+                        <HistoryRow key={entry.id} entry={entry} onDelete={handleDelete} />
+                      ))}
+                    </ul>
+                  </li>
+                ))
+              : visible.map((entry) => <HistoryRow key={entry.id} entry={entry} onDelete={handleDelete} />)}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// One analysis, with its patient line when the context was filled in
+function HistoryRow({ entry, onDelete }: { entry: HistoryEntry; onDelete: (entry: HistoryEntry) => void }) {
+  const { t, label, formatDateTime } = useI18n();
+  const { data } = entry.response;
+  const isPneumonia = data.predictedClass === "Pneumonia";
+  const patient = entry.clinicalInfo.patient;
+  return (
+    <li className="flex items-center gap-4 p-3 bg-white rounded-lg border border-gray-200 shadow-sm">
+      {entry.thumbnail ? (
+        <img
+          src={entry.thumbnail}
+          alt={entry.fileName}
+          className="w-16 h-16 object-cover rounded bg-black"
+        />
+      ) : (
+        <div className="w-16 h-16 rounded bg-gray-200 flex items-center justify-center">
+          📄
+        </div>
+      )}
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-gray-800 truncate">{entry.fileName}</p>
+        <p className="text-xs text-gray-500">
+          {formatDateTime(entry.createdAt)} •{" "}
+          {entry.pipeline === "optimized" ? t("mode.optimized") : t("mode.standard")}
+          {entry.eigencamUrl && " • Eigencam"}
+          {entry.analyzedBy && ` • 👤 ${entry.analyzedBy.name}`}
+        </p>
+        {patient && (
+          <p className="text-xs text-indigo-700">
+            🧒 {describePatientContext(patient, { t }).map(([, value]) => value).join(" • ")}
+            {patientIdOf(entry) && (
+              <Link
+                to={`/patients/${encodeURIComponent(patientIdOf(entry) ?? "")}`}
+                className="ml-2 text-blue-600 hover:text-blue-800 underline"
+              >
+                {t("history.timeline")}
+              </Link>
+            )}
+          </p>
+        )}
+        <p className="text-sm">
+          {entry.triage && <TriageBadge level={entry.triage.level} className="mr-2" />}
+          <span className={isPneumonia ? "text-red-600 font-bold" : "text-green-600 font-bold"}>
+            {label(data.predictedClass)}
+          </span>
+          {data.confidence !== undefined && (
+            <span className="ml-2 text-xs text-blue-600">
+              ({(data.confidence * 100).toFixed(1)}%)
+            </span>
+          )}
+          {data.warnings && data.warnings.length > 0 && (
+            <span className="ml-2 text-xs text-orange-600">
+              ⚠️ {data.warnings.length}
+            </span>
+          )}
+        </p>
+      </div>
+      <div className="flex flex-col gap-1">
+        <Link
+          to={`/?history=${encodeURIComponent(entry.id)}`}
+          className="text-xs px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 text-center"
+        >
+          {t("history.reopen")}
+        </Link>
+        <button
+          type="button"
+          onClick={() => onDelete(entry)}
+          className="text-xs px-3 py-1 text-red-600 border border-red-200 rounded hover:bg-red-50"
+        >
+          {t("history.delete")}
+        </button>
+      </div>
+    </li>
+  );
+}
@@ -0,0 +1,17 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { isLocale } from "~/lib/i18n";
+import { localeCookie } from "~/lib/locale.server";
+
+// POST /locale with `locale=vi|en`: remembers the UI language in a cookie.
+// Loaders revalidate after the fetcher submission, so the page re-renders in place.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const formData = await request.formData();
+  const locale = formData.get("locale");
+  if (!isLocale(locale)) {
+    return Response.json({ success: false, message: "Unsupported locale" }, { status: 400 });
+  }
+  return Response.json(
+    { success: true, locale },
+    { headers: { "Set-Cookie": await localeCookie.serialize(locale) } }
+  );
+};
@@ -0,0 +1,96 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { redirect } from "@remix-run/node";
+import { Form, useActionData, useLoaderData, useNavigation, useSearchParams } from "@remix-run/react";
+import { createUserSession, getUser, safeRedirect } from "~/lib/auth.server";
+import { getAuthConfig } from "~/lib/config.server";
+import { getMetaTranslator, useI18n, type MessageKey } from "~/lib/i18n";
+import { isOidcEnabled } from "~/lib/oidc.server";
+import { verifyLogin } from "~/lib/users.server";
+
+export const meta: MetaFunction = ({ matches }) => {
+  const { t } = getMetaTranslator(matches);
+  return [{ title: t("login.title") }];
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const redirectTo = safeRedirect(new URL(request.url).searchParams.get("redirectTo"));
+  if (await getUser(request)) throw redirect(redirectTo);
+  return { oidc: isOidcEnabled(), demoAccounts: getAuthConfig().demoAccounts };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const formData = await request.formData();
+  const username = String(formData.get("username") ?? "").trim();
+  const password = String(formData.get("password") ?? "");
+  const user = username && password ? await verifyLogin(username, password) : null;
+  if (!user) {
+    console.warn(`🔒 Failed login for "${username}"`);
+    return Response.json({ error: "login.invalid" satisfies MessageKey }, { status: 401 });
+  }
+  return createUserSession(request, user, safeRedirect(formData.get("redirectTo")));
+};
+
+const LOGIN_ERRORS: Record<string, MessageKey> = {
+  oidc: "login.oidcError",
+  oidcUnavailable: "login.oidcUnavailable",
+};
+
+export default function Login() {
+  const { t } = useI18n();
+  const { oidc, demoAccounts } = useLoaderData<typeof loader>();
+  const actionData = useActionData<{ error: MessageKey }>();
+  const navigation = useNavigation();
+  const [searchParams] = useSearchParams();
+  const redirectTo = searchParams.get("redirectTo") ?? "/";
+  const errorParam = searchParams.get("error");
+  const error = actionData?.error ?? (errorParam ? LOGIN_ERRORS[errorParam] : undefined);
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen px-4 bg-slate-50">
+      <img src="/Logo_ND2.png" alt={t("app.logoAlt")} className="w-20 h-auto mb-4" />
+      <h1 className="text-2xl font-bold text-gray-800 mb-1">{t("app.title")}</h1>
+      <p className="text-gray-600 mb-6">{t("login.subtitle")}</p>
+
+      <Form method="post" className="w-full max-w-sm p-6 bg-white rounded-xl border border-gray-200 shadow-sm space-y-4">
+        <input type="hidden" name="redirectTo" value={redirectTo} />
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700">{t("login.username")}</span>
+          <input
+            type="text"
+            name="username"
+            autoComplete="username"
+            required
+            className="w-full mt-1 px-3 py-2 border rounded"
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700">{t("login.password")}</span>
+          <input
+            type="password"
+            name="password"
+            autoComplete="current-password"
+            required
+            className="w-full mt-1 px-3 py-2 border rounded"
+          />
+        </label>
+        {error && <p className="text-sm text-red-600">{t(error)}</p>}
+        <button
+          type="submit"
+          disabled={navigation.state !== "idle"}
+          className="w-full py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition disabled:opacity-50"
+        >
+          {navigation.state !== "idle" ? t("login.submitting") : t("login.submit")}
+        </button>
+        {oidc && (
+          <a
+            href={`/auth/oidc?${new URLSearchParams({ redirectTo })}`}
+            className="block w-full py-2 text-center border border-blue-600 text-blue-700 rounded hover:bg-blue-50 transition"
+          >
+            {t("login.oidc")}
+          </a>
+        )}
+        {demoAccounts && <p className="text-xs text-gray-500">{t("login.demoHint")}</p>}
+      </Form>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+import { redirect, type ActionFunctionArgs } from "@remix-run/node";
+import { logout } from "~/lib/auth.server";
+
+// POST /logout ends the session. A plain GET only goes home, so a link or
+// prefetch can't sign anyone out.
+export const action = ({ request }: ActionFunctionArgs) => logout(request);
+
+export const loader = () => redirect("/");
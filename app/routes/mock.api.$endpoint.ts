@@ -0,0 +1,17 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { methodNotAllowed } from "~/lib/backend.server";
+import { getBackendConfig } from "~/lib/config.server";
+import { mockAnalyze } from "~/lib/mock-backend.server";
+
+// POST /mock/api/analyze and /mock/api/analyze-optimized
+// The mock analyze service over HTTP, so ANALYZE_API_URL=<origin>/mock/api can
+// exercise the real proxy path. Only served when MOCK_HTTP (or MOCK_BACKEND) is set.
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { endpoint } = params;
+  if (!getBackendConfig().mockHttp || (endpoint !== "analyze" && endpoint !== "analyze-optimized")) {
+    throw new Response("Not Found", { status: 404 });
+  }
+  if (request.method !== "POST") return methodNotAllowed();
+
+  return mockAnalyze(await request.formData(), endpoint, request.headers.get("Accept"));
+};
@@ -0,0 +1,14 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { methodNotAllowed } from "~/lib/backend.server";
+import { getBackendConfig } from "~/lib/config.server";
+import { mockEigencam } from "~/lib/mock-backend.server";
+
+// POST /mock/v2/eigencam
+// The mock Eigencam service over HTTP (EIGENCAM_API_URL=<origin>/mock/v2).
+// Only served when MOCK_HTTP (or MOCK_BACKEND) is set.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (!getBackendConfig().mockHttp) throw new Response("Not Found", { status: 404 });
+  if (request.method !== "POST") return methodNotAllowed();
+
+  return mockEigencam(await request.text());
+};
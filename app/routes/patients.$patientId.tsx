@@ -0,0 +1,343 @@
+import { useEffect, useState } from "react";
+import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { Link, useParams } from "@remix-run/react";
+import { TrendChart, type TrendSeries } from "~/components/MetricCharts";
+import { TriageBadge } from "~/components/TriageBadge";
+import { XrayViewer } from "~/components/XrayViewer";
+import { useEigencam } from "~/hooks/useEigencam";
+import { requireUser } from "~/lib/auth.server";
+import { getMetaTranslator, useI18n, type MessageKey } from "~/lib/i18n";
+import { formatAge } from "~/lib/patient";
+import {
+  DEFAULT_TREND_LABEL_COUNT,
+  latestTrend,
+  loadPatientTimeline,
+  timelineLabels,
+  trendBetween,
+  type TimelinePoint,
+  type Trend,
+} from "~/lib/timeline";
+
+export const meta: MetaFunction = ({ matches }) => {
+  const { t } = getMetaTranslator(matches);
+  return [
+    { title: t("timeline.title") },
+    {
+      name: "description",
+      content: t("timeline.description"),
+    },
+  ];
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  await requireUser(request);
+  return null;
+};
+
+const PNEUMONIA_COLOR = "#dc2626";
+const LABEL_COLORS = ["#2563eb", "#d97706", "#059669", "#7c3aed", "#db2777", "#0891b2", "#65a30d", "#475569"];
+
+const TREND_CONFIG: Record<Trend, { label: MessageKey; className: string }> = {
+  improving: { label: "timeline.trend.improving", className: "bg-green-100 text-green-800" },
+  worsening: { label: "timeline.trend.worsening", className: "bg-red-100 text-red-800" },
+  stable: { label: "timeline.trend.stable", className: "bg-gray-100 text-gray-700" },
+};
+
+const percent = (value?: number) => (value === undefined ? "—" : `${(value * 100).toFixed(1)}%`);
+
+// Signed change in percentage points; a fall is good news here
+const change = (from?: number, to?: number) => {
+  if (from === undefined || to === undefined) return { text: "—", className: "text-gray-400" };
+  const delta = (to - from) * 100;
+  return {
+    text: `${delta > 0 ? "+" : ""}${delta.toFixed(1)}`,
+    className: delta <= -0.05 ? "text-green-600" : delta >= 0.05 ? "text-red-600" : "text-gray-500",
+  };
+};
+
+function TrendBadge({ trend }: { trend?: Trend }) {
+  const { t } = useI18n();
+  if (!trend) return null;
+  const config = TREND_CONFIG[trend];
+  return <span className={`px-2 py-0.5 rounded text-sm font-semibold ${config.className}`}>{t(config.label)}</span>;
+}
+
+// One of the two compared studies, with its Eigencam map (generated on demand)
+function StudyColumn({ point, title }: { point: TimelinePoint; title: string }) {
+  const { t, label, formatDate } = useI18n();
+  const eigencam = useEigencam();
+  const { entry } = point;
+  const { data } = entry.response;
+  const resetEigencam = eigencam.reset;
+
+  useEffect(() => {
+    resetEigencam(entry.eigencamUrl ?? null);
+  }, [entry.id, entry.eigencamUrl, resetEigencam]);
+
+  return (
+    <div className="flex-1 min-w-0 p-4 bg-white rounded-lg border border-gray-200 shadow-sm space-y-2">
+      <h3 className="font-semibold text-gray-800">
+        {title} • {formatDate(point.time)}
+      </h3>
+      <p className="text-sm">
+        {entry.triage && <TriageBadge level={entry.triage.level} className="mr-2" />}
+        <span className={data.predictedClass === "Pneumonia" ? "text-red-600 font-bold" : "text-green-600 font-bold"}>
+          {label(data.predictedClass)}
+        </span>
+        <span className="ml-2 text-xs text-gray-600">
+          {t("timeline.pneumonia")}: {percent(point.pneumonia)}
+        </span>
+      </p>
+      <XrayViewer originalUrl={entry.thumbnail} heatmapUrl={eigencam.url} />
+      {!eigencam.url && data.cloudinaryId && data.modelName && (
+        <button
+          type="button"
+          onClick={() => eigencam.generate(entry.response, entry.id)}
+          disabled={eigencam.loading}
+          className="w-full py-1.5 text-sm bg-green-600 text-white rounded hover:bg-green-700 transition disabled:opacity-50"
+        >
+          {eigencam.waking ? t("eigencam.waking") : eigencam.loading ? t("eigencam.loading") : t("eigencam.generate")}
+        </button>
+      )}
+      {eigencam.error && <p className="text-sm text-red-500">{eigencam.error}</p>}
+    </div>
+  );
+}
+
+export default function PatientTimeline() {
+  const { t, label, formatDate } = useI18n();
+  const patientId = useParams().patientId ?? "";
+  const [points, setPoints] = useState<TimelinePoint[] | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [shownLabels, setShownLabels] = useState<string[]>([]);
+  // Indices into `points` of the two studies compared side by side
+  const [compared, setCompared] = useState<[number, number]>([0, 0]);
+
+  // IndexedDB only exists in the browser, so the studies are loaded after hydration
+  useEffect(() => {
+    setPoints(null);
+    loadPatientTimeline(patientId)
+      .then((loaded) => {
+        setPoints(loaded);
+        setShownLabels(timelineLabels(loaded).slice(0, DEFAULT_TREND_LABEL_COUNT));
+        // First study against the latest by default
+        setCompared([0, Math.max(0, loaded.length - 1)]);
+      })
+      .catch((err) => {
+        console.warn("Could not read history:", err);
+        setError("history.readError");
+        setPoints([]);
+      });
+  }, [patientId]);
+
+  const labels = points ? timelineLabels(points) : [];
+  const colorOf = (name: string) => LABEL_COLORS[labels.indexOf(name) % LABEL_COLORS.length];
+  const series: TrendSeries[] = points
+    ? [
+        { label: t("timeline.pneumonia"), color: PNEUMONIA_COLOR, values: points.map((p) => p.pneumonia), bold: true },
+        ...shownLabels.map((name) => ({
+          label: label(name),
+          color: colorOf(name),
+          values: points.map((p) => p.labels[name]),
+        })),
+      ]
+    : [];
+  const [first, second] = compared;
+  const [older, newer] = points ? [points[Math.min(first, second)], points[Math.max(first, second)]] : [];
+  const latest = points?.[points.length - 1];
+  const previous = points && points.length > 1 ? points[points.length - 2] : undefined;
+
+  const toggleLabel = (name: string) =>
+    setShownLabels((prev) => (prev.includes(name) ? prev.filter((l) => l !== name) : [...prev, name]));
+
+  return (
+    <div className="flex flex-col items-center min-h-screen px-4 py-6 bg-slate-50">
+      <div className="w-full max-w-6xl space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h1 className="text-2xl font-bold text-gray-800">{t("timeline.heading", { id: patientId })}</h1>
+          <div className="flex gap-4">
+            <Link to="/history" className="text-sm text-blue-600 hover:text-blue-800 underline">
+              {t("nav.history")}
+            </Link>
+            <Link to="/" className="text-sm text-blue-600 hover:text-blue-800 underline">
+              {t("nav.newAnalysis")}
+            </Link>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">{t("timeline.hint")}</p>
+
+        {error && <div className="text-red-500">{t(error)}</div>}
+
+        {points === null ? (
+          <p className="text-gray-500 text-center">{t("history.loading")}</p>
+        ) : points.length === 0 || !latest ? (
+          <p className="text-gray-500 text-center">{t("timeline.empty")}</p>
+        ) : (
+          <>
+            {/* Is the model's Pneumonia probability going down? */}
+            <div className="p-4 bg-white rounded-lg border border-gray-200 shadow-sm flex flex-wrap items-center gap-3">
+              <span className="font-semibold text-gray-800">{t("timeline.latestTrend")}</span>
+              {previous ? (
+                <>
+                  <TrendBadge trend={latestTrend(points)} />
+                  <span className="text-sm text-gray-600">
+                    {t("timeline.trendDetail", {
+                      from: percent(previous.pneumonia),
+                      to: percent(latest.pneumonia),
+                      date: formatDate(previous.time),
+                    })}
+                  </span>
+                </>
+              ) : (
+                <span className="text-sm text-gray-500">{t("timeline.singleStudy")}</span>
+              )}
+            </div>
+
+            <div className="p-4 bg-white rounded-lg border border-gray-200 shadow-sm">
+              <h2 className="font-semibold text-gray-800 mb-2">{t("timeline.chartTitle")}</h2>
+              <div className="flex flex-col md:flex-row gap-4">
+                <TrendChart
+                  times={points.map((p) => p.time)}
+                  series={series}
+                  formatTime={formatDate}
+                  xLabel={t("timeline.time")}
+                  yLabel={t("timeline.probability")}
+                  markers={points.length > 1 ? [first, second] : []}
+                />
+                <div className="text-sm space-y-1">
+                  <div className="flex items-center gap-2 font-medium" style={{ color: PNEUMONIA_COLOR }}>
+                    <span className="w-3 h-1 rounded" style={{ backgroundColor: PNEUMONIA_COLOR }}></span>
+                    {t("timeline.pneumonia")}
+                  </div>
+                  <p className="text-xs text-gray-500 pt-1">{t("timeline.labels")}</p>
+                  {labels.map((name) => (
+                    <label key={name} className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={shownLabels.includes(name)}
+                        onChange={() => toggleLabel(name)}
+                      />
+                      <span className="w-3 h-1 rounded" style={{ backgroundColor: colorOf(name) }}></span>
+                      {label(name)}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="p-4 bg-white rounded-lg border border-gray-200 shadow-sm overflow-x-auto">
+              <h2 className="font-semibold text-gray-800 mb-2">{t("timeline.studies", { count: points.length })}</h2>
+              <table className="w-full text-sm">
+                <thead className="text-xs text-gray-500 text-left">
+                  <tr>
+                    <th className="font-normal px-2">{t("timeline.column.date")}</th>
+                    <th className="font-normal px-2">{t("timeline.column.context")}</th>
+                    <th className="font-normal px-2">{t("timeline.column.result")}</th>
+                    <th className="font-normal px-2 text-right">{t("timeline.pneumonia")}</th>
+                    <th className="font-normal px-2 text-right">{t("timeline.column.change")}</th>
+                    <th className="font-normal px-2 text-center">{t("timeline.column.compare")}</th>
+                    <th className="font-normal px-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {points.map((point, index) => {
+                    const { entry } = point;
+                    const patient = entry.clinicalInfo.patient;
+                    const delta = change(points[index - 1]?.pneumonia, point.pneumonia);
+                    return (
+                      <tr key={entry.id} className="border-t border-gray-100">
+                        <td className="px-2 py-1 whitespace-nowrap">{formatDate(point.time)}</td>
+                        <td className="px-2 py-1 text-xs text-gray-600">
+                          {[
+                            patient?.view_position && t(`patient.view.${patient.view_position}`),
+                            patient?.age && formatAge(patient.age, { t }),
+                            patient?.weight_kg !== undefined && `${patient.weight_kg} kg`,
+                          ]
+                            .filter(Boolean)
+                            .join(" • ")}
+                        </td>
+                        <td className="px-2 py-1">
+                          {entry.triage && <TriageBadge level={entry.triage.level} className="mr-2" />}
+                          {label(entry.response.data.predictedClass)}
+                        </td>
+                        <td className="px-2 py-1 text-right">{percent(point.pneumonia)}</td>
+                        <td className={`px-2 py-1 text-right ${delta.className}`}>{index > 0 ? delta.text : ""}</td>
+                        <td className="px-2 py-1 text-center whitespace-nowrap">
+                          <input
+                            type="radio"
+                            name="study-a"
+                            checked={first === index}
+                            onChange={() => setCompared([index, second])}
+                            aria-label={t("timeline.studyA")}
+                          />{" "}
+                          <input
+                            type="radio"
+                            name="study-b"
+                            checked={second === index}
+                            onChange={() => setCompared([first, index])}
+                            aria-label={t("timeline.studyB")}
+                          />
+                        </td>
+                        <td className="px-2 py-1 text-right">
+                          <Link
+                            to={`/?history=${encodeURIComponent(entry.id)}`}
+                            className="text-xs text-blue-600 hover:text-blue-800 underline"
+                          >
+                            {t("history.reopen")}
+                          </Link>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {older && newer && older !== newer ? (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center gap-3">
+                  <h2 className="font-semibold text-gray-800">{t("timeline.compareTitle")}</h2>
+                  <TrendBadge trend={trendBetween(older, newer)} />
+                </div>
+                <div className="flex flex-col lg:flex-row gap-4">
+                  <StudyColumn point={older} title={t("timeline.earlier")} />
+                  <StudyColumn point={newer} title={t("timeline.later")} />
+                </div>
+                <div className="p-4 bg-white rounded-lg border border-gray-200 shadow-sm overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="text-xs text-gray-500 text-right">
+                      <tr>
+                        <th className="font-normal px-2 text-left">{t("timeline.column.finding")}</th>
+                        <th className="font-normal px-2">{formatDate(older.time)}</th>
+                        <th className="font-normal px-2">{formatDate(newer.time)}</th>
+                        <th className="font-normal px-2">{t("timeline.column.change")}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[
+                        { name: t("timeline.pneumonia"), from: older.pneumonia, to: newer.pneumonia },
+                        ...labels.map((name) => ({ name: label(name), from: older.labels[name], to: newer.labels[name] })),
+                      ].map((row) => {
+                        const delta = change(row.from, row.to);
+                        return (
+                          <tr key={row.name} className="border-t border-gray-100 text-right">
+                            <td className="px-2 py-1 text-left">{row.name}</td>
+                            <td className="px-2 py-1">{percent(row.from)}</td>
+                            <td className="px-2 py-1">{percent(row.to)}</td>
+                            <td className={`px-2 py-1 ${delta.className}`}>{delta.text}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ) : (
+              points.length > 1 && <p className="text-sm text-gray-500">{t("timeline.pickTwo")}</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { createRemixStub } from "@remix-run/testing";
+import { render } from "@testing-library/react";
+import type { SessionUser } from "~/lib/auth";
+import type { Locale } from "~/lib/i18n";
+
+// Components read the locale and the signed-in user from the root loader
+// (useI18n, useCurrentUser), so tests render them inside a stub "root" route
+// whose loader data is already there.
+
+export const TEST_USER: SessionUser = { id: "lan", name: "BS. Lan", role: "clinician" };
+
+type RootData = { locale?: Locale; user?: SessionUser | null };
+
+const renderRoot = (Component: () => React.ReactNode, { locale = "en", user = TEST_USER }: RootData) => {
+  const Root = createRemixStub([{ id: "root", path: "/", Component }]);
+  return render(<Root hydrationData={{ loaderData: { root: { locale, user } } }} />);
+};
+
+export const renderWithRoot = (ui: React.ReactNode, root: RootData = {}) => renderRoot(() => ui, root);
+
+// `current` is the hook's latest return value, like renderHook's result
+export const renderHookWithRoot = <Result,>(hook: () => Result, root: RootData = {}) => {
+  const result = {} as { current: Result };
+  renderRoot(() => {
+    result.current = hook();
+    return null;
+  }, root);
+  return result;
+};
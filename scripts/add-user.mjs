@@ -0,0 +1,47 @@
+/* eslint-env node */
+// Adds or updates an account in the local credentials store (AUTH_USERS_FILE,
+// default users.json). The password is read from the terminal and stored as an
+// scrypt hash in the format app/lib/users.server.ts expects.
+//
+//   npm run user:add -- <username> <clinician|radiologist|admin> ["Display name"]
+
+import { randomBytes, scrypt } from "node:crypto";
+import { readFile, writeFile } from "node:fs/promises";
+import { createInterface } from "node:readline/promises";
+import { promisify } from "node:util";
+
+const ROLES = ["clinician", "radiologist", "admin"];
+const usersFile = process.env.AUTH_USERS_FILE || "users.json";
+const [username, role, name] = process.argv.slice(2);
+
+if (!username || !ROLES.includes(role)) {
+  console.error(`Usage: npm run user:add -- <username> <${ROLES.join("|")}> ["Display name"]`);
+  process.exit(1);
+}
+
+const readline = createInterface({ input: process.stdin, output: process.stdout });
+const password = await readline.question(`Password for ${username}: `);
+readline.close();
+if (password.length < 8) {
+  console.error("The password must be at least 8 characters.");
+  process.exit(1);
+}
+
+const salt = randomBytes(16);
+const hash = await promisify(scrypt)(password, salt, 64);
+
+let users = [];
+try {
+  users = JSON.parse(await readFile(usersFile, "utf8"));
+} catch (error) {
+  if (error.code !== "ENOENT") throw error;
+}
+users = users.filter((user) => user.username !== username);
+users.push({
+  username,
+  name: name || username,
+  role,
+  password: `scrypt:${salt.toString("base64")}:${hash.toString("base64")}`,
+});
+await writeFile(usersFile, `${JSON.stringify(users, null, 2)}\n`);
+console.log(`✅ ${username} (${role}) saved to ${usersFile}`);